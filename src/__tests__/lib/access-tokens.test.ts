@@ -0,0 +1,84 @@
+import { webcrypto } from 'crypto'
+import { TextEncoder } from 'util'
+import {
+  generateAccessToken,
+  getExpiresAt,
+  getTokenPrefix,
+  hasScope,
+  hashAccessToken,
+  isAccessToken,
+  isTokenExpired,
+  signUserJwt,
+} from '@/lib/access-tokens'
+
+// jsdom 没有提供 Web Crypto 的 subtle 和 TextEncoder，使用 Node 的实现
+Object.assign(globalThis, { TextEncoder })
+Object.defineProperty(globalThis.crypto, 'subtle', { value: webcrypto.subtle })
+
+function decodeSegment(segment: string) {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'))
+}
+
+describe('access-tokens', () => {
+  it('generates unique, recognisable tokens', () => {
+    const token = generateAccessToken()
+
+    expect(isAccessToken(token)).toBe(true)
+    expect(token).not.toBe(generateAccessToken())
+    expect(getTokenPrefix(token)).toBe(token.slice(0, 10))
+    expect(isAccessToken('tdl_short')).toBe(false)
+    expect(isAccessToken(`xyz_${token.slice(4)}`)).toBe(false)
+  })
+
+  it('hashes tokens with SHA-256', async () => {
+    await expect(hashAccessToken('abc')).resolves.toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    )
+  })
+
+  it('computes expiry dates and detects expired tokens', () => {
+    const now = new Date('2026-01-01T00:00:00Z')
+
+    expect(getExpiresAt(30, now)).toBe('2026-01-31T00:00:00.000Z')
+    expect(getExpiresAt(0, now)).toBeNull()
+    expect(isTokenExpired({ expires_at: '2025-12-31T00:00:00Z' }, now)).toBe(true)
+    expect(isTokenExpired({ expires_at: '2026-01-02T00:00:00Z' }, now)).toBe(false)
+    expect(isTokenExpired({ expires_at: null }, now)).toBe(false)
+  })
+
+  it('only lets write tokens perform writes', () => {
+    expect(hasScope('read', 'read')).toBe(true)
+    expect(hasScope('read', 'write')).toBe(false)
+    expect(hasScope('write', 'write')).toBe(true)
+  })
+
+  it('signs a short-lived JWT for the token owner', async () => {
+    const now = new Date('2026-01-01T00:00:00Z')
+    const jwt = await signUserJwt('user-1', 'secret', now)
+    const [header, payload, signature] = jwt.split('.')
+
+    expect(decodeSegment(header)).toEqual({ alg: 'HS256', typ: 'JWT' })
+    expect(decodeSegment(payload)).toEqual({
+      sub: 'user-1',
+      role: 'authenticated',
+      aud: 'authenticated',
+      iat: 1767225600,
+      exp: 1767225660,
+    })
+
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode('secret'),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify']
+    )
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      key,
+      Buffer.from(signature, 'base64url'),
+      new TextEncoder().encode(`${header}.${payload}`)
+    )
+    expect(valid).toBe(true)
+  })
+})
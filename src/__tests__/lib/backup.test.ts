@@ -0,0 +1,215 @@
+import {
+  BACKUP_VERSION,
+  backupToCsv,
+  buildBackup,
+  formatCsv,
+  parseBackupFile,
+  parseCsv,
+  planImport,
+  type ImportContext,
+} from '@/lib/backup'
+import type { List, Tag, Todo } from '@/types'
+
+function makeTodo(overrides: Partial<Todo> = {}): Todo {
+  return {
+    id: 'todo-1',
+    title: '写周报',
+    description: null,
+    completed: false,
+    created_at: '2024-05-01T08:00:00.000Z',
+    updated_at: '2024-05-01T08:00:00.000Z',
+    due_at: null,
+    priority: 'none',
+    parent_id: null,
+    list_id: 'inbox',
+    recurrence_rule: null,
+    recurrence_series_id: null,
+    recurrence_index: 1,
+    position: 'V',
+    deleted_at: null,
+    user_id: 'user-1',
+    ...overrides,
+  }
+}
+
+function makeList(overrides: Partial<List> = {}): List {
+  return {
+    id: 'inbox',
+    name: '收件箱',
+    color: '#3b82f6',
+    icon: 'inbox',
+    archived: false,
+    is_inbox: true,
+    created_at: '2024-05-01T08:00:00.000Z',
+    updated_at: '2024-05-01T08:00:00.000Z',
+    user_id: 'user-1',
+    ...overrides,
+  }
+}
+
+const work = makeList({ id: 'work', name: '工作', icon: 'briefcase', is_inbox: false })
+const urgent: Tag = {
+  id: 'tag-1',
+  name: '紧急',
+  color: '#ef4444',
+  created_at: '2024-05-01T08:00:00.000Z',
+  user_id: 'user-1',
+}
+
+const backup = buildBackup(
+  {
+    lists: [makeList(), work],
+    tags: [urgent],
+    todos: [
+      makeTodo({ id: 'a', title: '准备发布', list_id: 'work', due_at: '2024-05-03T10:00:00.000Z' }),
+      makeTodo({ id: 'b', title: '写 "发布说明", 附截图', parent_id: 'a', list_id: 'work' }),
+      makeTodo({ id: 'c', title: '买牛奶', description: '两盒\n低脂', completed: true }),
+    ],
+    todoTags: [{ todo_id: 'a', tag_id: 'tag-1' }],
+  },
+  new Date('2024-05-10T00:00:00.000Z')
+)
+
+const emptyContext: ImportContext = {
+  todos: [],
+  lists: [{ id: 'inbox', name: '收件箱', is_inbox: true }],
+  tags: [],
+}
+
+describe('backup', () => {
+  it('builds a versioned backup with tag ids on each todo', () => {
+    expect(backup.version).toBe(BACKUP_VERSION)
+    expect(backup.exported_at).toBe('2024-05-10T00:00:00.000Z')
+    expect(backup.todos.map((todo) => todo.tag_ids)).toEqual([['tag-1'], [], []])
+    expect(backup.todos[0]).not.toHaveProperty('user_id')
+  })
+
+  it('round-trips quotes, commas and newlines through CSV', () => {
+    const rows = [
+      ['title', 'description'],
+      ['写 "发布说明", 附截图', '两盒\n低脂'],
+    ]
+
+    expect(parseCsv(formatCsv(rows)).map((record) => record.cells)).toEqual(rows)
+    expect(parseCsv('a,b\r\n1,2\r\n\r\n')).toEqual([
+      { line: 1, cells: ['a', 'b'] },
+      { line: 2, cells: ['1', '2'] },
+    ])
+  })
+
+  it('records the line each CSV record starts on', () => {
+    const csv = 'title,description\r\n"多行","第一行\r\n第二行\r\n第三行"\r\n\r\n第二个任务,\r\n'
+
+    expect(parseCsv(csv).map((record) => record.line)).toEqual([1, 2, 6])
+    // 错误报告中的行号与文件中的行一致
+    expect(parseBackupFile('todos.csv', csv).map((row) => row.line)).toEqual([2, 6])
+  })
+
+  it('neutralises formulas in exported cells and restores them on import', () => {
+    const todos = [
+      makeTodo({ id: 'a', title: '=HYPERLINK("http://example.com")' }),
+      makeTodo({ id: 'b', title: '+1 提醒', description: '-- 备注\n@全体' }),
+      makeTodo({ id: 'c', title: "'=本来就有单引号" }),
+    ]
+    const csv = backupToCsv(buildBackup({ lists: [makeList()], tags: [], todos, todoTags: [] }))
+
+    expect(csv).toContain(`"'=HYPERLINK(""http://example.com"")"`)
+    expect(csv).toContain(`'+1 提醒`)
+    expect(csv).toContain(`"'-- 备注`)
+    expect(csv).toContain(`''=本来就有单引号`)
+
+    const plan = planImport(parseBackupFile('backup.csv', csv), emptyContext, 'merge')
+    expect(plan.todos.map((todo) => todo.fields.title)).toEqual(todos.map((todo) => todo.title))
+    expect(plan.todos[1].fields.description).toBe('-- 备注\n@全体')
+  })
+
+  it('imports a JSON backup into an empty account', () => {
+    const rows = parseBackupFile('backup.json', JSON.stringify(backup))
+    const plan = planImport(rows, emptyContext, 'merge')
+
+    expect(plan.errors).toEqual([])
+    expect(plan.todos.map((todo) => [todo.ref, todo.depth])).toEqual([
+      ['a', 0],
+      ['c', 0],
+      ['b', 1],
+    ])
+    // 子任务跟随父任务所在的清单
+    expect(plan.todos[2].list?.name).toBe('工作')
+    expect(plan.lists).toEqual([{ name: '工作', color: '#3b82f6', icon: 'briefcase' }])
+    expect(plan.tags).toEqual([{ name: '紧急', color: '#ef4444' }])
+  })
+
+  it('imports the same todos from CSV', () => {
+    const rows = parseBackupFile('backup.csv', backupToCsv(backup))
+    const plan = planImport(rows, emptyContext, 'merge')
+
+    expect(plan.errors).toEqual([])
+    expect(plan.todos.map((todo) => todo.fields.title)).toEqual([
+      '准备发布',
+      '买牛奶',
+      '写 "发布说明", 附截图',
+    ])
+    expect(plan.todos[1].fields).toMatchObject({ completed: true, description: '两盒\n低脂' })
+    expect(plan.todos[0].tags).toEqual([{ name: '紧急', color: expect.any(String) }])
+  })
+
+  it('skips duplicates when merging but not when replacing', () => {
+    const rows = parseBackupFile('backup.json', JSON.stringify(backup))
+    const context: ImportContext = {
+      todos: [
+        { id: 'existing', title: '准备发布', due_at: '2024-05-03T10:00:00Z', list_id: 'work' },
+      ],
+      lists: [...emptyContext.lists, { id: 'work', name: '工作', is_inbox: false }],
+      tags: [{ name: '紧急' }],
+    }
+
+    const merged = planImport(rows, context, 'merge')
+    expect(merged.duplicates.map((todo) => todo.ref)).toEqual(['a'])
+    // 父任务重复时子任务挂到已有的任务下
+    expect(merged.todos.find((todo) => todo.ref === 'b')).toMatchObject({
+      parentRef: null,
+      parentId: 'existing',
+    })
+    expect(merged.lists).toEqual([])
+    expect(merged.tags).toEqual([])
+
+    const replaced = planImport(rows, context, 'replace')
+    expect(replaced.duplicates).toEqual([])
+    expect(replaced.todos).toHaveLength(3)
+  })
+
+  it('reports invalid rows with their line numbers', () => {
+    const csv = [
+      'title,priority,due_at,completed,recurrence_rule',
+      '有效的任务,high,,false,',
+      ',none,,,',
+      '截止时间无效,none,明天,,',
+      '优先级无效,critical,,,',
+      '完成状态无效,none,,maybe,',
+      '缺少截止时间,none,,,FREQ=DAILY',
+    ].join('\n')
+
+    const plan = planImport(parseBackupFile('todos.csv', csv), emptyContext, 'merge')
+
+    expect(plan.todos.map((todo) => todo.fields.title)).toEqual(['有效的任务'])
+    expect(plan.errors.map((error) => [error.line, error.message])).toEqual([
+      [3, '标题不能为空'],
+      [4, '请输入有效的截止时间'],
+      [5, '请选择有效的优先级'],
+      [6, '完成状态必须为 true 或 false'],
+      [7, '重复任务需要设置截止时间'],
+    ])
+  })
+
+  it('rejects unknown files and newer backup versions', () => {
+    expect(() => parseBackupFile('todos.txt', '')).toThrow('只支持导入 .json 或 .csv 文件')
+    expect(() => parseBackupFile('backup.json', '{')).toThrow('文件不是有效的 JSON')
+    expect(() => parseBackupFile('backup.json', '{"todos": []}')).toThrow(
+      '文件不是本应用导出的备份'
+    )
+    expect(() =>
+      parseBackupFile('backup.json', JSON.stringify({ ...backup, version: BACKUP_VERSION + 1 }))
+    ).toThrow('不支持的备份版本')
+    expect(() => parseBackupFile('todos.csv', 'name\n任务')).toThrow('CSV 文件缺少 title 列')
+  })
+})
@@ -0,0 +1,21 @@
+import { getBulkResult, getRangeIds } from '@/lib/bulk'
+
+describe('bulk', () => {
+  it('reports todos missing from the server response as failed', () => {
+    expect(getBulkResult(['a', 'b', 'c'], [{ id: 'a' }, { id: 'c' }])).toEqual({
+      succeeded: ['a', 'c'],
+      failed: ['b'],
+    })
+    // 进入离线队列的修改没有服务器记录
+    expect(getBulkResult(['a'], null)).toEqual({ succeeded: ['a'], failed: [] })
+  })
+
+  it('selects the range between the anchor and the clicked todo in either direction', () => {
+    const ids = ['a', 'b', 'c', 'd']
+
+    expect(getRangeIds(ids, 'b', 'd')).toEqual(['b', 'c', 'd'])
+    expect(getRangeIds(ids, 'c', 'a')).toEqual(['a', 'b', 'c'])
+    expect(getRangeIds(ids, null, 'c')).toEqual(['c'])
+    expect(getRangeIds(ids, 'gone', 'c')).toEqual(['c'])
+  })
+})
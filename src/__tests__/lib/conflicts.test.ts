@@ -0,0 +1,41 @@
+import { buildResolution, getDefaultChoices, getFieldChanges } from '@/lib/conflicts'
+import { createLocalTodo } from '@/lib/outbox'
+import type { Todo } from '@/types'
+
+const base: Todo = {
+  ...createLocalTodo({ id: 'a', title: 'Buy milk', user_id: 'user-1' }, 'list-1'),
+  due_at: '2025-06-01T10:00:00+00:00',
+  updated_at: '2025-06-01T00:00:00+00:00',
+}
+
+describe('conflicts', () => {
+  it('lists only the fields that differ from the latest version', () => {
+    const theirs = { ...base, title: 'Buy oat milk', priority: 'high' as const }
+    const changes = getFieldChanges(
+      base,
+      { title: 'Buy milk and eggs', due_at: '2025-06-01T10:00:00.000Z', priority: 'none' },
+      theirs
+    )
+
+    expect(changes).toEqual([
+      {
+        field: 'title',
+        mine: 'Buy milk and eggs',
+        theirs: 'Buy oat milk',
+        mineChanged: true,
+        theirsChanged: true,
+      },
+      { field: 'priority', mine: 'none', theirs: 'high', mineChanged: false, theirsChanged: true },
+    ])
+  })
+
+  it('keeps each side of a one-sided change by default and saves only my choices', () => {
+    const theirs = { ...base, title: 'Buy oat milk', description: 'From the corner shop' }
+    const changes = getFieldChanges(base, { title: 'Buy milk and eggs' }, theirs)
+    const choices = getDefaultChoices(changes)
+
+    expect(choices).toEqual({ title: 'mine', description: 'theirs' })
+    expect(buildResolution(changes, choices)).toEqual({ title: 'Buy milk and eggs' })
+    expect(buildResolution(changes, { title: 'theirs', description: 'theirs' })).toEqual({})
+  })
+})
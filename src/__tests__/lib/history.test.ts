@@ -0,0 +1,52 @@
+import {
+  HISTORY_LIMIT,
+  describeUpdate,
+  invalidateHistory,
+  pickFields,
+  pushHistory,
+  type HistoryEntry,
+} from '@/lib/history'
+import { createLocalTodo } from '@/lib/outbox'
+
+const todo = createLocalTodo({ id: 'a', title: 'Buy milk', user_id: 'user-1' }, 'list-1')
+
+describe('history', () => {
+  it('records the previous values of the changed fields', () => {
+    expect(pickFields(todo, { title: 'Buy oat milk', completed: true })).toEqual({
+      title: 'Buy milk',
+      completed: false,
+    })
+    expect(describeUpdate({ completed: true })).toBe('完成任务')
+    expect(describeUpdate({ position: 'a1' })).toBe('调整顺序')
+    expect(describeUpdate({ title: 'Buy oat milk' })).toBe('编辑任务')
+  })
+
+  it('keeps only the most recent entries', () => {
+    let stack: HistoryEntry[] = []
+    for (let i = 0; i <= HISTORY_LIMIT; i++) {
+      stack = pushHistory(stack, { label: `${i}`, command: { type: 'add', id: `${i}` } })
+    }
+
+    expect(stack).toHaveLength(HISTORY_LIMIT)
+    expect(stack[0].label).toBe('1')
+  })
+
+  it('drops entries that touch todos changed elsewhere', () => {
+    const stack: HistoryEntry[] = [
+      { label: '删除任务', command: { type: 'delete', ids: ['a'] } },
+      {
+        label: '完成任务',
+        command: {
+          type: 'update',
+          changes: [
+            { id: 'b', before: { completed: false }, after: { completed: true } },
+            { id: 'c', before: { completed: false }, after: { completed: true } },
+          ],
+        },
+      },
+    ]
+
+    expect(invalidateHistory(stack, ['c'])).toEqual([stack[0]])
+    expect(invalidateHistory(stack, ['d'])).toBe(stack)
+  })
+})
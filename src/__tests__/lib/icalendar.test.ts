@@ -0,0 +1,116 @@
+import {
+  buildCalendar,
+  escapeText,
+  foldLine,
+  formatDateTime,
+  type CalendarTodo,
+} from '@/lib/icalendar'
+import {
+  generateCalendarToken,
+  getCalendarFeedUrl,
+  isCalendarToken,
+  toWebcalUrl,
+} from '@/lib/calendar-feed'
+
+const now = new Date('2026-05-03T08:00:00Z')
+
+function makeTodo(overrides: Partial<CalendarTodo> = {}): CalendarTodo {
+  return {
+    id: 'todo-1',
+    title: '写周报',
+    description: null,
+    completed: false,
+    priority: 'none',
+    due_at: null,
+    parent_id: null,
+    created_at: '2026-05-01T09:00:00.000Z',
+    updated_at: '2026-05-02T10:30:00.000Z',
+    ...overrides,
+  }
+}
+
+// 展开折叠的行后按内容行拆分
+function getLines(calendar: string): string[] {
+  return calendar.replace(/\r\n /g, '').split('\r\n')
+}
+
+describe('icalendar', () => {
+  it('escapes text values', () => {
+    expect(escapeText('a\\b;c,d\ne')).toBe('a\\\\b\\;c\\,d\\ne')
+  })
+
+  it('folds long lines without splitting multibyte characters', () => {
+    const line = `SUMMARY:${'任务标题'.repeat(20)}`
+    const folded = foldLine(line)
+    const parts = folded.split('\r\n')
+
+    expect(parts.length).toBeGreaterThan(1)
+    parts.forEach((part, index) => {
+      expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75)
+      if (index > 0) expect(part.startsWith(' ')).toBe(true)
+    })
+    expect(folded.replace(/\r\n /g, '')).toBe(line)
+    expect(foldLine('SUMMARY:short')).toBe('SUMMARY:short')
+  })
+
+  it('formats UTC date-times', () => {
+    expect(formatDateTime('2024-05-03T10:00:00.123Z')).toBe('20240503T100000Z')
+  })
+
+  it('maps todos to VTODO components', () => {
+    const calendar = buildCalendar(
+      [
+        makeTodo({
+          description: '第一行\n第二行',
+          priority: 'urgent',
+          due_at: '2026-05-04T01:00:00Z',
+        }),
+        makeTodo({ id: 'todo-2', title: '子任务', completed: true, parent_id: 'todo-1' }),
+      ],
+      { includeEvents: false, now }
+    )
+    const lines = getLines(calendar)
+
+    expect(calendar.endsWith('\r\n')).toBe(true)
+    expect(calendar.replace(/\r\n/g, '')).not.toContain('\n')
+    expect(lines[0]).toBe('BEGIN:VCALENDAR')
+    expect(lines).toContain('UID:todo-1@todolist')
+    expect(lines).toContain('DTSTAMP:20260503T080000Z')
+    expect(lines).toContain('SUMMARY:写周报')
+    expect(lines).toContain('DESCRIPTION:第一行\\n第二行')
+    expect(lines).toContain('DUE:20260504T010000Z')
+    expect(lines).toContain('PRIORITY:1')
+    expect(lines).toContain('STATUS:NEEDS-ACTION')
+    expect(lines).toContain('STATUS:COMPLETED')
+    expect(lines).toContain('COMPLETED:20260502T103000Z')
+    expect(lines).toContain('RELATED-TO:todo-1@todolist')
+    expect(lines.filter((line) => line.startsWith('PRIORITY:'))).toHaveLength(1)
+    expect(lines).not.toContain('BEGIN:VEVENT')
+  })
+
+  it('adds VEVENT components for dated todos when enabled', () => {
+    const calendar = buildCalendar(
+      [makeTodo({ due_at: '2026-05-04T01:00:00Z' }), makeTodo({ id: 'todo-2' })],
+      { includeEvents: true, now }
+    )
+    const lines = getLines(calendar)
+
+    expect(lines.filter((line) => line === 'BEGIN:VTODO')).toHaveLength(2)
+    expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(1)
+    expect(lines).toContain('UID:todo-1-due@todolist')
+    expect(lines).toContain('DTSTART:20260504T010000Z')
+  })
+})
+
+describe('calendar-feed', () => {
+  it('generates feed tokens and urls', () => {
+    const token = generateCalendarToken()
+    const url = getCalendarFeedUrl('https://todo.example.com', token)
+
+    expect(isCalendarToken(token)).toBe(true)
+    expect(token).not.toBe(generateCalendarToken())
+    expect(isCalendarToken('short')).toBe(false)
+    expect(url).toBe(`https://todo.example.com/api/calendar/${token}.ics`)
+    expect(toWebcalUrl(url)).toBe(`webcal://todo.example.com/api/calendar/${token}.ics`)
+  })
+})
@@ -0,0 +1,57 @@
+import { parseInline, parseMarkdown, sanitizeUrl, toggleTaskItem } from '@/lib/markdown'
+
+describe('markdown', () => {
+  it('parses task lists with their source lines', () => {
+    const blocks = parseMarkdown('购物清单\n\n- [ ] 牛奶\n- [x] 面包\n- 普通项')
+
+    expect(blocks[0].type).toBe('paragraph')
+    expect(blocks[1]).toEqual({
+      type: 'list',
+      ordered: false,
+      start: 1,
+      items: [
+        { checked: false, line: 2, children: [{ type: 'text', text: '牛奶' }] },
+        { checked: true, line: 3, children: [{ type: 'text', text: '面包' }] },
+        { checked: null, line: 4, children: [{ type: 'text', text: '普通项' }] },
+      ],
+    })
+  })
+
+  it('keeps fenced code blocks verbatim', () => {
+    expect(parseMarkdown('```ts\nconst a = **1**\n```')).toEqual([
+      { type: 'code', lang: 'ts', text: 'const a = **1**' },
+    ])
+  })
+
+  it('parses inline formatting and links', () => {
+    expect(parseInline('**粗体** 和 `code` 见 [文档](https://example.com)')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: '粗体' }] },
+      { type: 'text', text: ' 和 ' },
+      { type: 'code', text: 'code' },
+      { type: 'text', text: ' 见 ' },
+      {
+        type: 'link',
+        href: 'https://example.com',
+        children: [{ type: 'text', text: '文档' }],
+      },
+    ])
+  })
+
+  it('drops unsafe link targets', () => {
+    expect(sanitizeUrl('javascript:alert(1)')).toBeNull()
+    expect(sanitizeUrl('mailto:me@example.com')).toBe('mailto:me@example.com')
+    expect(parseInline('[点我](javascript:alert%281%29)')).toEqual([{ type: 'text', text: '点我' }])
+  })
+
+  it('does not treat underscores inside words as emphasis', () => {
+    expect(parseInline('snake_case_name')).toEqual([{ type: 'text', text: 'snake_case_name' }])
+  })
+
+  it('toggles a task item on the given line only', () => {
+    const source = '- [ ] 第一项\n- [ ] 第二项\n> - [x] 引用中的任务'
+    expect(toggleTaskItem(source, 1, true)).toBe('- [ ] 第一项\n- [x] 第二项\n> - [x] 引用中的任务')
+    expect(toggleTaskItem(source, 2, false)).toBe(
+      '- [ ] 第一项\n- [ ] 第二项\n> - [ ] 引用中的任务'
+    )
+  })
+})
@@ -0,0 +1,90 @@
+import {
+  applyOperation,
+  applyOperations,
+  createLocalTodo,
+  getSyncStatus,
+  isNetworkError,
+  type OutboxEntry,
+  type OutboxOperation,
+} from '@/lib/outbox'
+
+const todo = createLocalTodo(
+  { id: 'todo-1', title: 'Write report', user_id: 'user-1', list_id: 'list-1' },
+  null
+)
+
+function entry(seq: number, operation: OutboxOperation, status: OutboxEntry['status'] = 'pending') {
+  return { seq, operation, status, error: null, created_at: '2025-06-01T00:00:00Z' }
+}
+
+describe('outbox', () => {
+  it('fills database defaults for local todos', () => {
+    expect(todo).toMatchObject({
+      id: 'todo-1',
+      completed: false,
+      priority: 'none',
+      list_id: 'list-1',
+      deleted_at: null,
+      recurrence_index: 1,
+    })
+  })
+
+  it('replays pending operations on top of server data', () => {
+    const snapshot = applyOperations(
+      { todos: [todo], todoTags: {} },
+      [
+        entry(1, {
+          type: 'insert',
+          row: { id: 'todo-2', title: 'Call Bob', user_id: 'user-1', list_id: 'list-1' },
+        }),
+        entry(2, { type: 'update', ids: ['todo-1'], updates: { completed: true } }),
+        entry(3, { type: 'tags', todoId: 'todo-1', userId: 'user-1', added: ['a'], removed: [] }),
+      ],
+      'list-1'
+    )
+
+    expect(snapshot.todos.map((t) => t.id)).toEqual(['todo-2', 'todo-1'])
+    expect(snapshot.todos[1].completed).toBe(true)
+    expect(snapshot.todoTags).toEqual({ 'todo-1': ['a'] })
+  })
+
+  it('hides todos that were deleted or moved to another list', () => {
+    const state = { todos: [todo], todoTags: {} }
+    const deleted = applyOperation(
+      state,
+      { type: 'update', ids: ['todo-1'], updates: { deleted_at: '2025-06-01T00:00:00Z' } },
+      'list-1'
+    )
+    const moved = applyOperation(
+      state,
+      { type: 'update', ids: ['todo-1'], updates: { list_id: 'list-2' } },
+      'list-1'
+    )
+
+    expect(deleted.todos).toEqual([])
+    expect(moved.todos).toEqual([])
+  })
+
+  it('does not duplicate an insert that already reached the server', () => {
+    const state = { todos: [todo], todoTags: {} }
+    expect(applyOperation(state, { type: 'insert', row: todo }, null)).toBe(state)
+  })
+
+  it('reports the sync status of a todo', () => {
+    const entries = [
+      entry(1, { type: 'update', ids: ['todo-1', 'todo-2'], updates: { completed: true } }),
+      entry(2, { type: 'update', ids: ['todo-2'], updates: { title: 'x' } }, 'failed'),
+    ]
+
+    expect(getSyncStatus(entries, 'todo-1')).toBe('pending')
+    expect(getSyncStatus(entries, 'todo-2')).toBe('failed')
+    expect(getSyncStatus(entries, 'todo-3')).toBeNull()
+  })
+
+  it('detects network errors', () => {
+    expect(isNetworkError(new TypeError('Failed to fetch'))).toBe(true)
+    expect(isNetworkError({ message: 'TypeError: Failed to fetch' })).toBe(true)
+    expect(isNetworkError(new Error('获取任务失败: TypeError: NetworkError'))).toBe(true)
+    expect(isNetworkError({ message: 'new row violates row-level security policy' })).toBe(false)
+  })
+})
@@ -0,0 +1,36 @@
+import { compareKeys, generateKeyBetween } from '@/lib/ranking'
+
+describe('generateKeyBetween', () => {
+  it('generates keys at the ends of the list', () => {
+    const first = generateKeyBetween(null, null)
+    const before = generateKeyBetween(null, first)
+    const after = generateKeyBetween(first, null)
+
+    expect(compareKeys(before, first)).toBe(-1)
+    expect(compareKeys(first, after)).toBe(-1)
+  })
+
+  it('keeps generating keys between close neighbours', () => {
+    let low = generateKeyBetween(null, null)
+    const high = generateKeyBetween(low, null)
+
+    for (let i = 0; i < 50; i++) {
+      const mid = generateKeyBetween(low, high)
+      expect(compareKeys(low, mid)).toBe(-1)
+      expect(compareKeys(mid, high)).toBe(-1)
+      expect(mid.endsWith('0')).toBe(false)
+      low = mid
+    }
+  })
+
+  it('works with keys backfilled by the migration', () => {
+    const key = generateKeyBetween('00000001V', '00000002V')
+    expect(compareKeys('00000001V', key)).toBe(-1)
+    expect(compareKeys(key, '00000002V')).toBe(-1)
+  })
+
+  it('rejects invalid ranges', () => {
+    expect(() => generateKeyBetween('b', 'a')).toThrow()
+    expect(() => generateKeyBetween('a', 'a')).toThrow()
+  })
+})
@@ -0,0 +1,100 @@
+import {
+  buildNextOccurrence,
+  describeRRule,
+  formatRRule,
+  getNextDueAt,
+  getNextOccurrence,
+  parseRRule,
+  type RecurrenceRule,
+} from '@/lib/recurrence'
+import type { Todo } from '@/types'
+
+describe('recurrence rules', () => {
+  it('round-trips RRULE strings', () => {
+    const rule = parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=WE,MO;COUNT=5')
+    expect(rule).toEqual({ freq: 'WEEKLY', interval: 2, byDay: ['MO', 'WE'], count: 5 })
+    expect(formatRRule(rule!)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=5')
+  })
+
+  it('rejects invalid rules', () => {
+    expect(parseRRule('FREQ=HOURLY')).toBeNull()
+    expect(parseRRule('FREQ=DAILY;INTERVAL=0')).toBeNull()
+    expect(parseRRule('FREQ=WEEKLY;BYDAY=XX')).toBeNull()
+    expect(parseRRule('FREQ=DAILY;COUNT=3;UNTIL=20250101T000000Z')).toBeNull()
+  })
+
+  it('computes the next weekly occurrence on the selected weekdays', () => {
+    const rule: RecurrenceRule = { freq: 'WEEKLY', interval: 1, byDay: ['MO', 'WE'] }
+    // 2025-06-16 是周一
+    const monday = new Date(2025, 5, 16, 9, 0)
+    expect(getNextOccurrence(rule, monday)).toEqual(new Date(2025, 5, 18, 9, 0))
+    expect(getNextOccurrence(rule, new Date(2025, 5, 18, 9, 0))).toEqual(
+      new Date(2025, 5, 23, 9, 0)
+    )
+  })
+
+  it('skips weeks according to the interval', () => {
+    const rule: RecurrenceRule = { freq: 'WEEKLY', interval: 2, byDay: ['MO', 'WE'] }
+    expect(getNextOccurrence(rule, new Date(2025, 5, 18, 9, 0))).toEqual(
+      new Date(2025, 5, 30, 9, 0)
+    )
+  })
+
+  it('clamps monthly occurrences to the end of shorter months', () => {
+    const rule: RecurrenceRule = { freq: 'MONTHLY', interval: 1 }
+    expect(getNextOccurrence(rule, new Date(2025, 0, 31))).toEqual(new Date(2025, 1, 28))
+  })
+
+  it('returns to the original day after a clamped month', () => {
+    const anchored = parseRRule('FREQ=MONTHLY;BYMONTHDAY=31')!
+    expect(getNextOccurrence(anchored, new Date(2025, 1, 28))).toEqual(new Date(2025, 2, 31))
+    expect(getNextOccurrence(anchored, new Date(2025, 2, 31))).toEqual(new Date(2025, 3, 30))
+    expect(formatRRule(anchored)).toBe('FREQ=MONTHLY;BYMONTHDAY=31')
+
+    // 完成 1 月 31 日的任务，依次生成 2 月 28 日、3 月 31 日、4 月 30 日的任务
+    let todo = {
+      recurrence_rule: 'FREQ=MONTHLY',
+      due_at: new Date(2025, 0, 31, 9, 0).toISOString(),
+      recurrence_index: 1,
+    } as Todo
+    const dueDates: Date[] = []
+    for (let i = 0; i < 3; i++) {
+      const next = buildNextOccurrence(todo, getNextDueAt(todo)!)
+      todo = { ...todo, ...next } as Todo
+      dueDates.push(new Date(todo.due_at!))
+    }
+    expect(dueDates).toEqual([
+      new Date(2025, 1, 28, 9, 0),
+      new Date(2025, 2, 31, 9, 0),
+      new Date(2025, 3, 30, 9, 0),
+    ])
+    expect(todo.recurrence_rule).toBe('FREQ=MONTHLY;BYMONTHDAY=31')
+  })
+
+  it('keeps the anchor day for yearly leap-day series', () => {
+    const rule = parseRRule('FREQ=YEARLY;BYMONTHDAY=29')!
+    expect(getNextOccurrence(rule, new Date(2025, 1, 28))).toEqual(new Date(2026, 1, 28))
+    expect(getNextOccurrence({ ...rule, interval: 3 }, new Date(2025, 1, 28))).toEqual(
+      new Date(2028, 1, 29)
+    )
+  })
+
+  it('stops after COUNT occurrences or past UNTIL', () => {
+    const counted: RecurrenceRule = { freq: 'DAILY', interval: 1, count: 3 }
+    expect(getNextOccurrence(counted, new Date(2025, 0, 1), 2)).not.toBeNull()
+    expect(getNextOccurrence(counted, new Date(2025, 0, 2), 3)).toBeNull()
+
+    const until: RecurrenceRule = {
+      freq: 'DAILY',
+      interval: 1,
+      until: new Date(2025, 0, 2, 23, 59).toISOString(),
+    }
+    expect(getNextOccurrence(until, new Date(2025, 0, 2, 9, 0))).toBeNull()
+  })
+
+  it('describes rules in Chinese', () => {
+    expect(describeRRule({ freq: 'WEEKLY', interval: 1, byDay: ['MO', 'WE'] })).toBe('每周一、三')
+    expect(describeRRule({ freq: 'DAILY', interval: 3, count: 10 })).toBe('每 3 天，共 10 次')
+    expect(describeRRule({ freq: 'YEARLY', interval: 1 })).toBe('每年')
+  })
+})
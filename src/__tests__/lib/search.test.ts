@@ -0,0 +1,22 @@
+import { getHighlightSegments } from '@/lib/search'
+
+describe('getHighlightSegments', () => {
+  it('marks every case-insensitive match of each term', () => {
+    expect(getHighlightSegments('Buy milk and MILKSHAKE', 'milk')).toEqual([
+      { text: 'Buy ', match: false },
+      { text: 'milk', match: true },
+      { text: ' and ', match: false },
+      { text: 'MILK', match: true },
+      { text: 'SHAKE', match: false },
+    ])
+  })
+
+  it('matches Chinese text and treats regex characters literally', () => {
+    expect(getHighlightSegments('整理季度报告(草稿)', '报告 (草稿)')).toEqual([
+      { text: '整理季度', match: false },
+      { text: '报告', match: true },
+      { text: '(草稿)', match: true },
+    ])
+    expect(getHighlightSegments('无关内容', '  ')).toEqual([{ text: '无关内容', match: false }])
+  })
+})
@@ -0,0 +1,89 @@
+import { collectDescendants, getDescendantIds, groupByParent } from '@/lib/subtasks'
+import type { Todo } from '@/types'
+
+function makeTodo(id: string, parentId: string | null = null, completed = false): Todo {
+  return {
+    id,
+    title: id,
+    description: null,
+    completed,
+    created_at: '2025-06-01T00:00:00Z',
+    updated_at: '2025-06-01T00:00:00Z',
+    due_at: null,
+    priority: 'none',
+    parent_id: parentId,
+    list_id: 'list-1',
+    recurrence_rule: null,
+    recurrence_series_id: null,
+    recurrence_index: 1,
+    position: null,
+    deleted_at: null,
+    user_id: 'user-1',
+  }
+}
+
+describe('subtasks', () => {
+  // a
+  // ├── b
+  // │   └── d
+  // └── c
+  // e
+  const todos = [
+    makeTodo('a'),
+    makeTodo('b', 'a'),
+    makeTodo('c', 'a'),
+    makeTodo('d', 'b'),
+    makeTodo('e'),
+  ]
+
+  it('collects all descendants of a todo', () => {
+    expect(getDescendantIds(todos, 'a')).toEqual(['b', 'c', 'd'])
+    expect(getDescendantIds(todos, 'b')).toEqual(['d'])
+    expect(getDescendantIds(todos, 'e')).toEqual([])
+    expect(getDescendantIds(todos, 'missing')).toEqual([])
+  })
+
+  it('finds descendants listed before their parents', () => {
+    expect(getDescendantIds([...todos].reverse(), 'a').sort()).toEqual(['b', 'c', 'd'])
+  })
+
+  it('groups children by parent in list order', () => {
+    const groups = groupByParent(todos)
+
+    expect([...groups.keys()]).toEqual(['a', 'b'])
+    expect(groups.get('a')?.map((todo) => todo.id)).toEqual(['b', 'c'])
+    expect(groups.get('b')?.map((todo) => todo.id)).toEqual(['d'])
+    expect(groups.has('e')).toBe(false)
+  })
+
+  it('finds descendants that are not loaded locally level by level', async () => {
+    // 服务器上 b 已完成，过滤“未完成”时本地只加载了 a 和 c
+    const server = [
+      makeTodo('a'),
+      makeTodo('b', 'a', true),
+      makeTodo('c', 'a'),
+      makeTodo('d', 'b'),
+      makeTodo('e'),
+    ]
+    const loaded = server.filter((todo) => !todo.completed)
+    const fetchChildren = jest.fn(async (parentIds: string[]) =>
+      server.filter((todo) => todo.parent_id && parentIds.includes(todo.parent_id))
+    )
+
+    const descendants = await collectDescendants(['a'], fetchChildren)
+
+    expect(getDescendantIds(loaded, 'a')).toEqual(['c'])
+    expect(descendants.map((todo) => todo.id)).toEqual(['b', 'c', 'd'])
+    expect(fetchChildren.mock.calls).toEqual([[['a']], [['b', 'c']], [['d']]])
+  })
+
+  it('stops when children point back to found todos', async () => {
+    const cyclic = [makeTodo('a', 'b'), makeTodo('b', 'a')]
+
+    const descendants = await collectDescendants(['a'], async (parentIds) =>
+      cyclic.filter((todo) => todo.parent_id && parentIds.includes(todo.parent_id))
+    )
+
+    expect(descendants.map((todo) => todo.id)).toEqual(['b'])
+  })
+})
@@ -0,0 +1,89 @@
+import { runAsLeader } from '@/lib/tab-sync'
+
+// 模拟同一浏览器中所有标签页共享的 Web Locks：同名的锁排队依次授予
+function createLockManager(): LockManager {
+  const queues = new Map<string, (() => void)[]>()
+
+  const request = (
+    name: string,
+    options: LockOptions,
+    callback: LockGrantedCallback<unknown>
+  ): Promise<unknown> =>
+    new Promise((resolve, reject) => {
+      const grant = () => {
+        Promise.resolve(callback({ name, mode: 'exclusive' } as Lock))
+          .then(resolve, reject)
+          .finally(() => {
+            const queue = queues.get(name)!
+            queue.shift()
+            queue[0]?.()
+          })
+      }
+      const queue = queues.get(name) ?? []
+      queues.set(name, queue)
+
+      options.signal?.addEventListener('abort', () => {
+        const index = queue.indexOf(grant)
+        // 只有仍在排队的请求可以取消
+        if (index > 0) {
+          queue.splice(index, 1)
+          reject(new DOMException('Aborted', 'AbortError'))
+        }
+      })
+
+      queue.push(grant)
+      if (queue.length === 1) grant()
+    })
+
+  return { request, query: jest.fn() } as unknown as LockManager
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('tab-sync', () => {
+  it('runs the task in one tab at a time and hands over when the leader stops', async () => {
+    const locks = createLockManager()
+    const events: string[] = []
+    const task = (tab: string) => () => {
+      events.push(`${tab} start`)
+      return () => events.push(`${tab} stop`)
+    }
+
+    const stopA = runAsLeader('todos:u1', task('a'), locks)
+    const stopB = runAsLeader('todos:u1', task('b'), locks)
+    const stopC = runAsLeader('todos:u1', task('c'), locks)
+    await flush()
+    expect(events).toEqual(['a start'])
+
+    // 排队中的标签页关闭后不再接替
+    stopB()
+    stopA()
+    await flush()
+    expect(events).toEqual(['a start', 'a stop', 'c start'])
+
+    stopC()
+    await flush()
+    expect(events).toEqual(['a start', 'a stop', 'c start', 'c stop'])
+  })
+
+  it('keeps different tasks independent', async () => {
+    const locks = createLockManager()
+    const started: string[] = []
+
+    runAsLeader('todos:u1', () => (started.push('u1'), () => {}), locks)
+    runAsLeader('todos:u2', () => (started.push('u2'), () => {}), locks)
+    await flush()
+
+    expect(started).toEqual(['u1', 'u2'])
+  })
+
+  it('runs the task directly when Web Locks are unavailable', () => {
+    const stop = jest.fn()
+    const start = jest.fn(() => stop)
+
+    runAsLeader('todos:u1', start, undefined)()
+
+    expect(start).toHaveBeenCalledTimes(1)
+    expect(stop).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,36 @@
+import { getTaggedTodoIds, matchesTagFilter } from '@/lib/tags'
+
+describe('matchesTagFilter', () => {
+  it('matches todos with any of the selected tags', () => {
+    expect(matchesTagFilter(['work'], ['work', 'home'], 'any')).toBe(true)
+    expect(matchesTagFilter(['home', 'urgent'], ['work', 'home'], 'any')).toBe(true)
+    expect(matchesTagFilter(['urgent'], ['work', 'home'], 'any')).toBe(false)
+    expect(matchesTagFilter([], ['work'], 'any')).toBe(false)
+  })
+
+  it('matches only todos with all of the selected tags', () => {
+    expect(matchesTagFilter(['work', 'home', 'urgent'], ['work', 'home'], 'all')).toBe(true)
+    expect(matchesTagFilter(['work'], ['work', 'home'], 'all')).toBe(false)
+    expect(matchesTagFilter([], ['work'], 'all')).toBe(false)
+  })
+
+  it('does not filter when no tags are selected', () => {
+    expect(matchesTagFilter([], [], 'any')).toBe(true)
+    expect(matchesTagFilter(['work'], [], 'all')).toBe(true)
+  })
+})
+
+describe('getTaggedTodoIds', () => {
+  const rows = [
+    { todo_id: 'a', tag_id: 'work' },
+    { todo_id: 'a', tag_id: 'home' },
+    { todo_id: 'b', tag_id: 'work' },
+    { todo_id: 'c', tag_id: 'home' },
+  ]
+
+  it('finds todos linked to any or all of the selected tags', () => {
+    expect(getTaggedTodoIds(rows, ['work', 'home'], 'any')).toEqual(['a', 'b', 'c'])
+    expect(getTaggedTodoIds(rows, ['work', 'home'], 'all')).toEqual(['a'])
+    expect(getTaggedTodoIds([], ['work'], 'any')).toEqual([])
+  })
+})
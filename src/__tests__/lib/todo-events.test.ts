@@ -0,0 +1,151 @@
+import { createLocalTodo } from '@/lib/outbox'
+import {
+  isRemoteChange,
+  reduceTodoEvent,
+  reduceTodoTagEvent,
+  rollbackTodoUpdate,
+  type TodoEventState,
+} from '@/lib/todo-events'
+import type { Todo } from '@/types'
+
+function makeTodo(overrides: Partial<Todo> & { id: string }): Todo {
+  return {
+    ...createLocalTodo({ id: overrides.id, title: 'Todo', user_id: 'user-1' }, 'list-1'),
+    created_at: '2025-06-01T00:00:00Z',
+    updated_at: '2025-06-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+function makeState(overrides: Partial<TodoEventState> = {}): TodoEventState {
+  return { todos: [], todoTags: {}, trash: [], listId: 'list-1', ...overrides }
+}
+
+describe('reduceTodoEvent', () => {
+  it('does not duplicate a todo whose insert is echoed back', () => {
+    const todo = makeTodo({ id: 'a' })
+    const state = makeState({ todos: [todo] })
+
+    const next = reduceTodoEvent(state, { eventType: 'INSERT', new: todo })
+
+    expect(next?.todos).toEqual([todo])
+  })
+
+  it('ignores updates older than the local version', () => {
+    const todo = makeTodo({ id: 'a', title: 'New', updated_at: '2025-06-02T00:00:00Z' })
+    const stale = makeTodo({ id: 'a', title: 'Old', updated_at: '2025-06-01T00:00:00Z' })
+
+    expect(reduceTodoEvent(makeState({ todos: [todo] }), { eventType: 'UPDATE', new: stale })).toBe(
+      null
+    )
+  })
+
+  it('moves deleted todos to the trash and restored todos back', () => {
+    const todo = makeTodo({ id: 'a' })
+    const deleted = {
+      ...todo,
+      deleted_at: '2025-06-02T00:00:00Z',
+      updated_at: '2025-06-02T00:00:00Z',
+    }
+
+    const trashed = reduceTodoEvent(makeState({ todos: [todo] }), {
+      eventType: 'UPDATE',
+      new: deleted,
+    })
+    expect(trashed?.todos).toEqual([])
+    expect(trashed?.trash).toEqual([deleted])
+
+    const restored = { ...deleted, deleted_at: null, updated_at: '2025-06-03T00:00:00Z' }
+    const next = reduceTodoEvent(makeState({ ...trashed! }), {
+      eventType: 'UPDATE',
+      new: restored,
+    })
+    expect(next?.todos).toEqual([restored])
+    expect(next?.trash).toEqual([])
+  })
+
+  it('removes todos moved to another list together with their subtasks', () => {
+    const parent = makeTodo({ id: 'a' })
+    const child = makeTodo({ id: 'b', parent_id: 'a' })
+    const moved = { ...parent, list_id: 'list-2', updated_at: '2025-06-02T00:00:00Z' }
+
+    const next = reduceTodoEvent(makeState({ todos: [parent, child] }), {
+      eventType: 'UPDATE',
+      new: moved,
+    })
+
+    expect(next?.todos).toEqual([])
+  })
+
+  it('removes deleted todos with their descendants', () => {
+    const parent = makeTodo({ id: 'a' })
+    const child = makeTodo({ id: 'b', parent_id: 'a' })
+
+    const next = reduceTodoEvent(makeState({ todos: [parent, child], todoTags: { b: ['t'] } }), {
+      eventType: 'DELETE',
+      old: { id: 'a' },
+    })
+
+    expect(next?.todos).toEqual([])
+    expect(next?.todoTags).toEqual({})
+  })
+
+  it('ignores events for todos that are not in local state', () => {
+    const state = makeState({ todos: [makeTodo({ id: 'a' })], trash: [makeTodo({ id: 't' })] })
+
+    // 其他用户永久删除的任务
+    expect(reduceTodoEvent(state, { eventType: 'DELETE', old: { id: 'x' } })).toBeNull()
+    // 其他清单中的任务
+    expect(
+      reduceTodoEvent(state, { eventType: 'INSERT', new: makeTodo({ id: 'b', list_id: 'list-2' }) })
+    ).toBeNull()
+
+    expect(reduceTodoEvent(state, { eventType: 'DELETE', old: { id: 't' } })?.trash).toEqual([])
+  })
+})
+
+describe('isRemoteChange', () => {
+  it('treats only newer versions of known todos as changes made elsewhere', () => {
+    const todo = makeTodo({ id: 'a' })
+    const state = makeState({ todos: [todo] })
+
+    expect(isRemoteChange(state, todo)).toBe(false)
+    expect(isRemoteChange(state, { ...todo, updated_at: '2025-06-02T00:00:00Z' })).toBe(true)
+    expect(isRemoteChange(state, makeTodo({ id: 'b', updated_at: '2025-06-02T00:00:00Z' }))).toBe(
+      false
+    )
+  })
+})
+
+describe('reduceTodoTagEvent', () => {
+  it('ignores duplicate tag links', () => {
+    const todoTags = { a: ['t'] }
+    const row = { todo_id: 'a', tag_id: 't', user_id: 'user-1', created_at: '' }
+
+    expect(reduceTodoTagEvent(todoTags, { eventType: 'INSERT', new: row })).toBeNull()
+    expect(reduceTodoTagEvent(todoTags, { eventType: 'DELETE', old: row })).toEqual({ a: [] })
+  })
+})
+
+describe('rollbackTodoUpdate', () => {
+  it('restores only the fields changed by the failed update', () => {
+    const previous = makeTodo({ id: 'a', title: 'Old', priority: 'low' })
+    // 修改标题的请求失败前，优先级又被另一次修改改成了 high
+    const todos = [{ ...previous, title: 'New', priority: 'high' as const }, makeTodo({ id: 'b' })]
+
+    const next = rollbackTodoUpdate(todos, [previous], 'a', { title: 'New' })
+
+    expect(next[0]).toEqual({ ...previous, priority: 'high' })
+    expect(next[1]).toBe(todos[1])
+  })
+
+  it('restores the snapshot when the todo has left the list', () => {
+    const parent = makeTodo({ id: 'a' })
+    const child = makeTodo({ id: 'c', parent_id: 'a' })
+    const other = makeTodo({ id: 'b' })
+
+    const next = rollbackTodoUpdate([other], [parent, child], 'a', { list_id: 'list-2' })
+
+    expect(next).toEqual([parent, child, other])
+  })
+})
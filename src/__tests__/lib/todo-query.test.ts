@@ -0,0 +1,89 @@
+import { createLocalTodo } from '@/lib/outbox'
+import {
+  buildCursorFilter,
+  compareTitles,
+  countTodos,
+  getFilterConditions,
+  getSortKeys,
+} from '@/lib/todo-query'
+import type { Todo } from '@/types'
+
+function makeTodo(overrides: Partial<Todo> & { id: string }): Todo {
+  return {
+    ...createLocalTodo({ id: overrides.id, title: 'Todo', user_id: 'user-1' }, 'list-1'),
+    created_at: '2025-06-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+describe('todo-query', () => {
+  const now = new Date(2025, 5, 11, 15, 30)
+
+  it('applies status and priority filters on the server', () => {
+    expect(getFilterConditions('completed', 'high', now)).toEqual([
+      ['priority', 'eq', 'high'],
+      ['completed', 'eq', true],
+    ])
+    expect(getFilterConditions('due_today', 'all', now)).toEqual([
+      ['completed', 'eq', false],
+      ['due_at', 'gte', new Date(2025, 5, 11).toISOString()],
+      ['due_at', 'lt', new Date(2025, 5, 12).toISOString()],
+    ])
+    expect(getFilterConditions('all')).toEqual([])
+  })
+
+  it('pages after the cursor with ties broken by id', () => {
+    const cursor = makeTodo({ id: 'b', due_at: '2025-06-02T00:00:00Z', priority: 'high' })
+
+    expect(buildCursorFilter(getSortKeys('due_at', 'asc'), cursor)).toBe(
+      'or(due_at.gt."2025-06-02T00:00:00Z",due_at.is.null),' +
+        'and(due_at.eq."2025-06-02T00:00:00Z",priority.lt."high"),' +
+        'and(due_at.eq."2025-06-02T00:00:00Z",priority.eq."high",id.gt."b")'
+    )
+  })
+
+  it('only continues within the null group once the cursor has no value', () => {
+    const cursor = makeTodo({ id: 'b', position: null })
+
+    expect(buildCursorFilter(getSortKeys('manual', 'asc'), cursor)).toBe(
+      'and(position.is.null,created_at.lt."2025-06-01T00:00:00Z"),' +
+        'and(position.is.null,created_at.eq."2025-06-01T00:00:00Z",id.gt."b")'
+    )
+  })
+
+  it('quotes values that would break the filter syntax', () => {
+    const cursor = makeTodo({ id: 'b', title: 'a,b) "c"' })
+
+    expect(buildCursorFilter(getSortKeys('title', 'desc'), cursor)).toContain(
+      'title_sort.lt."a,b) \\"c\\""'
+    )
+  })
+
+  it('sorts titles by lowercase code points like the title_sort column', () => {
+    const cursor = makeTodo({ id: 'b', title: 'Write Report' })
+
+    expect(getSortKeys('title', 'asc')[0]).toEqual({ column: 'title_sort', ascending: true })
+    expect(buildCursorFilter(getSortKeys('title', 'asc'), cursor)).toMatch(
+      /^title_sort\.gt\."write report",/
+    )
+    // 大小写不敏感；全角括号（U+FF08）排在表情（U+1F600）之前，与 UTF-8 字节序一致
+    expect(['😀', '（', 'b', 'Á', 'A'].sort(compareTitles)).toEqual(['A', 'b', 'Á', '（', '😀'])
+  })
+
+  it('counts loaded todos when the server counts are unavailable', () => {
+    const todos = [
+      makeTodo({ id: 'a', due_at: new Date(2025, 5, 11, 10).toISOString() }),
+      makeTodo({ id: 'b', due_at: new Date(2025, 5, 13).toISOString() }),
+      makeTodo({ id: 'c', completed: true }),
+    ]
+
+    expect(countTodos(todos, now)).toEqual({
+      all: 3,
+      active: 2,
+      completed: 1,
+      overdue: 1,
+      due_today: 1,
+      due_this_week: 2,
+    })
+  })
+})
@@ -0,0 +1,24 @@
+import { getDaysUntilPurge, getPurgeCutoff, parseRetentionDays } from '@/lib/trash'
+
+describe('trash retention', () => {
+  const now = new Date('2025-06-30T12:00:00Z')
+
+  it('parses the configured retention days', () => {
+    expect(parseRetentionDays(undefined)).toBe(30)
+    expect(parseRetentionDays('7')).toBe(7)
+    expect(parseRetentionDays('0')).toBe(0)
+    expect(parseRetentionDays('abc')).toBe(30)
+    expect(parseRetentionDays('-1')).toBe(30)
+  })
+
+  it('computes the purge cutoff', () => {
+    expect(getPurgeCutoff(7, now)).toEqual(new Date('2025-06-23T12:00:00Z'))
+    expect(getPurgeCutoff(0, now)).toBeNull()
+  })
+
+  it('computes the days left before a deleted todo is purged', () => {
+    expect(getDaysUntilPurge('2025-06-29T12:00:00Z', 7, now)).toBe(6)
+    expect(getDaysUntilPurge('2025-06-01T00:00:00Z', 7, now)).toBe(0)
+    expect(getDaysUntilPurge('2025-06-29T12:00:00Z', 0, now)).toBeNull()
+  })
+})
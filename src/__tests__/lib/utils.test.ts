@@ -0,0 +1,30 @@
+import { isDueThisWeek, isDueToday, isOverdue, toDateTimeLocalValue } from '@/lib/utils'
+
+describe('due date helpers', () => {
+  // 2025-06-18 是周三
+  const now = new Date(2025, 5, 18, 12, 0)
+
+  it('detects overdue dates', () => {
+    expect(isOverdue(new Date(2025, 5, 18, 11, 59).toISOString(), now)).toBe(true)
+    expect(isOverdue(new Date(2025, 5, 18, 12, 1).toISOString(), now)).toBe(false)
+    expect(isOverdue(null, now)).toBe(false)
+  })
+
+  it('detects dates due today', () => {
+    expect(isDueToday(new Date(2025, 5, 18, 0, 0).toISOString(), now)).toBe(true)
+    expect(isDueToday(new Date(2025, 5, 18, 23, 59).toISOString(), now)).toBe(true)
+    expect(isDueToday(new Date(2025, 5, 19, 0, 0).toISOString(), now)).toBe(false)
+    expect(isDueToday(null, now)).toBe(false)
+  })
+
+  it('treats Monday to Sunday as this week', () => {
+    expect(isDueThisWeek(new Date(2025, 5, 16, 0, 0).toISOString(), now)).toBe(true)
+    expect(isDueThisWeek(new Date(2025, 5, 22, 23, 59).toISOString(), now)).toBe(true)
+    expect(isDueThisWeek(new Date(2025, 5, 15, 23, 59).toISOString(), now)).toBe(false)
+    expect(isDueThisWeek(new Date(2025, 5, 23, 0, 0).toISOString(), now)).toBe(false)
+  })
+
+  it('formats values for datetime-local inputs', () => {
+    expect(toDateTimeLocalValue(new Date(2025, 0, 5, 9, 7))).toBe('2025-01-05T09:07')
+  })
+})
@@ -0,0 +1,140 @@
+import { ATTACHMENT_MAX_COUNT, ATTACHMENT_MAX_SIZE } from '@/lib/attachments'
+import {
+  apiTodoCreateSchema,
+  apiTodoQuerySchema,
+  apiTodoUpdateSchema,
+  attachmentFileSchema,
+  todoSchema,
+} from '@/lib/validations'
+
+const TAG_A = '11111111-1111-4111-8111-111111111111'
+const TAG_B = '22222222-2222-4222-8222-222222222222'
+
+// 只声明文件大小，不实际分配内容
+function makeFile(name: string, type: string, size = 1024): File {
+  const file = new File(['x'], name, { type })
+  Object.defineProperty(file, 'size', { value: size })
+  return file
+}
+
+function getMessages(result: { success: boolean; error?: { issues: { message: string }[] } }) {
+  return result.error?.issues.map((issue) => issue.message) ?? []
+}
+
+describe('validations', () => {
+  describe('apiTodoQuerySchema', () => {
+    it('applies defaults matching the todo list', () => {
+      expect(apiTodoQuerySchema.parse({})).toEqual({
+        filter: 'all',
+        sort: 'created_at',
+        order: 'desc',
+        priority: 'all',
+        tag_match: 'any',
+        limit: 50,
+      })
+    })
+
+    it('parses comma separated tag ids and numeric limits', () => {
+      const query = apiTodoQuerySchema.parse({
+        filter: 'overdue',
+        priority: 'high',
+        tag_ids: `${TAG_A},${TAG_B}`,
+        tag_match: 'all',
+        q: '  部署 ',
+        limit: '20',
+      })
+
+      expect(query).toMatchObject({
+        filter: 'overdue',
+        priority: 'high',
+        tag_ids: [TAG_A, TAG_B],
+        tag_match: 'all',
+        q: '部署',
+        limit: 20,
+      })
+    })
+
+    it('rejects unknown values', () => {
+      expect(apiTodoQuerySchema.safeParse({ sort: 'bogus' }).success).toBe(false)
+      expect(apiTodoQuerySchema.safeParse({ limit: '500' }).success).toBe(false)
+      expect(apiTodoQuerySchema.safeParse({ tag_ids: 'not-a-uuid' }).success).toBe(false)
+    })
+  })
+
+  describe('apiTodoCreateSchema', () => {
+    it('requires a title and rejects unknown fields', () => {
+      expect(apiTodoCreateSchema.safeParse({ title: '  ' }).success).toBe(false)
+      expect(apiTodoCreateSchema.safeParse({ title: '写周报', user_id: TAG_A }).success).toBe(false)
+      expect(apiTodoCreateSchema.parse({ title: '写周报', description: '' })).toEqual({
+        title: '写周报',
+      })
+    })
+
+    it('requires a due date for recurring todos', () => {
+      expect(
+        apiTodoCreateSchema.safeParse({ title: '周会', recurrence_rule: 'FREQ=WEEKLY' }).success
+      ).toBe(false)
+    })
+  })
+
+  describe('apiTodoUpdateSchema', () => {
+    it('accepts partial updates and null to clear optional fields', () => {
+      expect(apiTodoUpdateSchema.parse({ completed: true })).toEqual({ completed: true })
+      expect(apiTodoUpdateSchema.parse({ due_at: null, recurrence_rule: null })).toEqual({
+        due_at: null,
+        recurrence_rule: null,
+      })
+    })
+
+    it('rejects empty updates and recurrence without a due date', () => {
+      expect(apiTodoUpdateSchema.safeParse({}).success).toBe(false)
+      expect(
+        apiTodoUpdateSchema.safeParse({ recurrence_rule: 'FREQ=DAILY', due_at: null }).success
+      ).toBe(false)
+    })
+  })
+
+  describe('attachmentFileSchema', () => {
+    it('accepts supported files up to the size limit', () => {
+      expect(attachmentFileSchema.safeParse(makeFile('photo.png', 'image/png')).success).toBe(true)
+      expect(
+        attachmentFileSchema.safeParse(
+          makeFile('report.pdf', 'application/pdf', ATTACHMENT_MAX_SIZE)
+        ).success
+      ).toBe(true)
+    })
+
+    it('rejects empty, oversized and unsupported files', () => {
+      expect(
+        getMessages(attachmentFileSchema.safeParse(makeFile('empty.png', 'image/png', 0)))
+      ).toEqual(['不能上传空文件'])
+      expect(
+        getMessages(
+          attachmentFileSchema.safeParse(makeFile('big.png', 'image/png', ATTACHMENT_MAX_SIZE + 1))
+        )
+      ).toEqual(['文件大小不能超过 10.0 MB'])
+      expect(
+        getMessages(
+          attachmentFileSchema.safeParse(makeFile('setup.exe', 'application/x-msdownload'))
+        )
+      ).toEqual(['不支持的文件类型'])
+      expect(getMessages(attachmentFileSchema.safeParse('photo.png'))).toEqual(['请选择有效的文件'])
+    })
+  })
+
+  describe('todoSchema', () => {
+    const base = { title: '写周报', priority: 'none', tag_ids: [] }
+
+    it('limits the number of attachments per todo', () => {
+      const files = (count: number) =>
+        Array.from({ length: count }, (_, i) => makeFile(`file-${i}.png`, 'image/png'))
+
+      expect(
+        todoSchema.safeParse({ ...base, attachments: files(ATTACHMENT_MAX_COUNT) }).success
+      ).toBe(true)
+      expect(
+        getMessages(todoSchema.safeParse({ ...base, attachments: files(ATTACHMENT_MAX_COUNT + 1) }))
+      ).toEqual([`每个任务最多添加 ${ATTACHMENT_MAX_COUNT} 个附件`])
+    })
+  })
+})
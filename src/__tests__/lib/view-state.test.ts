@@ -0,0 +1,37 @@
+import {
+  DEFAULT_VIEW,
+  buildViewSearch,
+  loadSavedView,
+  parseViewParams,
+  saveView,
+} from '@/lib/view-state'
+
+describe('view-state', () => {
+  it('reads valid view params and ignores invalid ones', () => {
+    expect(parseViewParams(new URLSearchParams('filter=completed&sort=title&q=deploy'))).toEqual({
+      filter: 'completed',
+      sort: 'title',
+      search: 'deploy',
+    })
+    expect(parseViewParams(new URLSearchParams('filter=bogus&order=asc'))).toEqual({
+      order: 'asc',
+    })
+    expect(parseViewParams(new URLSearchParams('other=1'))).toBeNull()
+  })
+
+  it('writes only non-default fields and keeps unrelated params', () => {
+    const view = { ...DEFAULT_VIEW, filter: 'completed' as const, search: '部署 deploy' }
+
+    expect(buildViewSearch('?other=1&sort=title', view)).toBe(
+      '?other=1&filter=completed&q=%E9%83%A8%E7%BD%B2+deploy'
+    )
+    expect(buildViewSearch('?filter=active', DEFAULT_VIEW)).toBe('')
+  })
+
+  it('remembers the last view per user without the search term', () => {
+    saveView('user-1', { filter: 'active', sort: 'due_at', order: 'asc', search: 'deploy' })
+
+    expect(loadSavedView('user-1')).toEqual({ filter: 'active', sort: 'due_at', order: 'asc' })
+    expect(loadSavedView('user-2')).toBeNull()
+  })
+})
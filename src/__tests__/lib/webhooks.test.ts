@@ -0,0 +1,118 @@
+import { createHmac, webcrypto } from 'crypto'
+import { TextEncoder } from 'util'
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  generateWebhookSecret,
+  getRetryDelay,
+  isPrivateAddress,
+  isSuccessfulResponse,
+  signWebhookPayload,
+  truncateResponseBody,
+} from '@/lib/webhooks'
+import { PrivateAddressError, resolveWebhookAddress } from '@/lib/webhook-request'
+
+// jsdom 没有提供 Web Crypto 的 subtle 和 TextEncoder，使用 Node 的实现
+Object.assign(globalThis, { TextEncoder })
+Object.defineProperty(globalThis.crypto, 'subtle', { value: webcrypto.subtle })
+
+describe('webhooks', () => {
+  it('signs the timestamp and body with HMAC-SHA256', async () => {
+    const secret = 'whsec_0123456789abcdef'
+    const body = JSON.stringify({ event: 'todo.created', data: { title: '写周报' } })
+    const expected = createHmac('sha256', secret).update(`1700000000.${body}`).digest('hex')
+
+    await expect(signWebhookPayload(secret, 1700000000, body)).resolves.toBe(`sha256=${expected}`)
+    await expect(signWebhookPayload(secret, 1700000001, body)).resolves.not.toBe(
+      `sha256=${expected}`
+    )
+  })
+
+  it('backs off exponentially until the attempt limit', () => {
+    expect(getRetryDelay(1)).toBe(30 * 1000)
+    expect(getRetryDelay(2)).toBe(60 * 1000)
+    expect(getRetryDelay(3)).toBe(120 * 1000)
+    expect(getRetryDelay(WEBHOOK_MAX_ATTEMPTS - 1)).toBe(
+      30 * 1000 * 2 ** (WEBHOOK_MAX_ATTEMPTS - 2)
+    )
+    expect(getRetryDelay(WEBHOOK_MAX_ATTEMPTS)).toBeNull()
+  })
+
+  it('treats only 2xx responses as delivered', () => {
+    expect(isSuccessfulResponse(200)).toBe(true)
+    expect(isSuccessfulResponse(204)).toBe(true)
+    expect(isSuccessfulResponse(302)).toBe(false)
+    expect(isSuccessfulResponse(500)).toBe(false)
+  })
+
+  it('detects local and private network addresses', () => {
+    expect(isPrivateAddress('127.0.0.1')).toBe(true)
+    expect(isPrivateAddress('0.0.0.0')).toBe(true)
+    expect(isPrivateAddress('10.1.2.3')).toBe(true)
+    expect(isPrivateAddress('100.64.0.1')).toBe(true)
+    expect(isPrivateAddress('100.127.255.255')).toBe(true)
+    expect(isPrivateAddress('172.20.0.1')).toBe(true)
+    expect(isPrivateAddress('192.168.1.10')).toBe(true)
+    expect(isPrivateAddress('169.254.169.254')).toBe(true)
+    expect(isPrivateAddress('::1')).toBe(true)
+    expect(isPrivateAddress('::')).toBe(true)
+    expect(isPrivateAddress('[::]')).toBe(true)
+    expect(isPrivateAddress('::ffff:127.0.0.1')).toBe(true)
+    expect(isPrivateAddress('::ffff:7f00:1')).toBe(true)
+    expect(isPrivateAddress('0:0:0:0:0:ffff:a9fe:a9fe')).toBe(true)
+    expect(isPrivateAddress('64:ff9b::10.0.0.1')).toBe(true)
+    expect(isPrivateAddress('fd12:3456::1')).toBe(true)
+    expect(isPrivateAddress('fe80::1%eth0')).toBe(true)
+    expect(isPrivateAddress('not an address')).toBe(true)
+
+    expect(isPrivateAddress('8.8.8.8')).toBe(false)
+    expect(isPrivateAddress('100.128.0.1')).toBe(false)
+    expect(isPrivateAddress('172.32.0.1')).toBe(false)
+    expect(isPrivateAddress('::ffff:8.8.8.8')).toBe(false)
+    expect(isPrivateAddress('2606:4700::1111')).toBe(false)
+  })
+
+  it('checks every resolved address before connecting', async () => {
+    const resolveTo =
+      (...addresses: string[]) =>
+      async () =>
+        addresses.map((address) => ({ address, family: address.includes(':') ? 6 : 4 }))
+
+    // 通配 DNS 把域名解析到本机地址
+    await expect(
+      resolveWebhookAddress('127.0.0.1.nip.io', false, resolveTo('127.0.0.1'))
+    ).rejects.toBeInstanceOf(PrivateAddressError)
+    // 任一地址属于内网即拒绝
+    await expect(
+      resolveWebhookAddress('example.com', false, resolveTo('93.184.215.14', '10.0.0.5'))
+    ).rejects.toBeInstanceOf(PrivateAddressError)
+    await expect(
+      resolveWebhookAddress('example.com', false, resolveTo('93.184.215.14'))
+    ).resolves.toEqual({ address: '93.184.215.14', family: 4 })
+    await expect(
+      resolveWebhookAddress('127.0.0.1.nip.io', true, resolveTo('127.0.0.1'))
+    ).resolves.toEqual({ address: '127.0.0.1', family: 4 })
+  })
+
+  it('rejects IP literals that point at the local machine', async () => {
+    for (const url of ['http://[::ffff:127.0.0.1]:8080/', 'http://[::]/', 'http://2130706433/']) {
+      await expect(resolveWebhookAddress(new URL(url).hostname)).rejects.toBeInstanceOf(
+        PrivateAddressError
+      )
+    }
+  })
+
+  it('truncates long response bodies', () => {
+    expect(truncateResponseBody('ok')).toBe('ok')
+
+    const truncated = truncateResponseBody('x'.repeat(5000))
+    expect(truncated).toHaveLength(1001)
+    expect(truncated.endsWith('…')).toBe(true)
+  })
+
+  it('generates random signing secrets', () => {
+    const secret = generateWebhookSecret()
+
+    expect(secret).toMatch(/^whsec_[0-9a-f]{64}$/)
+    expect(secret).not.toBe(generateWebhookSecret())
+  })
+})
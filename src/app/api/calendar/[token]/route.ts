@@ -0,0 +1,51 @@
+import { type NextRequest } from 'next/server'
+import { ApiError, handleApiError } from '@/lib/api'
+import { CALENDAR_FEED_EXTENSION } from '@/lib/calendar-feed'
+import { buildCalendar, type CalendarTodo } from '@/lib/icalendar'
+import { createClientForCalendarFeed } from '@/lib/supabase/server'
+
+interface RouteContext {
+  params: Promise<{ token: string }>
+}
+
+// 日历应用每次拉取整个文件，只输出最近修改的任务
+const FEED_TODO_LIMIT = 1000
+
+// GET /api/calendar/:token.ics：订阅者的任务日历，无需登录，凭地址中的密钥访问
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const { token } = await params
+    const feed = await createClientForCalendarFeed(
+      token.endsWith(CALENDAR_FEED_EXTENSION)
+        ? token.slice(0, -CALENDAR_FEED_EXTENSION.length)
+        : token
+    )
+    if (!feed) {
+      throw new ApiError(404, '日历订阅不存在或链接已重新生成')
+    }
+
+    const { data, error } = await feed.client
+      .from('todos')
+      .select(
+        'id, title, description, completed, priority, due_at, parent_id, created_at, updated_at'
+      )
+      .is('deleted_at', null)
+      .order('updated_at', { ascending: false })
+      .limit(FEED_TODO_LIMIT)
+
+    if (error) {
+      throw error
+    }
+
+    const todos: CalendarTodo[] = data || []
+    return new Response(buildCalendar(todos, { includeEvents: feed.includeEvents }), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="todolist.ics"',
+        'Cache-Control': 'private, no-cache',
+      },
+    })
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,48 @@
+import { type NextRequest } from 'next/server'
+import { apiSuccess, authenticate, handleApiError, parseBody, parseRouteId } from '@/lib/api'
+import { deleteTodo, getTodo, updateTodo } from '@/lib/todo-api'
+import { apiTodoUpdateSchema } from '@/lib/validations'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+function getTodoId({ params }: RouteContext): Promise<string> {
+  return parseRouteId(params, '任务不存在')
+}
+
+// GET /api/v1/todos/:id：获取任务
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { supabase } = await authenticate(request, 'read')
+
+    return apiSuccess(await getTodo(supabase, await getTodoId(context)))
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// PATCH /api/v1/todos/:id：修改任务的部分字段
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { supabase } = await authenticate(request, 'write')
+    const id = await getTodoId(context)
+    const data = await parseBody(request, apiTodoUpdateSchema)
+
+    return apiSuccess(await updateTodo(supabase, id, data), 200, '任务已更新')
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// DELETE /api/v1/todos/:id：将任务连同子任务移到回收站
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { supabase } = await authenticate(request, 'write')
+    const ids = await deleteTodo(supabase, await getTodoId(context))
+
+    return apiSuccess({ ids }, 200, '任务已移到回收站')
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,28 @@
+import { type NextRequest } from 'next/server'
+import { apiSuccess, authenticate, handleApiError, parseBody, parseQuery } from '@/lib/api'
+import { createTodo, listTodos } from '@/lib/todo-api'
+import { apiTodoCreateSchema, apiTodoQuerySchema } from '@/lib/validations'
+
+// GET /api/v1/todos：按过滤、排序和搜索条件分页查询任务
+export async function GET(request: NextRequest) {
+  try {
+    const { supabase } = await authenticate(request, 'read')
+    const query = parseQuery(request.nextUrl.searchParams, apiTodoQuerySchema)
+
+    return apiSuccess(await listTodos(supabase, query))
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/v1/todos：创建任务
+export async function POST(request: NextRequest) {
+  try {
+    const { supabase, userId } = await authenticate(request, 'write')
+    const data = await parseBody(request, apiTodoCreateSchema)
+
+    return apiSuccess(await createTodo(supabase, userId, data), 201, '任务已创建')
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,46 @@
+import { type NextRequest } from 'next/server'
+import { ApiError, apiSuccess, authenticate, handleApiError, parseRouteId } from '@/lib/api'
+import { redeliver } from '@/lib/webhook-dispatcher'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/v1/webhook-deliveries/:id/redeliver：以相同的内容重新投递，返回新的投递记录
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { supabase } = await authenticate(request, 'write')
+    const id = await parseRouteId(params, '投递记录不存在')
+
+    // 以请求者身份读取，行级安全策略保证只能重新投递自己的记录
+    const { data: delivery, error } = await supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+    if (!delivery) {
+      throw new ApiError(404, '投递记录不存在')
+    }
+
+    const { data: webhook, error: webhookError } = await supabase
+      .from('webhooks')
+      .select('*')
+      .eq('id', delivery.webhook_id)
+      .maybeSingle()
+
+    if (webhookError) {
+      throw webhookError
+    }
+    if (!webhook) {
+      throw new ApiError(404, 'Webhook 不存在')
+    }
+
+    return apiSuccess(await redeliver(webhook, delivery), 201, '已重新投递')
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,33 @@
+import { type NextRequest } from 'next/server'
+import { ApiError, apiSuccess, authenticate, handleApiError, parseRouteId } from '@/lib/api'
+import { sendTestDelivery } from '@/lib/webhook-dispatcher'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// POST /api/v1/webhooks/:id/test：立即向 Webhook 地址发送一次测试请求，返回投递记录
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { supabase } = await authenticate(request, 'write')
+    const id = await parseRouteId(params, 'Webhook 不存在')
+
+    // 以请求者身份读取，行级安全策略保证只能测试自己的 Webhook
+    const { data: webhook, error } = await supabase
+      .from('webhooks')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+    if (!webhook) {
+      throw new ApiError(404, 'Webhook 不存在')
+    }
+
+    return apiSuccess(await sendTestDelivery(webhook), 201, '测试请求已发送')
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,16 @@
+'use client'
+
+import { useParams } from 'next/navigation'
+import { TodoWorkspace } from '@/components/todo/todo-workspace'
+import { ViewStateSync } from '@/components/todo/view-state-sync'
+
+export default function ListPage() {
+  const { id } = useParams<{ id: string }>()
+
+  return (
+    <>
+      <ViewStateSync />
+      <TodoWorkspace listId={id} />
+    </>
+  )
+}
@@ -0,0 +1,29 @@
+'use client'
+
+import Link from 'next/link'
+import { ProtectedRoute } from '@/components/auth/protected-route'
+import { Header } from '@/components/layout/header'
+import { BackupManager } from '@/components/backup/backup-manager'
+import { ArrowLeft } from 'lucide-react'
+
+export default function DataSettingsPage() {
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-2xl mx-auto p-4 sm:p-6 lg:p-8">
+          <Header />
+
+          <Link
+            href="/"
+            className="mb-4 inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            返回任务列表
+          </Link>
+
+          <BackupManager />
+        </div>
+      </div>
+    </ProtectedRoute>
+  )
+}
@@ -0,0 +1,51 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useAuthStore } from '@/store/auth'
+import { useAccessTokenStore } from '@/store/access-tokens'
+import { ProtectedRoute } from '@/components/auth/protected-route'
+import { Header } from '@/components/layout/header'
+import { AccessTokenManager } from '@/components/token/access-token-manager'
+import { getErrorMessage } from '@/lib/utils'
+import { ArrowLeft } from 'lucide-react'
+
+export default function AccessTokenSettingsPage() {
+  const { user } = useAuthStore()
+  const { fetchTokens } = useAccessTokenStore()
+  const [error, setError] = useState<string>('')
+
+  useEffect(() => {
+    if (user) {
+      fetchTokens().catch((err) => {
+        setError(getErrorMessage(err))
+      })
+    }
+  }, [user, fetchTokens])
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-2xl mx-auto p-4 sm:p-6 lg:p-8">
+          <Header />
+
+          <Link
+            href="/"
+            className="mb-4 inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            返回任务列表
+          </Link>
+
+          {error && (
+            <div className="mb-6 p-4 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <AccessTokenManager />
+        </div>
+      </div>
+    </ProtectedRoute>
+  )
+}
@@ -0,0 +1,316 @@
+'use client'
+
+import { useMemo, useRef, useState, type ChangeEvent } from 'react'
+import { useAuthStore } from '@/store/auth'
+import { useBackupStore, type ImportResult } from '@/store/backup'
+import { useListStore } from '@/store/lists'
+import { useTagStore } from '@/store/tags'
+import {
+  IMPORT_MODES,
+  IMPORT_MODE_LABELS,
+  backupToCsv,
+  getBackupFileName,
+  importErrorsToCsv,
+  parseBackupFile,
+  planImport,
+  type ImportContext,
+  type ImportMode,
+  type ImportRowError,
+  type RawImportRow,
+} from '@/lib/backup'
+import { formatDate, getErrorMessage } from '@/lib/utils'
+import { useToastActions } from '@/components/ui/toast'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Download, FileUp, Upload } from 'lucide-react'
+
+// 预览中显示的任务数
+const PREVIEW_LIMIT = 10
+
+function downloadFile(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+interface ErrorReportProps {
+  errors: ImportRowError[]
+}
+
+// 逐行的错误报告，可以下载为 CSV
+function ErrorReport({ errors }: ErrorReportProps) {
+  if (errors.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-red-700">{errors.length} 行无法导入</h4>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() =>
+            downloadFile(importErrorsToCsv(errors), 'import-errors.csv', 'text/csv;charset=utf-8')
+          }
+          className="gap-1"
+        >
+          <Download className="h-4 w-4" />
+          下载错误报告
+        </Button>
+      </div>
+      <ul className="max-h-48 overflow-y-auto rounded-md border border-red-200 bg-red-50 text-xs">
+        {errors.map((error, index) => (
+          <li key={`${error.line}-${index}`} className="flex gap-2 px-3 py-1.5">
+            <span className="shrink-0 text-gray-500">第 {error.line} 行</span>
+            <span className="min-w-0 truncate text-gray-900">{error.title || '（无标题）'}</span>
+            <span className="ml-auto shrink-0 text-red-600">{error.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+function ExportCard() {
+  const { exportBackup } = useBackupStore()
+  const toast = useToastActions()
+  const [exporting, setExporting] = useState(false)
+
+  const handleExport = async (format: 'json' | 'csv') => {
+    setExporting(true)
+    try {
+      const backup = await exportBackup()
+      if (format === 'json') {
+        downloadFile(JSON.stringify(backup, null, 2), getBackupFileName('json'), 'application/json')
+      } else {
+        downloadFile(backupToCsv(backup), getBackupFileName('csv'), 'text/csv;charset=utf-8')
+      }
+      toast.success('导出成功', `共导出 ${backup.todos.length} 个任务`)
+    } catch (err) {
+      toast.error('导出失败', getErrorMessage(err))
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Download className="h-5 w-5" />
+          导出
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          JSON 备份包含任务、子任务、清单、标签和重复规则，可以完整导入到其他账号；CSV
+          便于在表格软件中查看。回收站中的任务和附件不会导出。
+        </p>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        <Button onClick={() => handleExport('json')} disabled={exporting}>
+          导出 JSON
+        </Button>
+        <Button variant="outline" onClick={() => handleExport('csv')} disabled={exporting}>
+          导出 CSV
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
+
+function ImportCard() {
+  const { user } = useAuthStore()
+  const { progress, fetchImportContext, importBackup } = useBackupStore()
+  const { fetchLists } = useListStore()
+  const { fetchTags } = useTagStore()
+  const toast = useToastActions()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [mode, setMode] = useState<ImportMode>('merge')
+  const [file, setFile] = useState<{
+    name: string
+    rows: RawImportRow[]
+    context: ImportContext
+  } | null>(null)
+  const [reading, setReading] = useState(false)
+  const [result, setResult] = useState<ImportResult | null>(null)
+
+  // 切换导入方式时重新计算预览
+  const plan = useMemo(
+    () => (file ? planImport(file.rows, file.context, mode) : null),
+    [file, mode]
+  )
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0]
+    event.target.value = ''
+    if (!selected) return
+
+    setReading(true)
+    setResult(null)
+    try {
+      const rows = parseBackupFile(selected.name, await selected.text())
+      setFile({ name: selected.name, rows, context: await fetchImportContext() })
+    } catch (err) {
+      setFile(null)
+      toast.error('无法读取文件', getErrorMessage(err))
+    } finally {
+      setReading(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!user || !plan) return
+    if (
+      mode === 'replace' &&
+      !window.confirm('确定要替换现有任务吗？现有任务将移到回收站，可以在回收站中恢复。')
+    ) {
+      return
+    }
+
+    try {
+      const imported = await importBackup(user.id, plan, mode)
+      setResult({ ...imported, errors: [...plan.errors, ...imported.errors] })
+      setFile(null)
+      await Promise.all([fetchLists(), fetchTags()])
+      toast.success('导入完成', `共导入 ${imported.created} 个任务`)
+    } catch (err) {
+      toast.error('导入失败', getErrorMessage(err))
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Upload className="h-5 w-5" />
+          导入
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          选择导出的 JSON 或 CSV 文件，确认预览后开始导入。每一行都会按任务表单的规则校验，
+          不存在的清单和标签会自动创建。
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <fieldset className="space-y-1" disabled={!!progress}>
+          <legend className="text-sm font-medium">导入方式</legend>
+          {IMPORT_MODES.map((value) => (
+            <label key={value} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="radio"
+                name="import-mode"
+                value={value}
+                checked={mode === value}
+                onChange={() => setMode(value)}
+                className="h-4 w-4"
+              />
+              {IMPORT_MODE_LABELS[value]}
+            </label>
+          ))}
+        </fieldset>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          onChange={handleFileChange}
+          className="hidden"
+          aria-label="选择备份文件"
+        />
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={reading || !!progress}
+          className="gap-1"
+        >
+          <FileUp className="h-4 w-4" />
+          {reading ? '读取中...' : file ? `重新选择（当前：${file.name}）` : '选择文件'}
+        </Button>
+
+        {plan && (
+          <div className="space-y-3 rounded-md border border-gray-200 p-3">
+            <p className="text-sm text-gray-700">
+              将导入 <strong>{plan.todos.length}</strong> 个任务
+              {plan.duplicates.length > 0 && `，跳过 ${plan.duplicates.length} 个重复的任务`}
+              {plan.lists.length > 0 &&
+                `，新建清单：${plan.lists.map((list) => list.name).join('、')}`}
+              {plan.tags.length > 0 && `，新建标签：${plan.tags.map((tag) => tag.name).join('、')}`}
+              。
+            </p>
+
+            {plan.todos.length > 0 && (
+              <ul className="divide-y divide-gray-100 text-sm">
+                {plan.todos.slice(0, PREVIEW_LIMIT).map((todo) => (
+                  <li key={todo.ref} className="flex items-center gap-2 py-1">
+                    <span
+                      className="min-w-0 truncate text-gray-900"
+                      style={{ paddingLeft: `${todo.depth}rem` }}
+                    >
+                      {todo.fields.title}
+                    </span>
+                    <span className="ml-auto shrink-0 text-xs text-gray-500">
+                      {todo.list?.name ?? '收件箱'}
+                      {todo.fields.due_at && ` · ${formatDate(todo.fields.due_at)}`}
+                    </span>
+                  </li>
+                ))}
+                {plan.todos.length > PREVIEW_LIMIT && (
+                  <li className="py-1 text-xs text-gray-500">
+                    还有 {plan.todos.length - PREVIEW_LIMIT} 个任务
+                  </li>
+                )}
+              </ul>
+            )}
+
+            <ErrorReport errors={plan.errors} />
+
+            {progress ? (
+              <div className="space-y-1">
+                <div
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={progress.total}
+                  aria-valuenow={progress.done}
+                  className="h-2 overflow-hidden rounded-full bg-gray-100"
+                >
+                  <div
+                    className="h-full bg-blue-600 transition-all"
+                    style={{
+                      width: `${progress.total ? (progress.done / progress.total) * 100 : 100}%`,
+                    }}
+                  />
+                </div>
+                <p className="text-xs text-gray-500">
+                  正在导入 {progress.done} / {progress.total}
+                </p>
+              </div>
+            ) : (
+              <Button onClick={handleImport} disabled={plan.todos.length === 0}>
+                开始导入
+              </Button>
+            )}
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-3 rounded-md border border-green-200 bg-green-50 p-3">
+            <p role="status" className="text-sm text-green-900">
+              已导入 {result.created} 个任务。
+            </p>
+            <ErrorReport errors={result.errors} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export function BackupManager() {
+  return (
+    <div className="space-y-6">
+      <ExportCard />
+      <ImportCard />
+    </div>
+  )
+}
@@ -0,0 +1,152 @@
+'use client'
+
+import { useState } from 'react'
+import { useAuthStore } from '@/store/auth'
+import { useCalendarFeedStore } from '@/store/calendar-feed'
+import { getCalendarFeedUrl, toWebcalUrl } from '@/lib/calendar-feed'
+import { formatRelativeTime, getErrorMessage } from '@/lib/utils'
+import { useToastActions } from '@/components/ui/toast'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { CalendarDays, Copy, RefreshCw } from 'lucide-react'
+
+export function CalendarFeedSettings() {
+  const { user } = useAuthStore()
+  const { feed, loading, enableFeed, updateFeed, regenerateToken, disableFeed } =
+    useCalendarFeedStore()
+  const toast = useToastActions()
+  const [saving, setSaving] = useState(false)
+
+  const feedUrl = feed ? getCalendarFeedUrl(window.location.origin, feed.token) : ''
+
+  const run = async (action: () => Promise<void>, failure: string, success?: string) => {
+    setSaving(true)
+    try {
+      await action()
+      if (success) toast.success(success)
+    } catch (err) {
+      toast.error(failure, getErrorMessage(err))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleEnable = () => {
+    if (!user) return
+    run(() => enableFeed(user.id), '启用订阅失败', '日历订阅已启用')
+  }
+
+  const handleRegenerate = () => {
+    if (!window.confirm('确定要重新生成订阅链接吗？已经订阅旧链接的日历将无法再更新。')) {
+      return
+    }
+    run(regenerateToken, '重新生成链接失败', '订阅链接已重新生成')
+  }
+
+  const handleDisable = () => {
+    if (!window.confirm('确定要停用日历订阅吗？已经订阅的日历将无法再更新。')) {
+      return
+    }
+    run(disableFeed, '停用订阅失败', '日历订阅已停用')
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl)
+      toast.success('订阅链接已复制')
+    } catch (err) {
+      toast.error('复制失败', getErrorMessage(err))
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          日历订阅
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          在 Apple 日历、Google 日历或 Outlook 中订阅链接，任务会作为待办事项显示，
+          日历应用大约每小时更新一次。订阅是只读的，在日历中的修改不会同步回来。
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-gray-500">加载中...</p>
+        ) : !feed ? (
+          <Button onClick={handleEnable} disabled={saving}>
+            启用日历订阅
+          </Button>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <Input
+                  readOnly
+                  value={feedUrl}
+                  aria-label="订阅链接"
+                  className="font-mono text-xs"
+                />
+                <Button type="button" variant="outline" onClick={handleCopy} className="gap-1">
+                  <Copy className="h-4 w-4" />
+                  复制
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">
+                任何知道此链接的人都可以查看您的任务，请不要公开分享。
+                <a href={toWebcalUrl(feedUrl)} className="ml-1 text-blue-600 hover:underline">
+                  在日历应用中打开
+                </a>
+              </p>
+              <p className="text-xs text-gray-500">
+                {feed.last_accessed_at
+                  ? `最近一次更新 ${formatRelativeTime(feed.last_accessed_at)}`
+                  : '还没有日历应用访问过此链接'}
+              </p>
+            </div>
+
+            <label className="flex items-start gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={feed.include_events}
+                onChange={(event) =>
+                  run(() => updateFeed({ include_events: event.target.checked }), '保存设置失败')
+                }
+                disabled={saving}
+                className="mt-0.5 h-4 w-4"
+              />
+              <span>
+                同时将有截止时间的任务显示为日程
+                <span className="block text-xs text-gray-500">
+                  适用于不显示待办事项的日历应用，如 Google 日历
+                </span>
+              </span>
+            </label>
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                onClick={handleRegenerate}
+                disabled={saving}
+                className="gap-1"
+              >
+                <RefreshCw className="h-4 w-4" />
+                重新生成链接
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleDisable}
+                disabled={saving}
+                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+              >
+                停用订阅
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,9 +1,19 @@
 'use client'
 
+import Link from 'next/link'
 import { useAuthStore } from '@/store/auth'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
-import { LogOut, User, CheckSquare } from 'lucide-react'
+import {
+  LogOut,
+  User,
+  CheckSquare,
+  CalendarDays,
+  DatabaseBackup,
+  KeyRound,
+  Tags,
+  Webhook,
+} from 'lucide-react'
 
 export function Header() {
   const { user, signOut, loading } = useAuthStore()
@@ -25,9 +35,7 @@ export function Header() {
               <CheckSquare className="h-6 w-6 text-blue-600" />
               <h1 className="text-2xl font-bold text-gray-900">Todo List</h1>
             </div>
-            <div className="hidden sm:block text-sm text-gray-500">
-              现代化任务管理应用
-            </div>
+            <div className="hidden sm:block text-sm text-gray-500">现代化任务管理应用</div>
           </div>
 
           <div className="flex items-center gap-3">
@@ -37,7 +45,47 @@ export function Header() {
                 <span className="hidden sm:inline">{user.email}</span>
               </div>
             )}
-            
+
+            <Link
+              href="/settings/tags"
+              className="inline-flex h-9 items-center gap-2 rounded-md border border-input bg-background px-3 text-sm font-medium hover:bg-accent hover:text-accent-foreground"
+            >
+              <Tags className="h-4 w-4" />
+              <span className="hidden sm:inline">标签</span>
+            </Link>
+
+            <Link
+              href="/settings/tokens"
+              className="inline-flex h-9 items-center gap-2 rounded-md border border-input bg-background px-3 text-sm font-medium hover:bg-accent hover:text-accent-foreground"
+            >
+              <KeyRound className="h-4 w-4" />
+              <span className="hidden sm:inline">令牌</span>
+            </Link>
+
+            <Link
+              href="/settings/webhooks"
+              className="inline-flex h-9 items-center gap-2 rounded-md border border-input bg-background px-3 text-sm font-medium hover:bg-accent hover:text-accent-foreground"
+            >
+              <Webhook className="h-4 w-4" />
+              <span className="hidden sm:inline">Webhook</span>
+            </Link>
+
+            <Link
+              href="/settings/calendar"
+              className="inline-flex h-9 items-center gap-2 rounded-md border border-input bg-background px-3 text-sm font-medium hover:bg-accent hover:text-accent-foreground"
+            >
+              <CalendarDays className="h-4 w-4" />
+              <span className="hidden sm:inline">日历</span>
+            </Link>
+
+            <Link
+              href="/settings/data"
+              className="inline-flex h-9 items-center gap-2 rounded-md border border-input bg-background px-3 text-sm font-medium hover:bg-accent hover:text-accent-foreground"
+            >
+              <DatabaseBackup className="h-4 w-4" />
+              <span className="hidden sm:inline">数据</span>
+            </Link>
+
             <Button
               variant="outline"
               size="sm"
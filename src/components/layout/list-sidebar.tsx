@@ -0,0 +1,335 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useAuthStore } from '@/store/auth'
+import { useListStore } from '@/store/lists'
+import { listSchema, type ListFormData } from '@/lib/validations'
+import {
+  DEFAULT_LIST_COLOR,
+  LIST_COLORS,
+  LIST_ICON_NAMES,
+  LIST_ICONS,
+  getListIcon,
+} from '@/lib/lists'
+import { cn, getErrorMessage } from '@/lib/utils'
+import { useToastActions } from '@/components/ui/toast'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  Archive,
+  ArchiveRestore,
+  Check,
+  ChevronDown,
+  ChevronRight,
+  Edit2,
+  Plus,
+  Trash2,
+  X,
+} from 'lucide-react'
+import type { List } from '@/types'
+
+interface ListFormProps {
+  initialData?: ListFormData
+  onSubmit: (data: ListFormData) => Promise<void>
+  onCancel: () => void
+}
+
+function ListForm({ initialData, onSubmit, onCancel }: ListFormProps) {
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    formState: { errors, isSubmitting },
+  } = useForm<ListFormData>({
+    resolver: zodResolver(listSchema),
+    defaultValues: initialData || { name: '', color: DEFAULT_LIST_COLOR, icon: 'list' },
+  })
+
+  const color = watch('color')
+  const icon = watch('icon')
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-2 rounded-md border p-2">
+      <div className="flex gap-1">
+        <Input
+          autoFocus
+          placeholder="清单名称..."
+          aria-label="清单名称"
+          className="h-8"
+          {...register('name')}
+          aria-invalid={errors.name ? 'true' : 'false'}
+        />
+        <Button
+          type="submit"
+          size="icon"
+          className="h-8 w-8"
+          disabled={isSubmitting}
+          aria-label="保存清单"
+        >
+          <Check className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={onCancel}
+          aria-label="取消"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-1" role="radiogroup" aria-label="清单颜色">
+        {LIST_COLORS.map((c) => (
+          <button
+            key={c}
+            type="button"
+            role="radio"
+            aria-checked={color === c}
+            aria-label={c}
+            onClick={() => setValue('color', c)}
+            className={cn(
+              'h-5 w-5 rounded-full border-2',
+              color === c ? 'border-gray-900' : 'border-transparent'
+            )}
+            style={{ backgroundColor: c }}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-1" role="radiogroup" aria-label="清单图标">
+        {LIST_ICON_NAMES.map((name) => {
+          const Icon = LIST_ICONS[name]
+          return (
+            <button
+              key={name}
+              type="button"
+              role="radio"
+              aria-checked={icon === name}
+              aria-label={name}
+              onClick={() => setValue('icon', name)}
+              className={cn('rounded p-1 hover:bg-gray-100', icon === name && 'bg-gray-200')}
+            >
+              <Icon className="h-4 w-4" style={{ color }} />
+            </button>
+          )
+        })}
+      </div>
+      {errors.name && (
+        <p className="text-xs text-red-600" role="alert">
+          {errors.name.message}
+        </p>
+      )}
+    </form>
+  )
+}
+
+interface ListRowProps {
+  list: List
+  active: boolean
+  onEdit: () => void
+  onArchive: () => void
+  onDelete: () => void
+}
+
+function ListRow({ list, active, onEdit, onArchive, onDelete }: ListRowProps) {
+  const Icon = getListIcon(list.icon)
+
+  return (
+    <li className="group flex items-center gap-1">
+      <Link
+        href={list.is_inbox ? '/' : `/lists/${list.id}`}
+        aria-current={active ? 'page' : undefined}
+        className={cn(
+          'flex min-w-0 flex-1 items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-gray-100',
+          active && 'bg-gray-100 font-medium',
+          list.archived && 'text-gray-500'
+        )}
+      >
+        <Icon className="h-4 w-4 flex-shrink-0" style={{ color: list.color }} />
+        <span className="truncate">{list.name}</span>
+      </Link>
+      {!list.is_inbox && (
+        <div className="flex opacity-0 transition-opacity group-hover:opacity-100 focus-within:opacity-100">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={onEdit}
+            aria-label={`编辑清单 ${list.name}`}
+          >
+            <Edit2 className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={onArchive}
+            aria-label={list.archived ? `恢复清单 ${list.name}` : `归档清单 ${list.name}`}
+          >
+            {list.archived ? (
+              <ArchiveRestore className="h-3 w-3" />
+            ) : (
+              <Archive className="h-3 w-3" />
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-red-600 hover:bg-red-50 hover:text-red-700"
+            onClick={onDelete}
+            aria-label={`删除清单 ${list.name}`}
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+    </li>
+  )
+}
+
+interface ListSidebarProps {
+  activeListId?: string
+}
+
+export function ListSidebar({ activeListId }: ListSidebarProps) {
+  const { user } = useAuthStore()
+  const { lists, createList, updateList, deleteList } = useListStore()
+  const router = useRouter()
+  const toast = useToastActions()
+  const [isCreating, setIsCreating] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [showArchived, setShowArchived] = useState(false)
+
+  const activeLists = lists.filter((list) => !list.archived)
+  const archivedLists = lists.filter((list) => list.archived)
+
+  const handleCreate = async (data: ListFormData) => {
+    if (!user) return
+
+    try {
+      const list = await createList({ ...data, user_id: user.id })
+      setIsCreating(false)
+      router.push(`/lists/${list.id}`)
+    } catch (err) {
+      toast.error('创建清单失败', getErrorMessage(err))
+    }
+  }
+
+  const handleUpdate = async (id: string, data: ListFormData) => {
+    try {
+      await updateList(id, data)
+      setEditingId(null)
+    } catch (err) {
+      toast.error('更新清单失败', getErrorMessage(err))
+    }
+  }
+
+  const handleArchive = async (list: List) => {
+    try {
+      await updateList(list.id, { archived: !list.archived })
+      toast.success(list.archived ? '清单已恢复' : '清单已归档')
+    } catch (err) {
+      toast.error('更新清单失败', getErrorMessage(err))
+    }
+  }
+
+  const handleDelete = async (list: List) => {
+    if (!window.confirm(`确定要删除清单"${list.name}"及其中的所有任务吗？此操作无法撤销。`)) {
+      return
+    }
+
+    try {
+      await deleteList(list.id)
+      toast.success('清单已删除')
+      if (list.id === activeListId) {
+        router.push('/')
+      }
+    } catch (err) {
+      toast.error('删除清单失败', getErrorMessage(err))
+    }
+  }
+
+  const renderList = (list: List) =>
+    editingId === list.id ? (
+      <li key={list.id}>
+        <ListForm
+          initialData={{
+            name: list.name,
+            color: list.color,
+            icon: list.icon as ListFormData['icon'],
+          }}
+          onSubmit={(data) => handleUpdate(list.id, data)}
+          onCancel={() => setEditingId(null)}
+        />
+      </li>
+    ) : (
+      <ListRow
+        key={list.id}
+        list={list}
+        active={list.id === activeListId}
+        onEdit={() => setEditingId(list.id)}
+        onArchive={() => handleArchive(list)}
+        onDelete={() => handleDelete(list)}
+      />
+    )
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-700">我的清单</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => setIsCreating(true)}
+            aria-label="新建清单"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <nav aria-label="清单">
+          <ul className="space-y-1">{activeLists.map(renderList)}</ul>
+        </nav>
+
+        {isCreating && <ListForm onSubmit={handleCreate} onCancel={() => setIsCreating(false)} />}
+
+        {archivedLists.length > 0 && (
+          <div className="border-t border-gray-200 pt-3">
+            <button
+              type="button"
+              onClick={() => setShowArchived(!showArchived)}
+              className="flex items-center gap-1 text-xs font-medium text-gray-500 hover:text-gray-700"
+              aria-expanded={showArchived}
+            >
+              {showArchived ? (
+                <ChevronDown className="h-3 w-3" />
+              ) : (
+                <ChevronRight className="h-3 w-3" />
+              )}
+              已归档 ({archivedLists.length})
+            </button>
+            {showArchived && <ul className="mt-2 space-y-1">{archivedLists.map(renderList)}</ul>}
+          </div>
+        )}
+
+        <div className="border-t border-gray-200 pt-3">
+          <Link
+            href="/trash"
+            className="flex items-center gap-2 rounded-md px-2 py-1.5 text-sm text-gray-600 hover:bg-gray-100"
+          >
+            <Trash2 className="h-4 w-4 flex-shrink-0" />
+            回收站
+          </Link>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,34 @@
+import { X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { getTagChipStyle } from '@/lib/tags'
+import type { Tag } from '@/types'
+
+interface TagChipProps {
+  tag: Pick<Tag, 'name' | 'color'>
+  onRemove?: () => void
+  className?: string
+}
+
+export function TagChip({ tag, onRemove, className }: TagChipProps) {
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium',
+        className
+      )}
+      style={getTagChipStyle(tag.color)}
+    >
+      {tag.name}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="rounded-full hover:bg-black/5"
+          aria-label={`移除标签 ${tag.name}`}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </span>
+  )
+}
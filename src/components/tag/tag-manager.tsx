@@ -0,0 +1,259 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useAuthStore } from '@/store/auth'
+import { useTagStore } from '@/store/tags'
+import { useTodoStore } from '@/store/todos'
+import { tagSchema, type TagFormData } from '@/lib/validations'
+import { DEFAULT_TAG_COLOR, TAG_COLORS } from '@/lib/tags'
+import { cn, getErrorMessage } from '@/lib/utils'
+import { useToastActions } from '@/components/ui/toast'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { TagChip } from './tag-chip'
+import { Check, Edit2, Plus, Tags, Trash2, X } from 'lucide-react'
+import type { Tag } from '@/types'
+
+interface ColorPickerProps {
+  value: string
+  onChange: (color: string) => void
+  disabled?: boolean
+}
+
+function ColorPicker({ value, onChange, disabled }: ColorPickerProps) {
+  return (
+    <div className="flex flex-wrap gap-1.5" role="radiogroup" aria-label="标签颜色">
+      {TAG_COLORS.map((color) => (
+        <button
+          key={color}
+          type="button"
+          role="radio"
+          aria-checked={value === color}
+          aria-label={color}
+          disabled={disabled}
+          onClick={() => onChange(color)}
+          className={cn(
+            'h-6 w-6 rounded-full border-2 transition-transform hover:scale-110',
+            value === color ? 'border-gray-900' : 'border-transparent'
+          )}
+          style={{ backgroundColor: color }}
+        />
+      ))}
+    </div>
+  )
+}
+
+interface TagRowProps {
+  tag: Tag
+  onSave: (id: string, data: TagFormData) => Promise<void>
+  onDelete: (tag: Tag) => Promise<void>
+}
+
+function TagRow({ tag, onSave, onDelete }: TagRowProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    reset,
+    formState: { errors },
+  } = useForm<TagFormData>({
+    resolver: zodResolver(tagSchema),
+    defaultValues: { name: tag.name, color: tag.color },
+  })
+
+  const handleSave = async (data: TagFormData) => {
+    setLoading(true)
+    try {
+      await onSave(tag.id, data)
+      setIsEditing(false)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    setLoading(true)
+    try {
+      await onDelete(tag)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (isEditing) {
+    return (
+      <li className="py-3">
+        <form onSubmit={handleSubmit(handleSave)} className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              aria-label="标签名称"
+              {...register('name')}
+              aria-invalid={errors.name ? 'true' : 'false'}
+              disabled={loading}
+            />
+            <Button type="submit" size="icon" disabled={loading} aria-label="保存标签">
+              <Check className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              disabled={loading}
+              onClick={() => {
+                reset()
+                setIsEditing(false)
+              }}
+              aria-label="取消编辑"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <ColorPicker
+            value={watch('color')}
+            onChange={(color) => setValue('color', color)}
+            disabled={loading}
+          />
+          {errors.name && (
+            <p className="text-sm text-red-600" role="alert">
+              {errors.name.message}
+            </p>
+          )}
+        </form>
+      </li>
+    )
+  }
+
+  return (
+    <li className="flex items-center justify-between py-3">
+      <TagChip tag={tag} className="text-sm" />
+      <div className="flex gap-1">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setIsEditing(true)}
+          disabled={loading}
+          aria-label={`编辑标签 ${tag.name}`}
+        >
+          <Edit2 className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={handleDelete}
+          disabled={loading}
+          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+          aria-label={`删除标签 ${tag.name}`}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </li>
+  )
+}
+
+export function TagManager() {
+  const { user } = useAuthStore()
+  const { tags, loading, createTag, updateTag, deleteTag } = useTagStore()
+  const removeTag = useTodoStore((state) => state.removeTag)
+  const toast = useToastActions()
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<TagFormData>({
+    resolver: zodResolver(tagSchema),
+    defaultValues: { name: '', color: DEFAULT_TAG_COLOR },
+  })
+
+  const handleCreate = async (data: TagFormData) => {
+    if (!user) return
+
+    try {
+      await createTag({ ...data, user_id: user.id })
+      reset()
+      toast.success('标签创建成功')
+    } catch (err) {
+      toast.error('创建标签失败', getErrorMessage(err))
+    }
+  }
+
+  const handleSave = async (id: string, data: TagFormData) => {
+    try {
+      await updateTag(id, data)
+      toast.success('标签已更新')
+    } catch (err) {
+      toast.error('更新标签失败', getErrorMessage(err))
+      throw err
+    }
+  }
+
+  const handleDelete = async (tag: Tag) => {
+    if (!window.confirm(`确定要删除标签"${tag.name}"吗？任务本身不会被删除。`)) {
+      return
+    }
+
+    try {
+      await deleteTag(tag.id)
+      removeTag(tag.id)
+      toast.success('标签已删除')
+    } catch (err) {
+      toast.error('删除标签失败', getErrorMessage(err))
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="h-5 w-5" />
+          标签管理
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSubmit(handleCreate)} className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              placeholder="新标签名称..."
+              aria-label="新标签名称"
+              {...register('name')}
+              aria-invalid={errors.name ? 'true' : 'false'}
+            />
+            <Button type="submit" disabled={isSubmitting} className="flex items-center gap-1">
+              <Plus className="h-4 w-4" />
+              添加
+            </Button>
+          </div>
+          <ColorPicker value={watch('color')} onChange={(color) => setValue('color', color)} />
+          {errors.name && (
+            <p className="text-sm text-red-600" role="alert">
+              {errors.name.message}
+            </p>
+          )}
+        </form>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">加载中...</p>
+        ) : tags.length === 0 ? (
+          <p className="text-sm text-gray-500">还没有标签，创建一个用来分类您的任务吧。</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {tags.map((tag) => (
+              <TagRow key={tag.id} tag={tag} onSave={handleSave} onDelete={handleDelete} />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
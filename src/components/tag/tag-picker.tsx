@@ -0,0 +1,178 @@
+'use client'
+
+import { useState } from 'react'
+import { useAuthStore } from '@/store/auth'
+import { useTagStore } from '@/store/tags'
+import { Input } from '@/components/ui/input'
+import { TagChip } from './tag-chip'
+import { DEFAULT_TAG_COLOR } from '@/lib/tags'
+import { cn, getErrorMessage } from '@/lib/utils'
+import { Plus } from 'lucide-react'
+
+interface TagPickerProps {
+  id?: string
+  value: string[]
+  onChange: (tagIds: string[]) => void
+  disabled?: boolean
+}
+
+export function TagPicker({ id, value, onChange, disabled }: TagPickerProps) {
+  const { user } = useAuthStore()
+  const { tags, createTag } = useTagStore()
+  const [query, setQuery] = useState('')
+  const [open, setOpen] = useState(false)
+  const [highlighted, setHighlighted] = useState(0)
+  const [creating, setCreating] = useState(false)
+  const [error, setError] = useState('')
+
+  const trimmed = query.trim()
+  const selectedTags = value
+    .map((tagId) => tags.find((tag) => tag.id === tagId))
+    .filter((tag) => tag !== undefined)
+  const suggestions = tags.filter(
+    (tag) => !value.includes(tag.id) && tag.name.toLowerCase().includes(trimmed.toLowerCase())
+  )
+  const canCreate =
+    trimmed.length > 0 && !tags.some((tag) => tag.name.toLowerCase() === trimmed.toLowerCase())
+  const optionCount = suggestions.length + (canCreate ? 1 : 0)
+
+  const selectTag = (tagId: string) => {
+    onChange([...value, tagId])
+    setQuery('')
+    setHighlighted(0)
+  }
+
+  const handleCreate = async () => {
+    if (!user || !canCreate) return
+
+    setCreating(true)
+    setError('')
+    try {
+      const tag = await createTag({ name: trimmed, color: DEFAULT_TAG_COLOR, user_id: user.id })
+      selectTag(tag.id)
+    } catch (err) {
+      setError(getErrorMessage(err))
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        setOpen(true)
+        setHighlighted((i) => (optionCount === 0 ? 0 : (i + 1) % optionCount))
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        setHighlighted((i) => (optionCount === 0 ? 0 : (i - 1 + optionCount) % optionCount))
+        break
+      case 'Enter':
+        // 阻止回车提交整个任务表单
+        if (trimmed || open) {
+          e.preventDefault()
+          if (highlighted < suggestions.length) {
+            selectTag(suggestions[highlighted].id)
+          } else if (canCreate) {
+            handleCreate()
+          }
+        }
+        break
+      case 'Backspace':
+        if (!query && value.length > 0) {
+          onChange(value.slice(0, -1))
+        }
+        break
+      case 'Escape':
+        setOpen(false)
+        break
+    }
+  }
+
+  const listboxId = `${id ?? 'tag-picker'}-listbox`
+
+  return (
+    <div className="space-y-2">
+      {selectedTags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selectedTags.map((tag) => (
+            <TagChip
+              key={tag.id}
+              tag={tag}
+              onRemove={disabled ? undefined : () => onChange(value.filter((t) => t !== tag.id))}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="relative">
+        <Input
+          id={id}
+          role="combobox"
+          aria-expanded={open && optionCount > 0}
+          aria-controls={listboxId}
+          aria-autocomplete="list"
+          placeholder="输入以搜索或创建标签..."
+          value={query}
+          disabled={disabled || creating}
+          onChange={(e) => {
+            setQuery(e.target.value)
+            setHighlighted(0)
+            setOpen(true)
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={handleKeyDown}
+        />
+
+        {open && optionCount > 0 && (
+          <ul
+            id={listboxId}
+            role="listbox"
+            className="absolute z-10 mt-1 max-h-48 w-full overflow-auto rounded-md border bg-white py-1 shadow-lg"
+          >
+            {suggestions.map((tag, index) => (
+              <li
+                key={tag.id}
+                role="option"
+                aria-selected={index === highlighted}
+                className={cn('cursor-pointer px-3 py-1.5', index === highlighted && 'bg-gray-100')}
+                // 使用 onMouseDown 以便在输入框失焦前完成选择
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  selectTag(tag.id)
+                }}
+              >
+                <TagChip tag={tag} />
+              </li>
+            ))}
+            {canCreate && (
+              <li
+                role="option"
+                aria-selected={highlighted === suggestions.length}
+                className={cn(
+                  'flex cursor-pointer items-center gap-1 px-3 py-1.5 text-sm text-gray-700',
+                  highlighted === suggestions.length && 'bg-gray-100'
+                )}
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  handleCreate()
+                }}
+              >
+                <Plus className="h-3 w-3" />
+                创建标签 &quot;{trimmed}&quot;
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
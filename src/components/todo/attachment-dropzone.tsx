@@ -0,0 +1,156 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { attachmentFileSchema } from '@/lib/validations'
+import {
+  ATTACHMENT_ACCEPT,
+  ATTACHMENT_MAX_COUNT,
+  ATTACHMENT_MAX_SIZE,
+  formatFileSize,
+} from '@/lib/attachments'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Paperclip, Upload, X } from 'lucide-react'
+
+interface AttachmentDropzoneProps {
+  id?: string
+  value: File[]
+  onChange: (files: File[]) => void
+  disabled?: boolean
+}
+
+export function AttachmentDropzone({ id, value, onChange, disabled }: AttachmentDropzoneProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [dragging, setDragging] = useState(false)
+  const [rejections, setRejections] = useState<string[]>([])
+
+  // 校验并追加文件，不符合限制的文件不会加入列表
+  const addFiles = (files: File[]) => {
+    if (disabled || files.length === 0) return
+
+    const accepted: File[] = []
+    const rejected: string[] = []
+
+    for (const file of files) {
+      const result = attachmentFileSchema.safeParse(file)
+      if (!result.success) {
+        rejected.push(`${file.name}: ${result.error.issues[0].message}`)
+      } else if (value.length + accepted.length >= ATTACHMENT_MAX_COUNT) {
+        rejected.push(`${file.name}: 每个任务最多添加 ${ATTACHMENT_MAX_COUNT} 个附件`)
+      } else {
+        accepted.push(file)
+      }
+    }
+
+    setRejections(rejected)
+    if (accepted.length > 0) {
+      onChange([...value, ...accepted])
+    }
+  }
+
+  // 在所在表单内粘贴文件（如截图）时自动添加为附件
+  const addFilesRef = useRef(addFiles)
+  addFilesRef.current = addFiles
+
+  useEffect(() => {
+    const form = containerRef.current?.closest('form')
+    if (!form) return
+
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files ?? [])
+      if (files.length > 0) {
+        e.preventDefault()
+        addFilesRef.current(files)
+      }
+    }
+
+    form.addEventListener('paste', handlePaste)
+    return () => form.removeEventListener('paste', handlePaste)
+  }, [])
+
+  return (
+    <div ref={containerRef} className="space-y-2">
+      <div
+        role="button"
+        tabIndex={disabled ? -1 : 0}
+        aria-disabled={disabled}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault()
+            inputRef.current?.click()
+          }
+        }}
+        onDragOver={(e) => {
+          e.preventDefault()
+          setDragging(true)
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault()
+          setDragging(false)
+          addFiles(Array.from(e.dataTransfer.files))
+        }}
+        className={cn(
+          'flex cursor-pointer flex-col items-center gap-1 rounded-md border-2 border-dashed px-3 py-4 text-center text-xs text-gray-500 transition-colors',
+          dragging ? 'border-blue-400 bg-blue-50' : 'border-gray-200 hover:border-gray-300',
+          disabled && 'cursor-not-allowed opacity-50'
+        )}
+      >
+        <Upload className="h-4 w-4" />
+        <span>拖放文件到此处、粘贴截图或点击选择</span>
+        <span className="text-gray-400">
+          支持图片、PDF、文本和 Office 文档，单个文件不超过 {formatFileSize(ATTACHMENT_MAX_SIZE)}
+        </span>
+      </div>
+      <input
+        ref={inputRef}
+        id={id}
+        type="file"
+        multiple
+        accept={ATTACHMENT_ACCEPT}
+        className="hidden"
+        disabled={disabled}
+        onChange={(e) => {
+          addFiles(Array.from(e.target.files ?? []))
+          e.target.value = ''
+        }}
+      />
+
+      {value.length > 0 && (
+        <ul className="space-y-1">
+          {value.map((file, index) => (
+            <li
+              key={`${file.name}-${index}`}
+              className="flex items-center gap-2 rounded-md bg-gray-50 px-2 py-1 text-xs text-gray-700"
+            >
+              <Paperclip className="h-3 w-3 flex-shrink-0 text-gray-400" />
+              <span className="min-w-0 flex-1 truncate">{file.name}</span>
+              <span className="flex-shrink-0 text-gray-400">{formatFileSize(file.size)}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-5 w-5"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                disabled={disabled}
+                aria-label={`移除附件 ${file.name}`}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {rejections.length > 0 && (
+        <ul className="space-y-0.5 text-xs text-red-600" role="alert">
+          {rejections.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
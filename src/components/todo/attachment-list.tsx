@@ -0,0 +1,131 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useAttachmentStore } from '@/store/attachments'
+import { formatFileSize, isImageType, isPreviewable } from '@/lib/attachments'
+import { getErrorMessage } from '@/lib/utils'
+import { useToastActions } from '@/components/ui/toast'
+import { Button } from '@/components/ui/button'
+import { Download, FileText, Trash2 } from 'lucide-react'
+import type { Attachment } from '@/types'
+
+interface AttachmentListProps {
+  attachments: Attachment[]
+  disabled?: boolean
+}
+
+export function AttachmentList({ attachments, disabled }: AttachmentListProps) {
+  const { getAttachmentUrl, deleteAttachment } = useAttachmentStore()
+  const toast = useToastActions()
+  // attachment id -> 缩略图的签名链接
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    let cancelled = false
+    const images = attachments.filter((a) => isImageType(a.mime_type))
+
+    Promise.all(images.map(async (a) => [a.id, await getAttachmentUrl(a)] as const))
+      .then((entries) => {
+        if (!cancelled) setThumbnails(Object.fromEntries(entries))
+      })
+      .catch((err) => {
+        console.error('Error loading thumbnails:', err)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [attachments, getAttachmentUrl])
+
+  const handleOpen = async (attachment: Attachment, download: boolean) => {
+    // 先打开窗口再设置地址，避免异步获取链接后被浏览器拦截弹窗
+    const win = download ? null : window.open('', '_blank')
+    try {
+      const url = await getAttachmentUrl(attachment, download)
+      if (win) {
+        win.opener = null
+        win.location.href = url
+      } else {
+        window.location.assign(url)
+      }
+    } catch (err) {
+      win?.close()
+      toast.error('打开附件失败', getErrorMessage(err))
+    }
+  }
+
+  const handleDelete = async (attachment: Attachment) => {
+    if (!window.confirm(`确定要删除附件"${attachment.file_name}"吗？此操作无法撤销。`)) {
+      return
+    }
+
+    try {
+      await deleteAttachment(attachment)
+      toast.success('附件已删除')
+    } catch (err) {
+      toast.error('删除附件失败', getErrorMessage(err))
+    }
+  }
+
+  return (
+    <ul className="mt-2 flex flex-wrap gap-2">
+      {attachments.map((attachment) => (
+        <li
+          key={attachment.id}
+          className="flex w-40 flex-col overflow-hidden rounded-md border border-gray-200 bg-white text-xs"
+        >
+          {/* 浏览器可预览的文件在新窗口中打开，其他文件直接下载 */}
+          <button
+            type="button"
+            onClick={() => handleOpen(attachment, !isPreviewable(attachment.mime_type))}
+            className="flex h-20 items-center justify-center bg-gray-50 hover:bg-gray-100"
+            aria-label={
+              isPreviewable(attachment.mime_type)
+                ? `预览附件 ${attachment.file_name}`
+                : `下载附件 ${attachment.file_name}`
+            }
+          >
+            {thumbnails[attachment.id] ? (
+              // 签名链接会过期且域名不固定，不适合使用 next/image
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={thumbnails[attachment.id]}
+                alt={attachment.file_name}
+                className="h-full w-full object-cover"
+              />
+            ) : (
+              <FileText className="h-8 w-8 text-gray-300" />
+            )}
+          </button>
+          <div className="flex items-center gap-1 px-2 py-1">
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-gray-700" title={attachment.file_name}>
+                {attachment.file_name}
+              </p>
+              <p className="text-gray-400">{formatFileSize(attachment.size)}</p>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => handleOpen(attachment, true)}
+              aria-label={`下载附件 ${attachment.file_name}`}
+            >
+              <Download className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 text-red-600 hover:bg-red-50 hover:text-red-700"
+              onClick={() => handleDelete(attachment)}
+              disabled={disabled}
+              aria-label={`删除附件 ${attachment.file_name}`}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
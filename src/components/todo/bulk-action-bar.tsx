@@ -0,0 +1,129 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { PRIORITY_LABELS, PRIORITY_LEVELS } from '@/lib/priority'
+import { useListStore } from '@/store/lists'
+import { CheckCircle, Circle, Trash2, X } from 'lucide-react'
+import type { PriorityLevel, TodoUpdate } from '@/types'
+
+interface BulkActionBarProps {
+  count: number
+  busy: boolean
+  // 当前清单，移动到清单的选项中不再列出
+  listId?: string
+  onComplete: (completed: boolean) => void
+  onDelete: () => void
+  onUpdate: (updates: TodoUpdate) => void
+  onCancel: () => void
+}
+
+const selectClassName =
+  'h-9 rounded-md border border-input bg-background px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50'
+
+// 对选中的任务批量完成、删除或修改共同的字段
+export function BulkActionBar({
+  count,
+  busy,
+  listId,
+  onComplete,
+  onDelete,
+  onUpdate,
+  onCancel,
+}: BulkActionBarProps) {
+  const lists = useListStore((state) => state.lists)
+  const [dueAt, setDueAt] = useState('')
+  const disabled = busy || count === 0
+  const targetLists = lists.filter((list) => !list.archived && list.id !== listId)
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="批量操作"
+      className="sticky top-0 z-10 space-y-3 rounded-lg border border-blue-200 bg-blue-50 p-3"
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="mr-auto text-sm font-medium text-blue-900">已选择 {count} 个任务</span>
+        <Button size="sm" variant="outline" disabled={disabled} onClick={() => onComplete(true)}>
+          <CheckCircle className="mr-1 h-4 w-4" />
+          完成
+        </Button>
+        <Button size="sm" variant="outline" disabled={disabled} onClick={() => onComplete(false)}>
+          <Circle className="mr-1 h-4 w-4" />
+          取消完成
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={disabled}
+          onClick={onDelete}
+          className="text-red-600 hover:text-red-700"
+        >
+          <Trash2 className="mr-1 h-4 w-4" />
+          删除
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onCancel} aria-label="退出选择">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          aria-label="设置优先级"
+          className={selectClassName}
+          disabled={disabled}
+          value=""
+          onChange={(e) => onUpdate({ priority: e.target.value as PriorityLevel })}
+        >
+          <option value="" disabled>
+            设置优先级
+          </option>
+          {PRIORITY_LEVELS.map((level) => (
+            <option key={level} value={level}>
+              {PRIORITY_LABELS[level]}
+            </option>
+          ))}
+        </select>
+
+        {targetLists.length > 0 && (
+          <select
+            aria-label="移动到清单"
+            className={selectClassName}
+            disabled={disabled}
+            value=""
+            onChange={(e) => onUpdate({ list_id: e.target.value })}
+          >
+            <option value="" disabled>
+              移动到清单
+            </option>
+            {targetLists.map((list) => (
+              <option key={list.id} value={list.id}>
+                {list.name}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <div className="flex items-center gap-1">
+          <Input
+            type="datetime-local"
+            aria-label="截止时间"
+            value={dueAt}
+            onChange={(e) => setDueAt(e.target.value)}
+            disabled={disabled}
+            className="h-9 w-auto"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={disabled}
+            onClick={() => onUpdate({ due_at: dueAt ? new Date(dueAt).toISOString() : null })}
+          >
+            {dueAt ? '设置截止时间' : '清除截止时间'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  CONFLICT_FIELD_LABELS,
+  getDefaultChoices,
+  type ConflictChoice,
+  type FieldChange,
+} from '@/lib/conflicts'
+import { PRIORITY_LABELS } from '@/lib/priority'
+import { describeRRule, parseRRule } from '@/lib/recurrence'
+import { cn, formatDate } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { AlertTriangle } from 'lucide-react'
+import type { PriorityLevel } from '@/types'
+
+interface ConflictDialogProps {
+  changes: FieldChange[]
+  onResolve: (choices: Record<string, ConflictChoice>) => void
+  onCancel: () => void
+}
+
+function formatValue(change: FieldChange, value: FieldChange['mine']): string {
+  if (value === null || value === undefined || value === '') {
+    return change.field === 'recurrence_rule' ? '不重复' : '（空）'
+  }
+
+  switch (change.field) {
+    case 'due_at':
+      return formatDate(value)
+    case 'priority':
+      return PRIORITY_LABELS[value as PriorityLevel]
+    case 'recurrence_rule': {
+      const rule = parseRRule(value)
+      return rule ? describeRRule(rule) : value
+    }
+    default:
+      return value
+  }
+}
+
+// 保存时发现任务已在其他设备上修改，逐字段对比双方的版本并选择保留哪一个
+export function ConflictDialog({ changes, onResolve, onCancel }: ConflictDialogProps) {
+  const [choices, setChoices] = useState(() => getDefaultChoices(changes))
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onCancel])
+
+  const chooseAll = (choice: ConflictChoice) =>
+    Object.fromEntries(changes.map((change) => [change.field, choice]))
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <Card
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="conflict-dialog-title"
+        className="max-h-[90vh] w-full max-w-2xl overflow-y-auto"
+      >
+        <CardHeader>
+          <CardTitle id="conflict-dialog-title" className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            任务已在其他设备上修改
+          </CardTitle>
+          <p className="text-sm text-gray-500">
+            你编辑期间，该任务在其他地方被修改了。请为每个字段选择要保留的版本。
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {changes.map((change) => (
+            <fieldset key={change.field} className="space-y-2">
+              <legend className="text-sm font-medium text-gray-700">
+                {CONFLICT_FIELD_LABELS[change.field]}
+                {change.mineChanged && change.theirsChanged && (
+                  <span className="ml-2 text-xs font-normal text-amber-600">双方都修改了</span>
+                )}
+              </legend>
+              <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                {(['mine', 'theirs'] as const).map((side) => (
+                  <label
+                    key={side}
+                    className={cn(
+                      'flex cursor-pointer gap-2 rounded-md border p-3 text-sm',
+                      choices[change.field] === side
+                        ? 'border-blue-400 bg-blue-50'
+                        : 'border-gray-200 hover:border-gray-300'
+                    )}
+                  >
+                    <input
+                      type="radio"
+                      name={`conflict-${change.field}`}
+                      checked={choices[change.field] === side}
+                      onChange={() => setChoices({ ...choices, [change.field]: side })}
+                      className="mt-0.5"
+                    />
+                    <span className="min-w-0">
+                      <span className="block text-xs text-gray-500">
+                        {side === 'mine' ? '我的版本' : '对方的版本'}
+                      </span>
+                      <span className="block whitespace-pre-wrap break-words text-gray-900 line-clamp-6">
+                        {formatValue(change, change[side])}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          ))}
+
+          <div className="flex flex-wrap justify-end gap-2 border-t border-gray-200 pt-4">
+            <Button variant="ghost" onClick={onCancel}>
+              返回编辑
+            </Button>
+            <Button variant="outline" onClick={() => onResolve(chooseAll('theirs'))}>
+              放弃我的修改
+            </Button>
+            <Button variant="outline" onClick={() => onResolve(chooseAll('mine'))}>
+              全部使用我的版本
+            </Button>
+            <Button onClick={() => onResolve(choices)}>按所选合并保存</Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,23 @@
+import { getHighlightSegments } from '@/lib/search'
+
+interface HighlightedTextProps {
+  text: string
+  query: string
+}
+
+// 高亮文本中与搜索词匹配的部分
+export function HighlightedText({ text, query }: HighlightedTextProps) {
+  return (
+    <>
+      {getHighlightSegments(text, query).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 text-inherit">
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  )
+}
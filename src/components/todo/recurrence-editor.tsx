@@ -0,0 +1,205 @@
+'use client'
+
+import {
+  FREQUENCY_LABELS,
+  RECURRENCE_FREQUENCIES,
+  WEEKDAY_LABELS,
+  WEEKDAYS,
+  describeRRule,
+  formatRRule,
+  parseRRule,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type Weekday,
+} from '@/lib/recurrence'
+import { cn } from '@/lib/utils'
+import { Input } from '@/components/ui/input'
+import { Repeat } from 'lucide-react'
+
+const SELECT_CLASS_NAME =
+  'flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50'
+
+const INTERVAL_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: '天',
+  WEEKLY: '周',
+  MONTHLY: '个月',
+  YEARLY: '年',
+}
+
+type EndMode = 'never' | 'until' | 'count'
+
+// ISO 时间 -> date 输入框使用的本地日期 YYYY-MM-DD
+function toDateValue(iso: string): string {
+  const date = new Date(iso)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+interface RecurrenceEditorProps {
+  id?: string
+  value?: string
+  onChange: (value: string) => void
+  disabled?: boolean
+}
+
+export function RecurrenceEditor({ id, value, onChange, disabled }: RecurrenceEditorProps) {
+  const rule = value ? parseRRule(value) : null
+  const endMode: EndMode = rule?.until ? 'until' : rule?.count ? 'count' : 'never'
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (!rule) return
+    onChange(formatRRule({ ...rule, ...changes }))
+  }
+
+  const handleFrequencyChange = (freq: string) => {
+    if (!freq) {
+      onChange('')
+      return
+    }
+    // 切换频率时保留间隔和结束条件，星期几只对每周生效
+    onChange(
+      formatRRule({
+        ...(rule ?? { interval: 1 }),
+        freq: freq as RecurrenceFrequency,
+        byDay: freq === 'WEEKLY' ? rule?.byDay : undefined,
+      })
+    )
+  }
+
+  const handleWeekdayToggle = (day: Weekday) => {
+    if (!rule) return
+    const current = rule.byDay ?? []
+    const byDay = current.includes(day) ? current.filter((d) => d !== day) : [...current, day]
+    update({ byDay: WEEKDAYS.filter((d) => byDay.includes(d)) })
+  }
+
+  const handleEndModeChange = (mode: EndMode) => {
+    switch (mode) {
+      case 'until': {
+        const until = new Date()
+        until.setMonth(until.getMonth() + 1)
+        until.setHours(23, 59, 59, 0)
+        update({ until: until.toISOString(), count: undefined })
+        break
+      }
+      case 'count':
+        update({ until: undefined, count: 10 })
+        break
+      default:
+        update({ until: undefined, count: undefined })
+        break
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <select
+        id={id}
+        className={cn(SELECT_CLASS_NAME, 'w-full')}
+        value={rule?.freq ?? ''}
+        onChange={(e) => handleFrequencyChange(e.target.value)}
+        disabled={disabled}
+      >
+        <option value="">不重复</option>
+        {RECURRENCE_FREQUENCIES.map((freq) => (
+          <option key={freq} value={freq}>
+            {FREQUENCY_LABELS[freq]}
+          </option>
+        ))}
+      </select>
+
+      {rule && (
+        <div className="space-y-2 rounded-md border border-gray-200 p-3">
+          <div className="flex items-center gap-2 text-sm text-gray-700">
+            <span>每</span>
+            <Input
+              type="number"
+              min={1}
+              max={99}
+              className="h-8 w-20"
+              aria-label="重复间隔"
+              value={rule.interval}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              disabled={disabled}
+            />
+            <span>{INTERVAL_UNITS[rule.freq]}</span>
+          </div>
+
+          {rule.freq === 'WEEKLY' && (
+            <div className="flex flex-wrap gap-1" role="group" aria-label="重复的星期">
+              {WEEKDAYS.map((day) => {
+                const selected = rule.byDay?.includes(day) ?? false
+                return (
+                  <button
+                    key={day}
+                    type="button"
+                    aria-pressed={selected}
+                    onClick={() => handleWeekdayToggle(day)}
+                    disabled={disabled}
+                    className={cn(
+                      'h-8 w-8 rounded-full border text-xs',
+                      selected
+                        ? 'border-blue-600 bg-blue-600 text-white'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+                    )}
+                  >
+                    {WEEKDAY_LABELS[day]}
+                  </button>
+                )
+              })}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            <span>结束</span>
+            <select
+              className={cn(SELECT_CLASS_NAME, 'h-8 py-1')}
+              aria-label="结束条件"
+              value={endMode}
+              onChange={(e) => handleEndModeChange(e.target.value as EndMode)}
+              disabled={disabled}
+            >
+              <option value="never">永不</option>
+              <option value="until">截至日期</option>
+              <option value="count">重复次数</option>
+            </select>
+            {endMode === 'until' && rule.until && (
+              <Input
+                type="date"
+                className="h-8 w-auto"
+                aria-label="截至日期"
+                value={toDateValue(rule.until)}
+                onChange={(e) => {
+                  if (e.target.value) {
+                    update({ until: new Date(`${e.target.value}T23:59:59`).toISOString() })
+                  }
+                }}
+                disabled={disabled}
+              />
+            )}
+            {endMode === 'count' && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  max={999}
+                  className="h-8 w-20"
+                  aria-label="重复次数"
+                  value={rule.count}
+                  onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+                  disabled={disabled}
+                />
+                <span>次</span>
+              </>
+            )}
+          </div>
+
+          <p className="flex items-center gap-1 text-xs text-gray-500">
+            <Repeat className="h-3 w-3" />
+            {describeRRule(rule)}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+'use client'
+
+import { useState } from 'react'
+import { useTodoStore } from '@/store/todos'
+import { getOperationTodoIds, getSyncStatus } from '@/lib/outbox'
+import { getErrorMessage } from '@/lib/utils'
+import { useToastActions } from '@/components/ui/toast'
+import { AlertCircle, CloudUpload, RefreshCw, Undo2 } from 'lucide-react'
+
+interface SyncStatusProps {
+  todoId: string
+}
+
+// 显示任务中尚未同步到服务器的修改，同步失败时可以重试或放弃
+export function SyncStatus({ todoId }: SyncStatusProps) {
+  const status = useTodoStore((state) => getSyncStatus(state.outbox, todoId))
+  const error = useTodoStore(
+    (state) =>
+      state.outbox.find(
+        (entry) =>
+          entry.status === 'failed' && getOperationTodoIds(entry.operation).includes(todoId)
+      )?.error
+  )
+  const retrySync = useTodoStore((state) => state.retrySync)
+  const discardSync = useTodoStore((state) => state.discardSync)
+  const toast = useToastActions()
+  const [loading, setLoading] = useState(false)
+
+  if (!status) return null
+
+  if (status === 'pending') {
+    return (
+      <span
+        className="mt-0.5 flex flex-shrink-0 items-center gap-1 rounded-full border border-gray-200 bg-gray-50 px-2 py-0.5 text-xs text-gray-500"
+        title="修改保存在本地，恢复网络后会自动同步"
+      >
+        <CloudUpload className="h-3 w-3" />
+        待同步
+      </span>
+    )
+  }
+
+  const handleRetry = async () => {
+    setLoading(true)
+    try {
+      await retrySync(todoId)
+    } catch (err) {
+      toast.error('重试同步失败', getErrorMessage(err))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDiscard = async () => {
+    if (!window.confirm('确定要放弃该任务未同步的修改吗？任务会恢复为服务器上的状态。')) {
+      return
+    }
+
+    setLoading(true)
+    try {
+      await discardSync(todoId)
+      toast.info('已放弃未同步的修改')
+    } catch (err) {
+      toast.error('放弃修改失败', getErrorMessage(err))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <span
+      className="mt-0.5 flex flex-shrink-0 items-center gap-1 rounded-full border border-red-200 bg-red-50 px-2 py-0.5 text-xs text-red-700"
+      title={error ?? undefined}
+    >
+      <AlertCircle className="h-3 w-3" />
+      同步失败
+      <button
+        type="button"
+        onClick={handleRetry}
+        disabled={loading}
+        className="rounded p-0.5 hover:bg-red-100 disabled:opacity-50"
+        aria-label="重试同步"
+        title="重试"
+      >
+        <RefreshCw className="h-3 w-3" />
+      </button>
+      <button
+        type="button"
+        onClick={handleDiscard}
+        disabled={loading}
+        className="rounded p-0.5 hover:bg-red-100 disabled:opacity-50"
+        aria-label="放弃未同步的修改"
+        title="放弃修改"
+      >
+        <Undo2 className="h-3 w-3" />
+      </button>
+    </span>
+  )
+}
@@ -1,38 +1,75 @@
 'use client'
 
+import { useEffect, useMemo, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent } from '@/components/ui/card'
-import { Search, Filter, SortAsc, SortDesc } from 'lucide-react'
-import type { TodoFilter, TodoSort, SortOrder } from '@/types'
+import { PRIORITY_LABELS, PRIORITY_LEVELS } from '@/lib/priority'
+import { getTagChipStyle } from '@/lib/tags'
+import { SEARCH_DEBOUNCE_MS } from '@/lib/search'
+import { debounce } from '@/lib/utils'
+import { Search, Filter, SortAsc, SortDesc, Flag, Tags, GripVertical } from 'lucide-react'
+import type { TodoFilter, TodoSort, SortOrder, PriorityFilter, Tag, TagMatchMode } from '@/types'
 
 interface TodoFiltersProps {
   filter: TodoFilter
   sort: TodoSort
   order: SortOrder
+  priority: PriorityFilter
+  tags: Tag[]
+  tagFilter: string[]
+  tagMatch: TagMatchMode
   search: string
   onFilterChange: (filter: TodoFilter) => void
   onSortChange: (sort: TodoSort, order?: SortOrder) => void
+  onPriorityChange: (priority: PriorityFilter) => void
+  onTagFilterChange: (tagIds: string[], match?: TagMatchMode) => void
   onSearchChange: (search: string) => void
   totalCount: number
   activeCount: number
   completedCount: number
+  overdueCount: number
+  dueTodayCount: number
+  dueThisWeekCount: number
 }
 
 export function TodoFilters({
   filter,
   sort,
   order,
+  priority,
+  tags,
+  tagFilter,
+  tagMatch,
   search,
   onFilterChange,
   onSortChange,
+  onPriorityChange,
+  onTagFilterChange,
   onSearchChange,
   totalCount,
   activeCount,
   completedCount,
+  overdueCount,
+  dueTodayCount,
+  dueThisWeekCount,
 }: TodoFiltersProps) {
+  // 输入框立即显示输入的内容，停止输入后才触发搜索请求
+  const [query, setQuery] = useState(search)
+  const debouncedSearchChange = useMemo(
+    () => debounce(onSearchChange, SEARCH_DEBOUNCE_MS),
+    [onSearchChange]
+  )
+
+  useEffect(() => {
+    setQuery(search)
+  }, [search])
+
   const handleSortClick = (newSort: TodoSort) => {
-    if (sort === newSort) {
+    if (newSort === 'manual') {
+      // 手动排序没有升降序之分
+      onSortChange('manual', 'asc')
+    } else if (sort === newSort) {
       // 如果点击的是当前排序字段，切换排序方向
       onSortChange(newSort, order === 'asc' ? 'desc' : 'asc')
     } else {
@@ -41,6 +78,12 @@ export function TodoFilters({
     }
   }
 
+  const handleTagClick = (tagId: string) => {
+    onTagFilterChange(
+      tagFilter.includes(tagId) ? tagFilter.filter((id) => id !== tagId) : [...tagFilter, tagId]
+    )
+  }
+
   const getSortIcon = (sortField: TodoSort) => {
     if (sort !== sortField) {
       return <SortDesc className="h-4 w-4 opacity-50" />
@@ -60,8 +103,11 @@ export function TodoFilters({
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
           <Input
             placeholder="搜索任务..."
-            value={search}
-            onChange={(e) => onSearchChange(e.target.value)}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value)
+              debouncedSearchChange(e.target.value)
+            }}
             className="pl-10"
           />
         </div>
@@ -95,8 +141,122 @@ export function TodoFilters({
               已完成 ({completedCount})
             </Button>
           </div>
+          <div className="flex gap-2 flex-wrap">
+            <Button
+              variant={filter === 'overdue' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onFilterChange('overdue')}
+              className={filter === 'overdue' ? '' : 'text-red-600'}
+            >
+              已逾期 ({overdueCount})
+            </Button>
+            <Button
+              variant={filter === 'due_today' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onFilterChange('due_today')}
+            >
+              今天到期 ({dueTodayCount})
+            </Button>
+            <Button
+              variant={filter === 'due_this_week' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onFilterChange('due_this_week')}
+            >
+              本周到期 ({dueThisWeekCount})
+            </Button>
+          </div>
+        </div>
+
+        {/* 优先级过滤 */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Flag className="h-4 w-4 text-gray-500" />
+            <span className="text-sm font-medium text-gray-700">优先级</span>
+          </div>
+          <div className="flex gap-2 flex-wrap">
+            <Button
+              variant={priority === 'all' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onPriorityChange('all')}
+            >
+              全部
+            </Button>
+            {[...PRIORITY_LEVELS].reverse().map((level) => (
+              <Button
+                key={level}
+                variant={priority === level ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => onPriorityChange(level)}
+              >
+                {PRIORITY_LABELS[level]}
+              </Button>
+            ))}
+          </div>
         </div>
 
+        {/* 标签过滤 */}
+        {tags.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Tags className="h-4 w-4 text-gray-500" />
+                <span className="text-sm font-medium text-gray-700">标签</span>
+              </div>
+              <div className="flex gap-1" role="group" aria-label="标签匹配方式">
+                <Button
+                  variant={tagMatch === 'any' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => onTagFilterChange(tagFilter, 'any')}
+                  aria-pressed={tagMatch === 'any'}
+                  className="h-7 px-2 text-xs"
+                >
+                  任一
+                </Button>
+                <Button
+                  variant={tagMatch === 'all' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => onTagFilterChange(tagFilter, 'all')}
+                  aria-pressed={tagMatch === 'all'}
+                  className="h-7 px-2 text-xs"
+                >
+                  全部
+                </Button>
+              </div>
+            </div>
+            <div className="flex gap-2 flex-wrap">
+              {tags.map((tag) => {
+                const selected = tagFilter.includes(tag.id)
+                return (
+                  <button
+                    key={tag.id}
+                    type="button"
+                    onClick={() => handleTagClick(tag.id)}
+                    aria-pressed={selected}
+                    className={`rounded-full border px-2.5 py-1 text-xs font-medium transition-shadow ${
+                      selected
+                        ? 'ring-2 ring-offset-1 ring-gray-400'
+                        : 'opacity-70 hover:opacity-100'
+                    }`}
+                    style={getTagChipStyle(tag.color)}
+                  >
+                    {tag.name}
+                  </button>
+                )
+              })}
+              {tagFilter.length > 0 && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  onClick={() => onTagFilterChange([])}
+                  className="h-auto p-0 text-xs"
+                >
+                  清除
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* 排序 */}
         <div className="space-y-2">
           <div className="flex items-center gap-2">
@@ -131,6 +291,34 @@ export function TodoFilters({
               标题
               {getSortIcon('title')}
             </Button>
+            <Button
+              variant={sort === 'due_at' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => handleSortClick('due_at')}
+              className="flex items-center gap-1"
+            >
+              截止时间
+              {getSortIcon('due_at')}
+            </Button>
+            <Button
+              variant={sort === 'priority' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => handleSortClick('priority')}
+              className="flex items-center gap-1"
+            >
+              优先级
+              {getSortIcon('priority')}
+            </Button>
+            <Button
+              variant={sort === 'manual' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => handleSortClick('manual')}
+              className="flex items-center gap-1"
+              title="拖动任务或使用方向键调整顺序"
+            >
+              手动
+              <GripVertical className={`h-4 w-4 ${sort === 'manual' ? '' : 'opacity-50'}`} />
+            </Button>
           </div>
         </div>
 
@@ -139,6 +327,7 @@ export function TodoFilters({
           <div className="text-xs text-gray-500 space-y-1">
             <div>总任务数：{totalCount}</div>
             <div>进行中：{activeCount} | 已完成：{completedCount}</div>
+            {overdueCount > 0 && <div className="text-red-600">已逾期：{overdueCount}</div>}
             {totalCount > 0 && (
               <div>完成率：{Math.round((completedCount / totalCount) * 100)}%</div>
             )}
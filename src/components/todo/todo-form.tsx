@@ -1,20 +1,26 @@
 'use client'
 
 import { useState } from 'react'
-import { useForm } from 'react-hook-form'
+import { Controller, useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { todoSchema, type TodoFormData } from '@/lib/validations'
+import { DESCRIPTION_MAX_LENGTH, todoSchema, type TodoFormData } from '@/lib/validations'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Plus, X } from 'lucide-react'
+import { Markdown } from '@/components/ui/markdown'
+import { TagPicker } from '@/components/tag/tag-picker'
+import { RecurrenceEditor } from './recurrence-editor'
+import { AttachmentDropzone } from './attachment-dropzone'
+import { PRIORITY_LABELS, PRIORITY_LEVELS } from '@/lib/priority'
+import { Eye, PenLine, Plus, X } from 'lucide-react'
 
 interface TodoFormProps {
   onSubmit: (data: TodoFormData) => Promise<void>
   loading?: boolean
   initialData?: TodoFormData
   mode?: 'create' | 'edit'
+  title?: string
   onCancel?: () => void
 }
 
@@ -23,26 +29,41 @@ export function TodoForm({
   loading = false, 
   initialData, 
   mode = 'create',
+  title,
   onCancel 
 }: TodoFormProps) {
   const [error, setError] = useState<string>('')
+  const [previewDescription, setPreviewDescription] = useState(false)
 
   const {
     register,
     handleSubmit,
     reset,
+    control,
+    watch,
     formState: { errors },
   } = useForm<TodoFormData>({
     resolver: zodResolver(todoSchema),
-    defaultValues: initialData || { title: '', description: '' },
+    defaultValues: initialData || {
+      title: '',
+      description: '',
+      due_at: '',
+      priority: 'none',
+      tag_ids: [],
+      recurrence_rule: '',
+      attachments: [],
+    },
   })
 
+  const description = watch('description')
+
   const handleFormSubmit = async (data: TodoFormData) => {
     try {
       setError('')
       await onSubmit(data)
       if (mode === 'create') {
         reset()
+        setPreviewDescription(false)
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : '操作失败')
@@ -54,7 +75,7 @@ export function TodoForm({
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Plus className="h-5 w-5" />
-          {mode === 'create' ? '添加新任务' : '编辑任务'}
+          {title ?? (mode === 'create' ? '添加新任务' : '编辑任务')}
         </CardTitle>
       </CardHeader>
       <CardContent>
@@ -75,14 +96,55 @@ export function TodoForm({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="description">任务描述</Label>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="description">任务描述</Label>
+              <div className="flex gap-1" role="tablist" aria-label="描述编辑模式">
+                <Button
+                  type="button"
+                  variant={previewDescription ? 'ghost' : 'secondary'}
+                  size="sm"
+                  role="tab"
+                  aria-selected={!previewDescription}
+                  onClick={() => setPreviewDescription(false)}
+                  className="h-7 gap-1 px-2 text-xs"
+                >
+                  <PenLine className="h-3 w-3" />
+                  编写
+                </Button>
+                <Button
+                  type="button"
+                  variant={previewDescription ? 'secondary' : 'ghost'}
+                  size="sm"
+                  role="tab"
+                  aria-selected={previewDescription}
+                  onClick={() => setPreviewDescription(true)}
+                  className="h-7 gap-1 px-2 text-xs"
+                >
+                  <Eye className="h-3 w-3" />
+                  预览
+                </Button>
+              </div>
+            </div>
+            {previewDescription && (
+              <div className="min-h-[80px] rounded-md border border-input px-3 py-2">
+                {description ? (
+                  <Markdown source={description} className="text-gray-700" />
+                ) : (
+                  <p className="text-sm text-gray-400">没有可预览的内容</p>
+                )}
+              </div>
+            )}
             <textarea
               id="description"
-              placeholder="输入任务描述（可选）..."
+              placeholder="输入任务描述（可选，支持 Markdown）..."
+              hidden={previewDescription}
               className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
               {...register('description')}
               aria-invalid={errors.description ? 'true' : 'false'}
             />
+            <p className="text-xs text-gray-500 text-right">
+              {description?.length ?? 0}/{DESCRIPTION_MAX_LENGTH}
+            </p>
             {errors.description && (
               <p className="text-sm text-red-600" role="alert">
                 {errors.description.message}
@@ -90,6 +152,99 @@ export function TodoForm({
             )}
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="priority">优先级</Label>
+            <select
+              id="priority"
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+              {...register('priority')}
+              aria-invalid={errors.priority ? 'true' : 'false'}
+            >
+              {PRIORITY_LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  {PRIORITY_LABELS[level]}
+                </option>
+              ))}
+            </select>
+            {errors.priority && (
+              <p className="text-sm text-red-600" role="alert">
+                {errors.priority.message}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="due_at">截止时间</Label>
+            <Input
+              id="due_at"
+              type="datetime-local"
+              {...register('due_at')}
+              aria-invalid={errors.due_at ? 'true' : 'false'}
+            />
+            {errors.due_at && (
+              <p className="text-sm text-red-600" role="alert">
+                {errors.due_at.message}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recurrence_rule">重复</Label>
+            <Controller
+              name="recurrence_rule"
+              control={control}
+              render={({ field }) => (
+                <RecurrenceEditor
+                  id="recurrence_rule"
+                  value={field.value}
+                  onChange={field.onChange}
+                />
+              )}
+            />
+            {errors.recurrence_rule && (
+              <p className="text-sm text-red-600" role="alert">
+                {errors.recurrence_rule.message}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="tag_ids">标签</Label>
+            <Controller
+              name="tag_ids"
+              control={control}
+              render={({ field }) => (
+                <TagPicker id="tag_ids" value={field.value} onChange={field.onChange} />
+              )}
+            />
+            {errors.tag_ids && (
+              <p className="text-sm text-red-600" role="alert">
+                {errors.tag_ids.message}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="attachments">附件</Label>
+            <Controller
+              name="attachments"
+              control={control}
+              render={({ field }) => (
+                <AttachmentDropzone
+                  id="attachments"
+                  value={field.value}
+                  onChange={field.onChange}
+                  disabled={loading}
+                />
+              )}
+            />
+            {errors.attachments && (
+              <p className="text-sm text-red-600" role="alert">
+                {errors.attachments.message}
+              </p>
+            )}
+          </div>
+
           {error && (
             <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md" role="alert">
               {error}
@@ -104,7 +259,7 @@ export function TodoForm({
             >
               {loading ? '保存中...' : (mode === 'create' ? '添加任务' : '保存更改')}
             </Button>
-            {mode === 'edit' && onCancel && (
+            {onCancel && (
               <Button
                 type="button"
                 variant="outline"
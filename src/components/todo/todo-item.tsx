@@ -1,146 +1,508 @@
 'use client'
 
 import { useState } from 'react'
-import { formatRelativeTime } from '@/lib/utils'
+import {
+  formatDate,
+  formatRelativeTime,
+  getErrorMessage,
+  isOverdue,
+  toDateTimeLocalValue,
+} from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
+import { PRIORITY_BADGE_STYLES, PRIORITY_LABELS } from '@/lib/priority'
+import { getDescendantIds } from '@/lib/subtasks'
+import { describeRRule, parseRRule } from '@/lib/recurrence'
+import { toggleTaskItem } from '@/lib/markdown'
+import {
+  TodoConflictError,
+  buildResolution,
+  getFieldChanges,
+  type ConflictChoice,
+  type FieldChange,
+} from '@/lib/conflicts'
+import { useTodoStore } from '@/store/todos'
+import { useTagStore } from '@/store/tags'
+import { useAttachmentStore } from '@/store/attachments'
+import { TagChip } from '@/components/tag/tag-chip'
+import { useToastActions } from '@/components/ui/toast'
+import { Markdown } from '@/components/ui/markdown'
 import { TodoForm } from './todo-form'
-import { Check, Edit2, Trash2, Clock, RotateCcw } from 'lucide-react'
+import { HighlightedText } from './highlighted-text'
+import { AttachmentList } from './attachment-list'
+import { SyncStatus } from './sync-status'
+import { ConflictDialog } from './conflict-dialog'
+import {
+  Check,
+  Edit2,
+  Trash2,
+  Clock,
+  RotateCcw,
+  CalendarClock,
+  ChevronDown,
+  ChevronRight,
+  ListPlus,
+  Repeat,
+  SkipForward,
+  CircleStop,
+  AlertTriangle,
+} from 'lucide-react'
 import type { Todo, TodoUpdate } from '@/types'
 import type { TodoFormData } from '@/lib/validations'
 
 interface TodoItemProps {
   todo: Todo
-  onUpdate: (id: string, updates: TodoUpdate) => Promise<void>
+  onUpdate: (
+    id: string,
+    updates: TodoUpdate,
+    tagIds?: string[],
+    baseUpdatedAt?: string
+  ) => Promise<void>
   onDelete: (id: string) => Promise<void>
+  onToggle: (id: string, includeSubtasks?: boolean) => Promise<void>
+  onAddSubtask: (parentId: string, data: TodoFormData) => Promise<void>
+  // 当前可见任务按父任务分组，用于递归渲染子任务
+  subtaskMap: Map<string, Todo[]>
 }
 
-export function TodoItem({ todo, onUpdate, onDelete }: TodoItemProps) {
+export function TodoItem({
+  todo,
+  onUpdate,
+  onDelete,
+  onToggle,
+  onAddSubtask,
+  subtaskMap,
+}: TodoItemProps) {
   const [isEditing, setIsEditing] = useState(false)
+  const [isAddingSubtask, setIsAddingSubtask] = useState(false)
+  const [expanded, setExpanded] = useState(true)
   const [loading, setLoading] = useState(false)
+  // 开始编辑时的任务版本，保存时据此检查是否与其他设备上的修改冲突
+  const [editBase, setEditBase] = useState<Todo | null>(null)
+  const [conflict, setConflict] = useState<{
+    changes: FieldChange[]
+    data: TodoFormData
+    theirs: Todo
+  } | null>(null)
+  // 新任务在服务器确认前还不能添加子任务、编辑或上传附件
+  const pending = useTodoStore((state) => state.pendingIds.includes(todo.id))
+  const busy = loading || pending
+  const subtaskTotal = useTodoStore(
+    (state) => state.todos.filter((t) => t.parent_id === todo.id).length
+  )
+  const subtaskDone = useTodoStore(
+    (state) => state.todos.filter((t) => t.parent_id === todo.id && t.completed).length
+  )
+  const subtasks = subtaskMap.get(todo.id) || []
+  const tagIds = useTodoStore((state) => state.todoTags[todo.id])
+  const search = useTodoStore((state) => state.search.trim())
+  // 搜索时描述中命中位置附近的摘要，代替完整的描述显示
+  const snippet = useTodoStore((state) =>
+    state.search.trim() ? state.searchHits?.[todo.id]?.snippet : null
+  )
+  const allTags = useTagStore((state) => state.tags)
+  const tags = allTags.filter((tag) => tagIds?.includes(tag.id))
+  const skipOccurrence = useTodoStore((state) => state.skipOccurrence)
+  const stopRecurrence = useTodoStore((state) => state.stopRecurrence)
+  const updateTodo = useTodoStore((state) => state.updateTodo)
+  const attachments = useAttachmentStore((state) => state.attachments[todo.id])
+  const uploadAttachments = useAttachmentStore((state) => state.uploadAttachments)
+  const toast = useToastActions()
+  const recurrence = todo.recurrence_rule ? parseRRule(todo.recurrence_rule) : null
 
   const handleToggleComplete = async () => {
+    let includeSubtasks = false
+
+    // 完成父任务时，询问是否一并完成未完成的子任务
+    if (!todo.completed) {
+      const { todos } = useTodoStore.getState()
+      const descendantIds = getDescendantIds(todos, todo.id)
+      const pendingCount = todos.filter((t) => descendantIds.includes(t.id) && !t.completed).length
+      if (pendingCount > 0) {
+        includeSubtasks = window.confirm(
+          `该任务还有 ${pendingCount} 个未完成的子任务，是否同时将它们标记为已完成？`
+        )
+      }
+    }
+
+    // 状态在本地立即更新，失败时由 store 回滚，无需等待请求完成
+    await onToggle(todo.id, includeSubtasks)
+  }
+
+  const handleAddSubtask = async (data: TodoFormData) => {
+    await onAddSubtask(todo.id, data)
+    setIsAddingSubtask(false)
+    setExpanded(true)
+  }
+
+  const startEditing = () => {
+    setEditBase(todo)
+    setIsEditing(true)
+  }
+
+  const stopEditing = () => {
+    setIsEditing(false)
+    setEditBase(null)
+    setConflict(null)
+  }
+
+  // 编辑期间收到了其他设备对该任务的修改
+  const changedElsewhere = isEditing && !!editBase && todo.updated_at !== editBase.updated_at
+
+  // 以 base 的版本为准保存修改，期间任务被其他设备修改时打开冲突对话框
+  const saveEdit = async (updates: TodoUpdate, data: TodoFormData, base: Todo) => {
     setLoading(true)
     try {
-      await onUpdate(todo.id, { completed: !todo.completed })
+      await onUpdate(todo.id, updates, data.tag_ids, base.updated_at)
+      if (data.attachments.length > 0) {
+        // 任务已保存，附件上传失败时只提示，不阻止关闭编辑表单
+        await uploadAttachments(todo, data.attachments).catch((err) => {
+          toast.error('附件上传失败', getErrorMessage(err))
+        })
+      }
+      stopEditing()
+    } catch (err) {
+      if (!(err instanceof TodoConflictError)) {
+        throw err
+      }
+
+      const changes = getFieldChanges(base, updates, err.theirs)
+      // 对方只修改了表单以外的字段（如完成状态），直接基于最新版本重新保存
+      if (changes.length === 0) {
+        await saveEdit(updates, data, err.theirs)
+        return
+      }
+      setConflict({ changes, data, theirs: err.theirs })
     } finally {
       setLoading(false)
     }
   }
 
   const handleEdit = async (data: TodoFormData) => {
-    setLoading(true)
-    try {
-      await onUpdate(todo.id, {
+    await saveEdit(
+      {
         title: data.title,
         description: data.description || null,
-      })
-      setIsEditing(false)
-    } finally {
-      setLoading(false)
+        due_at: data.due_at ? new Date(data.due_at).toISOString() : null,
+        priority: data.priority,
+        recurrence_rule: data.recurrence_rule ?? null,
+      },
+      data,
+      editBase ?? todo
+    )
+  }
+
+  const handleResolveConflict = async (choices: Record<string, ConflictChoice>) => {
+    if (!conflict) return
+
+    const { changes, data, theirs } = conflict
+    const updates = buildResolution(changes, choices)
+    setConflict(null)
+
+    // 全部保留对方的版本时无需保存
+    if (Object.keys(updates).length === 0) {
+      stopEditing()
+      toast.info('已保留对方的版本')
+      return
     }
+
+    await saveEdit(updates, data, theirs)
   }
 
-  const handleDelete = async () => {
-    if (window.confirm(`确定要删除任务"${todo.title}"吗？此操作无法撤销。`)) {
-      setLoading(true)
-      try {
-        await onDelete(todo.id)
-      } finally {
-        setLoading(false)
-      }
+  // 勾选描述中的任务列表项时直接改写描述原文
+  const handleToggleDescriptionTask = async (line: number, checked: boolean) => {
+    if (!todo.description) return
+
+    try {
+      await updateTodo(todo.id, { description: toggleTaskItem(todo.description, line, checked) })
+    } catch (err) {
+      toast.error('更新任务失败', getErrorMessage(err))
     }
   }
 
-  if (isEditing) {
-    return (
-      <TodoForm
-        mode="edit"
-        initialData={{
-          title: todo.title,
-          description: todo.description || '',
-        }}
-        onSubmit={handleEdit}
-        onCancel={() => setIsEditing(false)}
-        loading={loading}
-      />
-    )
+  const handleSkip = async () => {
+    try {
+      await skipOccurrence(todo.id)
+      toast.success('已跳过本次', '任务已顺延到下一次')
+    } catch (err) {
+      toast.error('跳过失败', getErrorMessage(err))
+    }
   }
 
+  const handleStopRecurrence = async () => {
+    if (
+      !window.confirm(`确定要停止重复任务"${todo.title}"吗？当前任务会保留，但不再生成后续任务。`)
+    ) {
+      return
+    }
+
+    try {
+      await stopRecurrence(todo.id)
+      toast.success('已停止重复')
+    } catch (err) {
+      toast.error('停止重复失败', getErrorMessage(err))
+    }
+  }
+
+  const handleDelete = async () => {
+    // 任务及其子任务会移到回收站，可以随时恢复，因此无需确认
+    await onDelete(todo.id)
+  }
+
+  const overdue = !todo.completed && isOverdue(todo.due_at)
+
   return (
-    <Card className={`transition-all duration-200 ${todo.completed ? 'opacity-75' : ''}`}>
-      <CardContent className="p-4">
-        <div className="flex items-start gap-3">
-          {/* 完成状态按钮 */}
-          <Button
-            variant="outline"
-            size="icon"
-            onClick={handleToggleComplete}
-            disabled={loading}
-            className={`mt-1 flex-shrink-0 ${
-              todo.completed
-                ? 'bg-green-100 border-green-300 text-green-700 hover:bg-green-200'
-                : 'hover:bg-gray-100'
-            }`}
-            aria-label={todo.completed ? '标记为未完成' : '标记为已完成'}
-          >
-            {todo.completed ? <RotateCcw className="h-4 w-4" /> : <Check className="h-4 w-4" />}
-          </Button>
-
-          {/* 任务内容 */}
-          <div className="flex-1 min-w-0">
-            <h3
-              className={`font-medium text-lg leading-tight ${
-                todo.completed ? 'line-through text-gray-500' : 'text-gray-900'
-              }`}
+    <div className="space-y-3">
+      {isEditing ? (
+        <div className="space-y-2">
+          {changedElsewhere && (
+            <div
+              className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800"
+              role="status"
             >
-              {todo.title}
-            </h3>
-
-            {todo.description && (
-              <p className={`mt-1 text-sm ${todo.completed ? 'text-gray-400' : 'text-gray-600'}`}>
-                {todo.description}
-              </p>
-            )}
-
-            <div className="flex items-center gap-4 mt-2 text-xs text-gray-500">
-              <span className="flex items-center gap-1">
-                <Clock className="h-3 w-3" />
-                创建于 {formatRelativeTime(todo.created_at)}
-              </span>
-              {todo.updated_at !== todo.created_at && (
-                <span className="flex items-center gap-1">
-                  <Clock className="h-3 w-3" />
-                  更新于 {formatRelativeTime(todo.updated_at)}
-                </span>
-              )}
+              <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+              该任务刚刚在其他设备上被修改。保存时会逐项对比双方的修改，由你决定保留哪些内容。
             </div>
-          </div>
-
-          {/* 操作按钮 */}
-          <div className="flex gap-1 flex-shrink-0">
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={() => setIsEditing(true)}
-              disabled={loading}
-              aria-label="编辑任务"
-            >
-              <Edit2 className="h-4 w-4" />
-            </Button>
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={handleDelete}
-              disabled={loading}
-              className="text-red-600 hover:text-red-700 hover:bg-red-50"
-              aria-label="删除任务"
-            >
-              <Trash2 className="h-4 w-4" />
-            </Button>
-          </div>
+          )}
+          <TodoForm
+            mode="edit"
+            initialData={{
+              title: todo.title,
+              description: todo.description || '',
+              due_at: todo.due_at ? toDateTimeLocalValue(todo.due_at) : '',
+              priority: todo.priority,
+              tag_ids: tags.map((tag) => tag.id),
+              recurrence_rule: todo.recurrence_rule || '',
+              attachments: [],
+            }}
+            onSubmit={handleEdit}
+            onCancel={stopEditing}
+            loading={loading}
+          />
+          {conflict && (
+            <ConflictDialog
+              key={conflict.theirs.updated_at}
+              changes={conflict.changes}
+              onResolve={handleResolveConflict}
+              onCancel={() => setConflict(null)}
+            />
+          )}
+        </div>
+      ) : (
+        <Card
+          className={`transition-all duration-200 ${todo.completed || pending ? 'opacity-75' : ''} ${
+            overdue ? 'border-red-300 bg-red-50/40' : ''
+          }`}
+        >
+          <CardContent className="p-4">
+            <div className="flex items-start gap-3">
+              {/* 完成状态按钮 */}
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={handleToggleComplete}
+                disabled={busy}
+                className={`mt-1 flex-shrink-0 ${
+                  todo.completed
+                    ? 'bg-green-100 border-green-300 text-green-700 hover:bg-green-200'
+                    : 'hover:bg-gray-100'
+                }`}
+                aria-label={todo.completed ? '标记为未完成' : '标记为已完成'}
+              >
+                {todo.completed ? <RotateCcw className="h-4 w-4" /> : <Check className="h-4 w-4" />}
+              </Button>
+
+              {/* 任务内容 */}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-start gap-2">
+                  {subtaskTotal > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => setExpanded(!expanded)}
+                      className="mt-0.5 flex-shrink-0 rounded text-gray-500 hover:bg-gray-100"
+                      aria-expanded={expanded}
+                      aria-label={expanded ? '收起子任务' : '展开子任务'}
+                    >
+                      {expanded ? (
+                        <ChevronDown className="h-5 w-5" />
+                      ) : (
+                        <ChevronRight className="h-5 w-5" />
+                      )}
+                    </button>
+                  )}
+                  <h3
+                    className={`font-medium text-lg leading-tight ${
+                      todo.completed ? 'line-through text-gray-500' : 'text-gray-900'
+                    }`}
+                  >
+                    <HighlightedText text={todo.title} query={search} />
+                  </h3>
+                  {todo.priority !== 'none' && (
+                    <span
+                      className={`mt-0.5 flex-shrink-0 rounded-full border px-2 py-0.5 text-xs font-medium ${
+                        PRIORITY_BADGE_STYLES[todo.priority]
+                      }`}
+                    >
+                      {PRIORITY_LABELS[todo.priority]}
+                    </span>
+                  )}
+                  <SyncStatus todoId={todo.id} />
+                </div>
+
+                {snippet ? (
+                  <p
+                    className={`mt-1 text-sm ${todo.completed ? 'text-gray-400' : 'text-gray-600'}`}
+                  >
+                    <HighlightedText text={snippet} query={search} />
+                  </p>
+                ) : (
+                  todo.description && (
+                    <Markdown
+                      source={todo.description}
+                      className={`mt-1 ${todo.completed ? 'text-gray-400' : 'text-gray-600'}`}
+                      onToggleTask={handleToggleDescriptionTask}
+                      disabled={busy}
+                    />
+                  )
+                )}
+
+                {subtaskTotal > 0 && (
+                  <div className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+                    <div className="h-1.5 w-24 overflow-hidden rounded-full bg-gray-200">
+                      <div
+                        className="h-full rounded-full bg-green-500 transition-all"
+                        style={{ width: `${(subtaskDone / subtaskTotal) * 100}%` }}
+                      />
+                    </div>
+                    <span>
+                      {subtaskDone}/{subtaskTotal} 已完成
+                    </span>
+                  </div>
+                )}
+
+                {tags.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {tags.map((tag) => (
+                      <TagChip key={tag.id} tag={tag} />
+                    ))}
+                  </div>
+                )}
+
+                {attachments && attachments.length > 0 && (
+                  <AttachmentList attachments={attachments} disabled={busy} />
+                )}
+
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-xs text-gray-500">
+                  {todo.due_at && (
+                    <span
+                      className={`flex items-center gap-1 ${overdue ? 'font-medium text-red-600' : ''}`}
+                    >
+                      <CalendarClock className="h-3 w-3" />
+                      {overdue ? '已逾期' : '截止于'} {formatDate(todo.due_at)}
+                    </span>
+                  )}
+                  {recurrence && (
+                    <span className="flex items-center gap-1 text-blue-600">
+                      <Repeat className="h-3 w-3" />
+                      {describeRRule(recurrence)}
+                    </span>
+                  )}
+                  <span className="flex items-center gap-1">
+                    <Clock className="h-3 w-3" />
+                    创建于 {formatRelativeTime(todo.created_at)}
+                  </span>
+                  {todo.updated_at !== todo.created_at && (
+                    <span className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      更新于 {formatRelativeTime(todo.updated_at)}
+                    </span>
+                  )}
+                </div>
+              </div>
+
+              {/* 操作按钮 */}
+              <div className="flex gap-1 flex-shrink-0">
+                {recurrence && !todo.completed && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={handleSkip}
+                      disabled={busy}
+                      aria-label="跳过本次"
+                      title="跳过本次"
+                    >
+                      <SkipForward className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={handleStopRecurrence}
+                      disabled={busy}
+                      aria-label="停止重复"
+                      title="停止重复"
+                    >
+                      <CircleStop className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setIsAddingSubtask(true)}
+                  disabled={busy}
+                  aria-label="添加子任务"
+                >
+                  <ListPlus className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={startEditing}
+                  disabled={busy}
+                  aria-label="编辑任务"
+                >
+                  <Edit2 className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={handleDelete}
+                  disabled={busy}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  aria-label="删除任务"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {(isAddingSubtask || (expanded && subtasks.length > 0)) && (
+        <div className="ml-5 space-y-3 border-l-2 border-gray-200 pl-4">
+          {isAddingSubtask && (
+            <TodoForm
+              title="添加子任务"
+              onSubmit={handleAddSubtask}
+              onCancel={() => setIsAddingSubtask(false)}
+            />
+          )}
+          {expanded &&
+            subtasks.map((subtask) => (
+              <TodoItem
+                key={subtask.id}
+                todo={subtask}
+                onUpdate={onUpdate}
+                onDelete={onDelete}
+                onToggle={onToggle}
+                onAddSubtask={onAddSubtask}
+                subtaskMap={subtaskMap}
+              />
+            ))}
         </div>
-      </CardContent>
-    </Card>
+      )}
+    </div>
   )
 }
@@ -1,16 +1,48 @@
 'use client'
 
-import React from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 import { TodoItem } from './todo-item'
+import { BulkActionBar } from './bulk-action-bar'
 import { Card, CardContent } from '@/components/ui/card'
-import { CheckCircle, Clock } from 'lucide-react'
+import { groupByParent } from '@/lib/subtasks'
+import { getRangeIds } from '@/lib/bulk'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { CheckCircle, CheckSquare, Clock, GripVertical, Trash2 } from 'lucide-react'
 import type { Todo, TodoUpdate } from '@/types'
+import type { TodoFormData } from '@/lib/validations'
 
 interface TodoListProps {
   todos: Todo[]
   loading: boolean
-  onUpdate: (id: string, updates: TodoUpdate) => Promise<void>
+  onUpdate: (
+    id: string,
+    updates: TodoUpdate,
+    tagIds?: string[],
+    baseUpdatedAt?: string
+  ) => Promise<void>
   onDelete: (id: string) => Promise<void>
+  onToggle: (id: string, includeSubtasks?: boolean) => Promise<void>
+  onAddSubtask: (parentId: string, data: TodoFormData) => Promise<void>
+  // 提供时启用手动排序（拖放和键盘），参数为移动后相邻的前后任务
+  onReorder?: (id: string, prevId: string | null, nextId: string | null) => Promise<void>
+  // 服务器上还有更多任务时，滚动到列表底部自动加载下一页
+  hasMore?: boolean
+  loadingMore?: boolean
+  onLoadMore?: () => void
+  // 提供时启用多选和批量操作
+  listId?: string
+  onBulkUpdate?: (ids: string[], updates: TodoUpdate) => Promise<void>
+  onBulkDelete?: (ids: string[]) => Promise<void>
+  onClearCompleted?: () => Promise<void>
+}
+
+// 距离可视区域多远时开始加载下一页
+const LOAD_MORE_MARGIN = '400px'
+
+interface DropTarget {
+  id: string
+  placement: 'before' | 'after'
 }
 
 export const TodoList = React.memo(function TodoList({
@@ -18,7 +50,43 @@ export const TodoList = React.memo(function TodoList({
   loading,
   onUpdate,
   onDelete,
+  onToggle,
+  onAddSubtask,
+  onReorder,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  listId,
+  onBulkUpdate,
+  onBulkDelete,
+  onClearCompleted,
 }: TodoListProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null)
+  const [announcement, setAnnouncement] = useState('')
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  const [selecting, setSelecting] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  // Shift 多选的起点：上一次点击的任务
+  const [anchorId, setAnchorId] = useState<string | null>(null)
+  const [bulkBusy, setBulkBusy] = useState(false)
+
+  // 列表底部的哨兵接近可视区域时加载下一页。每页加载完成后重新观察，
+  // 本地过滤后任务仍不足一屏、哨兵仍然可见时会继续加载
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || !hasMore || loadingMore || !onLoadMore) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onLoadMore()
+      },
+      { rootMargin: LOAD_MORE_MARGIN }
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, loadingMore, onLoadMore, loading, todos.length])
+
   if (loading) {
     return (
       <Card>
@@ -32,26 +100,264 @@ export const TodoList = React.memo(function TodoList({
     )
   }
 
+  const loadMore = hasMore && onLoadMore && (
+    <div ref={sentinelRef} className="flex items-center justify-center py-2 text-sm text-gray-500">
+      {loadingMore ? (
+        <>
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-900"></div>
+          <span className="ml-2">加载更多...</span>
+        </>
+      ) : (
+        <button
+          type="button"
+          onClick={onLoadMore}
+          className="rounded px-3 py-1 text-blue-600 hover:bg-blue-50 hover:text-blue-800"
+        >
+          加载更多
+        </button>
+      )}
+    </div>
+  )
+
   if (todos.length === 0) {
     return (
-      <Card>
-        <CardContent className="p-8">
-          <div className="text-center text-gray-500">
-            <CheckCircle className="h-12 w-12 mx-auto mb-4 text-gray-300" />
-            <h3 className="text-lg font-medium mb-2">暂无任务</h3>
-            <p className="text-sm">添加您的第一个任务开始使用吧！</p>
-          </div>
-        </CardContent>
-      </Card>
+      <div className="space-y-6">
+        <Card>
+          <CardContent className="p-8">
+            <div className="text-center text-gray-500">
+              <CheckCircle className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+              <h3 className="text-lg font-medium mb-2">暂无任务</h3>
+              <p className="text-sm">添加您的第一个任务开始使用吧！</p>
+            </div>
+          </CardContent>
+        </Card>
+        {/* 已加载的任务都被本地过滤掉时，继续加载后面的任务 */}
+        {loadMore}
+      </div>
     )
   }
 
+  // 子任务嵌套渲染在父任务下；父任务不可见（如被过滤）时，子任务作为顶层任务显示
+  const visibleIds = new Set(todos.map((todo) => todo.id))
+  const subtaskMap = groupByParent(todos)
+  const rootTodos = todos.filter((todo) => !todo.parent_id || !visibleIds.has(todo.parent_id))
+
   // 按完成状态分组
-  const activeTodos = todos.filter((todo) => !todo.completed)
-  const completedTodos = todos.filter((todo) => todo.completed)
+  const activeTodos = rootTodos.filter((todo) => !todo.completed)
+  const completedTodos = rootTodos.filter((todo) => todo.completed)
+
+  // 可选择的任务按显示顺序排列；已不在列表中（如被删除或过滤）的任务不再算作选中
+  const orderedIds = [...activeTodos, ...completedTodos].map((todo) => todo.id)
+  const selected = selectedIds.filter((id) => orderedIds.includes(id))
+  const allSelected = orderedIds.length > 0 && selected.length === orderedIds.length
+  const bulkEnabled = !!onBulkUpdate && !!onBulkDelete
+
+  const handleSelect = (id: string, range: boolean) => {
+    const ids = range ? getRangeIds(orderedIds, anchorId, id) : [id]
+    // 范围选择时统一设为本次点击的任务切换后的状态
+    const select = !selected.includes(id)
+    setSelectedIds(
+      select
+        ? [...new Set([...selected, ...ids])]
+        : selected.filter((selectedId) => !ids.includes(selectedId))
+    )
+    setAnchorId(id)
+  }
+
+  const exitSelection = () => {
+    setSelecting(false)
+    setSelectedIds([])
+    setAnchorId(null)
+  }
+
+  // 批量操作完成后清空选择；失败时保留选择，由上层提示错误
+  const runBulk = async (action: () => Promise<void>) => {
+    setBulkBusy(true)
+    try {
+      await action()
+      setSelectedIds([])
+      setAnchorId(null)
+    } catch {
+      // 错误已由上层提示
+    } finally {
+      setBulkBusy(false)
+    }
+  }
+
+  // 将任务移动到所在分组的指定下标，只需根据新的前后任务重新计算被移动任务的位置
+  const moveTo = (section: Todo[], id: string, index: number) => {
+    if (!onReorder) return
+
+    const from = section.findIndex((todo) => todo.id === id)
+    if (from === -1 || index < 0 || index >= section.length || index === from) return
+
+    const reordered = section.filter((todo) => todo.id !== id)
+    reordered.splice(index, 0, section[from])
+    const prev = reordered[index - 1]
+    const next = reordered[index + 1]
+
+    setAnnouncement(`已将"${section[from].title}"移动到第 ${index + 1} 位`)
+    onReorder(id, prev?.id ?? null, next?.id ?? null).catch(() => {
+      setAnnouncement('排序保存失败，已恢复原来的顺序')
+    })
+  }
+
+  const handleDrop = (section: Todo[]) => {
+    if (draggingId && dropTarget && draggingId !== dropTarget.id) {
+      const from = section.findIndex((todo) => todo.id === draggingId)
+      const target = section.findIndex((todo) => todo.id === dropTarget.id)
+      if (from !== -1 && target !== -1) {
+        // 拖到目标之后时插入到目标后面；从上往下拖时，移除自身后下标需要减一
+        let index = dropTarget.placement === 'after' ? target + 1 : target
+        if (from < index) index -= 1
+        moveTo(section, draggingId, index)
+      }
+    }
+    setDraggingId(null)
+    setDropTarget(null)
+  }
+
+  const renderTodo = (todo: Todo, index: number, section: Todo[]) => {
+    const item = (
+      <TodoItem
+        key={todo.id}
+        todo={todo}
+        onUpdate={onUpdate}
+        onDelete={onDelete}
+        onToggle={onToggle}
+        onAddSubtask={onAddSubtask}
+        subtaskMap={subtaskMap}
+      />
+    )
+
+    if (selecting) {
+      const checked = selected.includes(todo.id)
+      return (
+        <div key={todo.id} className="flex items-start gap-2">
+          <input
+            type="checkbox"
+            checked={checked}
+            // 键盘和鼠标触发的 change 事件都来自 click，可以读取是否按住了 Shift
+            onChange={(e) => handleSelect(todo.id, (e.nativeEvent as MouseEvent).shiftKey)}
+            className="mt-6 h-4 w-4 flex-shrink-0"
+            aria-label={`选择"${todo.title}"`}
+          />
+          <div className={cn('min-w-0 flex-1 rounded-lg', checked && 'ring-2 ring-blue-400')}>
+            {item}
+          </div>
+        </div>
+      )
+    }
+
+    if (!onReorder) {
+      return item
+    }
+
+    const isDropTarget = dropTarget?.id === todo.id && draggingId !== todo.id
+
+    return (
+      <div
+        key={todo.id}
+        onDragOver={(e) => {
+          // 只允许在同一分组内拖放
+          if (!draggingId || !section.some((t) => t.id === draggingId)) return
+          e.preventDefault()
+          const rect = e.currentTarget.getBoundingClientRect()
+          const placement = e.clientY < rect.top + rect.height / 2 ? 'before' : 'after'
+          if (dropTarget?.id !== todo.id || dropTarget.placement !== placement) {
+            setDropTarget({ id: todo.id, placement })
+          }
+        }}
+        onDrop={(e) => {
+          e.preventDefault()
+          handleDrop(section)
+        }}
+        onDragEnd={() => {
+          setDraggingId(null)
+          setDropTarget(null)
+        }}
+        className={cn(
+          'flex items-start gap-1 rounded-lg border-y-2 border-transparent',
+          draggingId === todo.id && 'opacity-50',
+          isDropTarget && dropTarget.placement === 'before' && 'border-t-blue-500',
+          isDropTarget && dropTarget.placement === 'after' && 'border-b-blue-500'
+        )}
+      >
+        {/* 只有拖动手柄可拖动，避免影响任务内编辑表单中的文本选择 */}
+        <button
+          type="button"
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = 'move'
+            e.dataTransfer.setData('text/plain', todo.id)
+            if (e.currentTarget.parentElement) {
+              e.dataTransfer.setDragImage(e.currentTarget.parentElement, 0, 0)
+            }
+            setDraggingId(todo.id)
+          }}
+          className="mt-5 flex-shrink-0 cursor-grab rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600 active:cursor-grabbing"
+          aria-label={`调整"${todo.title}"的顺序，当前第 ${index + 1} 位，共 ${section.length} 项。使用上下方向键移动`}
+          onKeyDown={(e) => {
+            switch (e.key) {
+              case 'ArrowUp':
+                e.preventDefault()
+                moveTo(section, todo.id, index - 1)
+                break
+              case 'ArrowDown':
+                e.preventDefault()
+                moveTo(section, todo.id, index + 1)
+                break
+              case 'Home':
+                e.preventDefault()
+                moveTo(section, todo.id, 0)
+                break
+              case 'End':
+                e.preventDefault()
+                moveTo(section, todo.id, section.length - 1)
+                break
+            }
+          }}
+        >
+          <GripVertical className="h-4 w-4" />
+        </button>
+        <div className="min-w-0 flex-1">{item}</div>
+      </div>
+    )
+  }
 
   return (
     <div className="space-y-6">
+      {bulkEnabled &&
+        (selecting ? (
+          <div className="space-y-2">
+            <BulkActionBar
+              count={selected.length}
+              busy={bulkBusy}
+              listId={listId}
+              onComplete={(completed) => runBulk(() => onBulkUpdate!(selected, { completed }))}
+              onDelete={() => runBulk(() => onBulkDelete!(selected))}
+              onUpdate={(updates) => runBulk(() => onBulkUpdate!(selected, updates))}
+              onCancel={exitSelection}
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={() => setSelectedIds(allSelected ? [] : orderedIds)}
+                className="h-4 w-4"
+              />
+              全选当前显示的 {orderedIds.length} 个任务
+            </label>
+          </div>
+        ) : (
+          <div className="flex justify-end">
+            <Button size="sm" variant="outline" onClick={() => setSelecting(true)}>
+              <CheckSquare className="mr-1 h-4 w-4" />
+              选择
+            </Button>
+          </div>
+        ))}
+
       {/* 进行中的任务 */}
       {activeTodos.length > 0 && (
         <div className="space-y-3">
@@ -59,11 +365,7 @@ export const TodoList = React.memo(function TodoList({
             <Clock className="h-4 w-4" />
             进行中 ({activeTodos.length})
           </div>
-          <div className="space-y-3">
-            {activeTodos.map((todo) => (
-              <TodoItem key={todo.id} todo={todo} onUpdate={onUpdate} onDelete={onDelete} />
-            ))}
-          </div>
+          <div className="space-y-3">{activeTodos.map(renderTodo)}</div>
         </div>
       )}
 
@@ -73,14 +375,28 @@ export const TodoList = React.memo(function TodoList({
           <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
             <CheckCircle className="h-4 w-4" />
             已完成 ({completedTodos.length})
+            {onClearCompleted && !selecting && (
+              <button
+                type="button"
+                onClick={() => runBulk(onClearCompleted)}
+                disabled={bulkBusy}
+                className="ml-auto flex items-center gap-1 rounded px-2 py-1 text-xs font-normal text-gray-500 hover:bg-gray-100 hover:text-red-600 disabled:opacity-50"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                清除已完成
+              </button>
+            )}
           </div>
-          <div className="space-y-3">
-            {completedTodos.map((todo) => (
-              <TodoItem key={todo.id} todo={todo} onUpdate={onUpdate} onDelete={onDelete} />
-            ))}
-          </div>
+          <div className="space-y-3">{completedTodos.map(renderTodo)}</div>
         </div>
       )}
+
+      {loadMore}
+
+      {/* 向读屏软件播报键盘排序的结果 */}
+      <div className="sr-only" aria-live="polite">
+        {announcement}
+      </div>
     </div>
   )
 })
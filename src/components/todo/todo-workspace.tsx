@@ -0,0 +1,467 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useAuthStore } from '@/store/auth'
+import { useTodoStore } from '@/store/todos'
+import { useTagStore } from '@/store/tags'
+import { useListStore } from '@/store/lists'
+import { useAttachmentStore } from '@/store/attachments'
+import { ProtectedRoute } from '@/components/auth/protected-route'
+import { Header } from '@/components/layout/header'
+import { ListSidebar } from '@/components/layout/list-sidebar'
+import { TodoForm } from './todo-form'
+import { TodoList } from './todo-list'
+import { TodoFilters } from './todo-filters'
+import { TodoConflictError } from '@/lib/conflicts'
+import { getErrorMessage } from '@/lib/utils'
+import { countTodos } from '@/lib/todo-query'
+import { useToastActions } from '@/components/ui/toast'
+import { getListIcon } from '@/lib/lists'
+import type { BulkResult } from '@/lib/bulk'
+import type { TodoFormData } from '@/lib/validations'
+import type { TodoUpdate } from '@/types'
+
+interface TodoWorkspaceProps {
+  // 未指定时显示收件箱
+  listId?: string
+}
+
+export function TodoWorkspace({ listId }: TodoWorkspaceProps) {
+  const { user } = useAuthStore()
+  const {
+    todos,
+    loading,
+    setListId,
+    filter,
+    sort,
+    order,
+    priorityFilter,
+    tagFilter,
+    tagMatch,
+    search,
+    fetchTodos,
+    fetchMoreTodos,
+    fetchCounts,
+    hasMore,
+    loadingMore,
+    counts,
+    purgeExpiredTodos,
+    addTodo,
+    updateTodo,
+    deleteTodo,
+    bulkUpdateTodos,
+    bulkDeleteTodos,
+    clearCompleted,
+    toggleTodo,
+    moveTodo,
+    setFilter,
+    setSort,
+    setPriorityFilter,
+    setTagFilter,
+    removeTag,
+    setSearch,
+    filteredTodos,
+    subscribeToTodos,
+    online,
+    subscribeToConnectivity,
+    undo,
+    redo,
+  } = useTodoStore()
+  const { tags, fetchTags, subscribeToTags } = useTagStore()
+  const {
+    lists,
+    initialized: listsInitialized,
+    fetchLists,
+    ensureInbox,
+    subscribeToLists,
+  } = useListStore()
+
+  const { fetchAttachments, uploadAttachments, subscribeToAttachments } = useAttachmentStore()
+
+  const [error, setError] = useState<string>('')
+  const toast = useToastActions()
+
+  const currentList = listId
+    ? lists.find((list) => list.id === listId)
+    : lists.find((list) => list.is_inbox)
+  const currentListId = currentList?.id
+  const listNotFound = !!listId && listsInitialized && !currentList
+
+  // 初始化清单、标签和实时订阅
+  useEffect(() => {
+    if (user) {
+      fetchLists()
+        .then(() => ensureInbox(user.id))
+        .catch((err) => {
+          setError(getErrorMessage(err))
+        })
+
+      fetchTags().catch((err) => {
+        setError(getErrorMessage(err))
+      })
+
+      fetchAttachments().catch((err) => {
+        setError(getErrorMessage(err))
+      })
+
+      // 自动清理回收站中超过保留期的任务，失败不影响使用
+      purgeExpiredTodos().catch((err) => {
+        console.error('Error purging trash:', err)
+      })
+
+      // 设置实时订阅
+      const unsubscribeLists = subscribeToLists()
+      const unsubscribeTags = subscribeToTags()
+      const unsubscribeAttachments = subscribeToAttachments()
+      // 监听网络状态，恢复连接后同步离线时的修改
+      const unsubscribeConnectivity = subscribeToConnectivity()
+      return () => {
+        unsubscribeLists()
+        unsubscribeTags()
+        unsubscribeAttachments()
+        unsubscribeConnectivity()
+      }
+    }
+  }, [
+    user,
+    fetchLists,
+    ensureInbox,
+    subscribeToLists,
+    fetchTags,
+    subscribeToTags,
+    fetchAttachments,
+    subscribeToAttachments,
+    purgeExpiredTodos,
+    subscribeToConnectivity,
+  ])
+
+  // 切换到当前清单并订阅任务变化
+  useEffect(() => {
+    if (user && currentListId) {
+      setListId(currentListId)
+
+      const unsubscribe = subscribeToTodos(user.id)
+      return unsubscribe
+    }
+  }, [user, currentListId, setListId, subscribeToTodos])
+
+  // 各过滤条件的任务数只统计符合标签过滤的任务，清单或标签过滤变化后重新统计
+  useEffect(() => {
+    if (user && currentListId) {
+      fetchCounts().catch((err) => {
+        console.error('Error fetching todo counts:', err)
+      })
+    }
+  }, [user, currentListId, tagFilter, tagMatch, fetchCounts])
+
+  // 过滤、排序和搜索在服务器端完成，条件变化后重新加载
+  useEffect(() => {
+    if (user && currentListId) {
+      fetchTodos().catch((err) => {
+        setError(getErrorMessage(err))
+      })
+    }
+  }, [
+    user,
+    currentListId,
+    filter,
+    sort,
+    order,
+    priorityFilter,
+    tagFilter,
+    tagMatch,
+    search,
+    fetchTodos,
+  ])
+
+  // Ctrl/Cmd+Z 撤销，Shift+Ctrl/Cmd+Z 重做；输入框中保留浏览器自带的文本撤销
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== 'z') return
+      const target = e.target as HTMLElement | null
+      if (
+        target &&
+        (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+      ) {
+        return
+      }
+
+      e.preventDefault()
+      const redoing = e.shiftKey
+      ;(redoing ? redo() : undo())
+        .then((entry) => {
+          if (entry) toast.info(redoing ? '已重做' : '已撤销', entry.label)
+        })
+        .catch((err) => {
+          toast.error(redoing ? '重做失败' : '撤销失败', getErrorMessage(err))
+        })
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo, toast])
+
+  const handleLoadMore = useCallback(() => {
+    fetchMoreTodos().catch((err) => {
+      setError(getErrorMessage(err))
+    })
+  }, [fetchMoreTodos])
+
+  // 标签被删除后（包括在其他设备上），清理任务上的关联和过滤条件
+  useEffect(() => {
+    const tagIds = new Set(tags.map((tag) => tag.id))
+    tagFilter.filter((tagId) => !tagIds.has(tagId)).forEach(removeTag)
+  }, [tags, tagFilter, removeTag])
+
+  const handleAddTodo = async (data: TodoFormData, parentId?: string) => {
+    if (!user) return
+
+    try {
+      setError('')
+      const todo = await addTodo(
+        {
+          title: data.title,
+          description: data.description || null,
+          due_at: data.due_at ? new Date(data.due_at).toISOString() : null,
+          priority: data.priority,
+          recurrence_rule: data.recurrence_rule ?? null,
+          parent_id: parentId ?? null,
+          list_id: currentListId,
+          user_id: user.id,
+        },
+        data.tag_ids
+      )
+      toast.success('任务添加成功', '新任务已添加到您的列表中')
+
+      if (data.attachments.length > 0) {
+        // 任务已创建，附件上传失败时单独提示
+        await uploadAttachments(todo, data.attachments).catch((err) => {
+          toast.error('附件上传失败', getErrorMessage(err))
+        })
+      }
+    } catch (err) {
+      const errorMessage = getErrorMessage(err)
+      setError(errorMessage)
+      toast.error('添加任务失败', errorMessage)
+      throw err
+    }
+  }
+
+  const handleUpdateTodo = async (
+    id: string,
+    updates: TodoUpdate,
+    tagIds?: string[],
+    baseUpdatedAt?: string
+  ) => {
+    try {
+      setError('')
+      await updateTodo(id, updates, tagIds, baseUpdatedAt)
+      toast.success('任务更新成功', '任务信息已保存')
+    } catch (err) {
+      // 编辑冲突由 TodoItem 显示冲突对话框处理
+      if (err instanceof TodoConflictError) {
+        throw err
+      }
+      const errorMessage = getErrorMessage(err)
+      setError(errorMessage)
+      toast.error('更新任务失败', errorMessage)
+      throw err
+    }
+  }
+
+  const handleToggleTodo = async (id: string, includeSubtasks?: boolean) => {
+    try {
+      setError('')
+      await toggleTodo(id, includeSubtasks)
+      toast.success('任务更新成功', '任务状态已保存')
+    } catch (err) {
+      const errorMessage = getErrorMessage(err)
+      setError(errorMessage)
+      toast.error('更新任务失败', errorMessage)
+      throw err
+    }
+  }
+
+  const handleDeleteTodo = async (id: string) => {
+    try {
+      setError('')
+      await deleteTodo(id)
+      toast.success('任务已移到回收站', '可以在回收站中恢复')
+    } catch (err) {
+      const errorMessage = getErrorMessage(err)
+      setError(errorMessage)
+      toast.error('删除任务失败', errorMessage)
+      throw err
+    }
+  }
+
+  // 批量操作部分失败时提示失败的数量，成功的修改保留
+  const reportBulkResult = (result: BulkResult, action: string) => {
+    if (result.failed.length > 0) {
+      toast.warning(
+        `部分任务${action}失败`,
+        `${result.succeeded.length} 个成功，${result.failed.length} 个失败（可能已在其他地方删除）`
+      )
+    } else {
+      toast.success(`已${action} ${result.succeeded.length} 个任务`)
+    }
+  }
+
+  const handleBulkUpdate = async (ids: string[], updates: TodoUpdate) => {
+    try {
+      setError('')
+      reportBulkResult(await bulkUpdateTodos(ids, updates), '更新')
+    } catch (err) {
+      const errorMessage = getErrorMessage(err)
+      setError(errorMessage)
+      toast.error('批量更新失败', errorMessage)
+      throw err
+    }
+  }
+
+  const handleBulkDelete = async (ids: string[]) => {
+    try {
+      setError('')
+      reportBulkResult(await bulkDeleteTodos(ids), '删除')
+    } catch (err) {
+      const errorMessage = getErrorMessage(err)
+      setError(errorMessage)
+      toast.error('批量删除失败', errorMessage)
+      throw err
+    }
+  }
+
+  const handleClearCompleted = async () => {
+    try {
+      setError('')
+      const count = await clearCompleted()
+      toast.success('已清除已完成的任务', `${count} 个任务已移到回收站`)
+    } catch (err) {
+      const errorMessage = getErrorMessage(err)
+      setError(errorMessage)
+      toast.error('清除已完成的任务失败', errorMessage)
+      throw err
+    }
+  }
+
+  const handleReorderTodo = async (id: string, prevId: string | null, nextId: string | null) => {
+    try {
+      setError('')
+      await moveTodo(id, prevId, nextId)
+    } catch (err) {
+      const errorMessage = getErrorMessage(err)
+      setError(errorMessage)
+      toast.error('调整顺序失败', errorMessage)
+      throw err
+    }
+  }
+
+  const filtered = filteredTodos()
+  // 任务分页加载，数量以服务器计数为准；离线且尚未获取到计数时按已加载的任务估算
+  const todoCounts = counts ?? countTodos(todos)
+
+  const ListIcon = getListIcon(currentList?.icon ?? 'inbox')
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-6xl mx-auto p-4 sm:p-6 lg:p-8">
+          <Header />
+
+          {!online && (
+            <div className="mb-6 p-4 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md">
+              当前处于离线状态，修改会保存在本地，恢复网络后自动同步。
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-6 p-4 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            {/* 侧边栏：清单切换 */}
+            <aside className="lg:col-span-1">
+              <ListSidebar activeListId={currentListId} />
+            </aside>
+
+            {listNotFound ? (
+              <div className="lg:col-span-3 p-8 text-center text-gray-500">
+                <h2 className="text-lg font-medium mb-2">清单不存在</h2>
+                <p className="text-sm mb-4">该清单可能已被删除。</p>
+                <Link href="/" className="text-blue-600 hover:text-blue-800 underline">
+                  返回收件箱
+                </Link>
+              </div>
+            ) : (
+              <div className="lg:col-span-3 space-y-6">
+                {currentList && (
+                  <div className="flex items-center gap-2">
+                    <ListIcon className="h-6 w-6" style={{ color: currentList.color }} />
+                    <h2 className="text-xl font-semibold text-gray-900">{currentList.name}</h2>
+                    {currentList.archived && (
+                      <span className="rounded-full bg-gray-200 px-2 py-0.5 text-xs text-gray-600">
+                        已归档
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+                  {/* 左侧：添加任务表单和过滤器 */}
+                  <div className="xl:col-span-1 space-y-6">
+                    <TodoForm onSubmit={(data) => handleAddTodo(data)} />
+
+                    <TodoFilters
+                      filter={filter}
+                      sort={sort}
+                      order={order}
+                      priority={priorityFilter}
+                      tags={tags}
+                      tagFilter={tagFilter}
+                      tagMatch={tagMatch}
+                      search={search}
+                      onFilterChange={setFilter}
+                      onSortChange={setSort}
+                      onPriorityChange={setPriorityFilter}
+                      onTagFilterChange={setTagFilter}
+                      onSearchChange={setSearch}
+                      totalCount={todoCounts.all}
+                      activeCount={todoCounts.active}
+                      completedCount={todoCounts.completed}
+                      overdueCount={todoCounts.overdue}
+                      dueTodayCount={todoCounts.due_today}
+                      dueThisWeekCount={todoCounts.due_this_week}
+                    />
+                  </div>
+
+                  {/* 右侧：任务列表 */}
+                  <div className="xl:col-span-2">
+                    <TodoList
+                      todos={filtered}
+                      loading={loading || !currentListId}
+                      hasMore={hasMore}
+                      loadingMore={loadingMore}
+                      onLoadMore={handleLoadMore}
+                      listId={currentListId}
+                      onBulkUpdate={handleBulkUpdate}
+                      onBulkDelete={handleBulkDelete}
+                      onClearCompleted={handleClearCompleted}
+                      onUpdate={handleUpdateTodo}
+                      onDelete={handleDeleteTodo}
+                      onToggle={handleToggleTodo}
+                      onAddSubtask={(parentId, data) => handleAddTodo(data, parentId)}
+                      onReorder={sort === 'manual' ? handleReorderTodo : undefined}
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </ProtectedRoute>
+  )
+}
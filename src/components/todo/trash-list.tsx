@@ -0,0 +1,169 @@
+'use client'
+
+import { useState } from 'react'
+import { useTodoStore } from '@/store/todos'
+import { useListStore } from '@/store/lists'
+import { getDescendantIds } from '@/lib/subtasks'
+import { TRASH_RETENTION_DAYS, getDaysUntilPurge } from '@/lib/trash'
+import { formatRelativeTime, getErrorMessage } from '@/lib/utils'
+import { useToastActions } from '@/components/ui/toast'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { RotateCcw, Trash2, X } from 'lucide-react'
+import type { Todo } from '@/types'
+
+interface TrashRowProps {
+  todo: Todo
+  subtaskCount: number
+  listName?: string
+  onRestore: (todo: Todo) => Promise<void>
+  onDeleteForever: (todo: Todo) => Promise<void>
+}
+
+function TrashRow({ todo, subtaskCount, listName, onRestore, onDeleteForever }: TrashRowProps) {
+  const [loading, setLoading] = useState(false)
+  const daysLeft = getDaysUntilPurge(todo.deleted_at!, TRASH_RETENTION_DAYS)
+
+  const run = async (action: (todo: Todo) => Promise<void>) => {
+    setLoading(true)
+    try {
+      await action(todo)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <li className="flex items-center gap-3 py-3">
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-medium text-gray-900">{todo.title}</p>
+        <p className="text-xs text-gray-500">
+          {listName && <span>{listName} · </span>}
+          删除于 {formatRelativeTime(todo.deleted_at!)}
+          {subtaskCount > 0 && <span> · 含 {subtaskCount} 个子任务</span>}
+          {daysLeft !== null && (
+            <span> · {daysLeft > 0 ? `${daysLeft} 天后自动永久删除` : '即将自动永久删除'}</span>
+          )}
+        </p>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => run(onRestore)}
+        disabled={loading}
+        className="flex items-center gap-1"
+      >
+        <RotateCcw className="h-4 w-4" />
+        恢复
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => run(onDeleteForever)}
+        disabled={loading}
+        className="flex items-center gap-1 text-red-600 hover:bg-red-50 hover:text-red-700"
+      >
+        <X className="h-4 w-4" />
+        永久删除
+      </Button>
+    </li>
+  )
+}
+
+export function TrashList() {
+  const { trash, trashLoading, restoreTodo, deleteTodoForever, emptyTrash } = useTodoStore()
+  const { lists } = useListStore()
+  const toast = useToastActions()
+  const [emptying, setEmptying] = useState(false)
+
+  // 只显示顶层的已删除任务，与父任务一起删除的子任务随父任务恢复或删除
+  const trashIds = new Set(trash.map((todo) => todo.id))
+  const roots = trash.filter((todo) => !todo.parent_id || !trashIds.has(todo.parent_id))
+
+  const handleRestore = async (todo: Todo) => {
+    try {
+      await restoreTodo(todo.id)
+      toast.success('任务已恢复', `"${todo.title}"已放回原清单`)
+    } catch (err) {
+      toast.error('恢复任务失败', getErrorMessage(err))
+    }
+  }
+
+  const handleDeleteForever = async (todo: Todo) => {
+    if (!window.confirm(`确定要永久删除任务"${todo.title}"吗？此操作无法撤销。`)) {
+      return
+    }
+
+    try {
+      await deleteTodoForever(todo.id)
+      toast.success('任务已永久删除')
+    } catch (err) {
+      toast.error('永久删除失败', getErrorMessage(err))
+    }
+  }
+
+  const handleEmpty = async () => {
+    if (!window.confirm(`确定要清空回收站中的 ${trash.length} 个任务吗？此操作无法撤销。`)) {
+      return
+    }
+
+    setEmptying(true)
+    try {
+      await emptyTrash()
+      toast.success('回收站已清空')
+    } catch (err) {
+      toast.error('清空回收站失败', getErrorMessage(err))
+    } finally {
+      setEmptying(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Trash2 className="h-5 w-5" />
+            回收站
+          </CardTitle>
+          {trash.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleEmpty}
+              disabled={emptying}
+              className="text-red-600 hover:bg-red-50 hover:text-red-700"
+            >
+              清空回收站
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-gray-500">
+          {TRASH_RETENTION_DAYS > 0
+            ? `删除的任务会在回收站中保留 ${TRASH_RETENTION_DAYS} 天，之后自动永久删除。`
+            : '删除的任务会一直保留在回收站中，直到手动永久删除。'}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {trashLoading ? (
+          <p className="text-sm text-gray-500">加载中...</p>
+        ) : roots.length === 0 ? (
+          <p className="text-sm text-gray-500">回收站是空的。</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {roots.map((todo) => (
+              <TrashRow
+                key={todo.id}
+                todo={todo}
+                subtaskCount={getDescendantIds(trash, todo.id).length}
+                listName={lists.find((list) => list.id === todo.list_id)?.name}
+                onRestore={handleRestore}
+                onDeleteForever={handleDeleteForever}
+              />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,87 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useAuthStore } from '@/store/auth'
+import { useTodoStore } from '@/store/todos'
+import {
+  DEFAULT_VIEW,
+  buildViewSearch,
+  isSameView,
+  loadSavedView,
+  parseViewParams,
+  pickView,
+  saveView,
+} from '@/lib/view-state'
+import { onTabMessage, postTabMessage } from '@/lib/tab-sync'
+
+// 在 URL 查询参数和任务列表的视图（过滤、排序、搜索）之间双向同步，
+// 记住每个用户上次使用的视图作为默认视图，并将过滤和排序的变化同步到其他标签页
+export function ViewStateSync() {
+  const userId = useAuthStore((state) => state.user?.id)
+  const setView = useTodoStore((state) => state.setView)
+
+  useEffect(() => {
+    if (!userId) return
+
+    const readUrl = () => parseViewParams(new URLSearchParams(window.location.search))
+    const writeUrl = (search: string, push: boolean) => {
+      const url = `${window.location.pathname}${search}${window.location.hash}`
+      if (push) {
+        window.history.pushState(null, '', url)
+      } else {
+        window.history.replaceState(null, '', url)
+      }
+    }
+
+    // 链接中带有视图参数时以链接为准（如别人分享的链接），否则使用该用户上次的视图
+    setView({ ...DEFAULT_VIEW, ...(readUrl() ?? loadSavedView(userId)) })
+    writeUrl(buildViewSearch(window.location.search, pickView(useTodoStore.getState())), false)
+
+    // 正在应用其他标签页发来的视图，不再转发回去
+    let applyingRemote = false
+
+    const unsubscribe = useTodoStore.subscribe((state, previous) => {
+      const view = pickView(state)
+      const previousView = pickView(previous)
+      if (isSameView(view, previousView)) return
+
+      const viewChanged = !isSameView({ ...view, search: previousView.search }, previousView)
+      const search = buildViewSearch(window.location.search, view)
+      if (search !== window.location.search) {
+        // 切换过滤或排序时新增历史记录，可以用浏览器的后退返回；输入搜索词时只替换当前记录。
+        // 跟随其他标签页切换时只替换当前记录
+        writeUrl(search, viewChanged && !applyingRemote)
+      }
+      saveView(userId, view)
+
+      if (viewChanged && !applyingRemote) {
+        const { filter, sort, order } = view
+        postTabMessage({ type: 'view', view: { filter, sort, order } })
+      }
+    })
+
+    const stopListening = onTabMessage((message) => {
+      if (message.type !== 'view') return
+      applyingRemote = true
+      try {
+        setView(message.view)
+      } finally {
+        applyingRemote = false
+      }
+    })
+
+    // 浏览器前进或后退时，按新地址中的参数恢复视图，没有参数的字段使用默认值
+    const handlePopState = () => {
+      setView({ ...DEFAULT_VIEW, ...readUrl() })
+    }
+    window.addEventListener('popstate', handlePopState)
+
+    return () => {
+      unsubscribe()
+      stopListening()
+      window.removeEventListener('popstate', handlePopState)
+    }
+  }, [userId, setView])
+
+  return null
+}
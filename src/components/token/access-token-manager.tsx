@@ -0,0 +1,235 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useAuthStore } from '@/store/auth'
+import { useAccessTokenStore } from '@/store/access-tokens'
+import { accessTokenSchema, type AccessTokenFormData } from '@/lib/validations'
+import {
+  ACCESS_TOKEN_EXPIRY_DAYS,
+  ACCESS_TOKEN_SCOPES,
+  ACCESS_TOKEN_SCOPE_LABELS,
+  getExpiryLabel,
+  isTokenExpired,
+} from '@/lib/access-tokens'
+import { formatDate, formatRelativeTime, getErrorMessage } from '@/lib/utils'
+import { useToastActions } from '@/components/ui/toast'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Copy, KeyRound, Plus, Trash2, X } from 'lucide-react'
+import type { AccessToken } from '@/types'
+
+const selectClassName =
+  'block h-10 rounded-md border border-input bg-background px-3 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50'
+
+interface NewTokenNoticeProps {
+  token: string
+  onDismiss: () => void
+}
+
+// 新令牌的明文只显示这一次
+function NewTokenNotice({ token, onDismiss }: NewTokenNoticeProps) {
+  const toast = useToastActions()
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(token)
+      toast.success('令牌已复制')
+    } catch (err) {
+      toast.error('复制失败', getErrorMessage(err))
+    }
+  }
+
+  return (
+    <div role="status" className="space-y-2 rounded-md border border-green-200 bg-green-50 p-3">
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-sm text-green-900">请立即复制新令牌，离开此页面后将无法再次查看。</p>
+        <Button variant="ghost" size="icon" onClick={onDismiss} aria-label="关闭">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="flex gap-2">
+        <Input readOnly value={token} aria-label="新令牌" className="font-mono text-xs" />
+        <Button type="button" variant="outline" onClick={handleCopy} className="gap-1">
+          <Copy className="h-4 w-4" />
+          复制
+        </Button>
+      </div>
+      <p className="break-all font-mono text-xs text-gray-600">
+        curl -H &quot;Authorization: Bearer {token}&quot; {window.location.origin}/api/v1/todos
+      </p>
+    </div>
+  )
+}
+
+interface TokenRowProps {
+  token: AccessToken
+  onRevoke: (token: AccessToken) => Promise<void>
+}
+
+function TokenRow({ token, onRevoke }: TokenRowProps) {
+  const [loading, setLoading] = useState(false)
+  const expired = isTokenExpired(token)
+
+  const handleRevoke = async () => {
+    setLoading(true)
+    try {
+      await onRevoke(token)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <li className="flex items-start justify-between gap-3 py-3">
+      <div className="min-w-0 space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium text-gray-900">{token.name}</span>
+          <span className="rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-600">
+            {ACCESS_TOKEN_SCOPE_LABELS[token.scope]}
+          </span>
+          {expired && (
+            <span className="rounded bg-red-50 px-1.5 py-0.5 text-xs text-red-600">已过期</span>
+          )}
+        </div>
+        <p className="font-mono text-xs text-gray-500">{token.token_prefix}…</p>
+        <p className="text-xs text-gray-500">
+          创建于 {formatDate(token.created_at)}
+          {' · '}
+          {token.expires_at
+            ? `${expired ? '过期于' : '有效期至'} ${formatDate(token.expires_at)}`
+            : '永不过期'}
+          {' · '}
+          {token.last_used_at ? `最近使用 ${formatRelativeTime(token.last_used_at)}` : '从未使用'}
+        </p>
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={handleRevoke}
+        disabled={loading}
+        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+        aria-label={`撤销令牌 ${token.name}`}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </li>
+  )
+}
+
+export function AccessTokenManager() {
+  const { user } = useAuthStore()
+  const { tokens, loading, createToken, revokeToken } = useAccessTokenStore()
+  const toast = useToastActions()
+  const [newToken, setNewToken] = useState<string | null>(null)
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<AccessTokenFormData>({
+    resolver: zodResolver(accessTokenSchema),
+    defaultValues: { name: '', scope: 'read', expires_in: 30 },
+  })
+
+  const handleCreate = async (data: AccessTokenFormData) => {
+    if (!user) return
+
+    try {
+      setNewToken(await createToken(user.id, data))
+      reset()
+    } catch (err) {
+      toast.error('创建令牌失败', getErrorMessage(err))
+    }
+  }
+
+  const handleRevoke = async (token: AccessToken) => {
+    if (!window.confirm(`确定要撤销令牌"${token.name}"吗？使用该令牌的脚本将无法再访问。`)) {
+      return
+    }
+
+    try {
+      await revokeToken(token.id)
+      toast.success('令牌已撤销')
+    } catch (err) {
+      toast.error('撤销令牌失败', getErrorMessage(err))
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          访问令牌
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          脚本和 CI 可以在请求头中携带 <code>Authorization: Bearer 令牌</code> 调用 REST API，
+          以您的身份访问任务。
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {newToken && <NewTokenNotice token={newToken} onDismiss={() => setNewToken(null)} />}
+
+        <form onSubmit={handleSubmit(handleCreate)} className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="token-name">名称</Label>
+            <Input
+              id="token-name"
+              placeholder="例如：部署脚本"
+              {...register('name')}
+              aria-invalid={errors.name ? 'true' : 'false'}
+            />
+          </div>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="token-scope">权限</Label>
+              <select id="token-scope" className={selectClassName} {...register('scope')}>
+                {ACCESS_TOKEN_SCOPES.map((scope) => (
+                  <option key={scope} value={scope}>
+                    {ACCESS_TOKEN_SCOPE_LABELS[scope]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="token-expiry">有效期</Label>
+              <select id="token-expiry" className={selectClassName} {...register('expires_in')}>
+                {ACCESS_TOKEN_EXPIRY_DAYS.map((days) => (
+                  <option key={days} value={days}>
+                    {getExpiryLabel(days)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Button type="submit" disabled={isSubmitting} className="flex items-center gap-1">
+              <Plus className="h-4 w-4" />
+              创建令牌
+            </Button>
+          </div>
+          {errors.name && (
+            <p className="text-sm text-red-600" role="alert">
+              {errors.name.message}
+            </p>
+          )}
+        </form>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">加载中...</p>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-gray-500">还没有访问令牌。</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {tokens.map((token) => (
+              <TokenRow key={token.id} token={token} onRevoke={handleRevoke} />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
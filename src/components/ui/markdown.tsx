@@ -0,0 +1,137 @@
+import * as React from 'react'
+import { parseMarkdown, type BlockNode, type InlineNode } from '@/lib/markdown'
+import { cn } from '@/lib/utils'
+
+interface MarkdownProps {
+  source: string
+  className?: string
+  // 提供时任务列表的复选框可点击，参数为该项在原文中的行号和新的勾选状态
+  onToggleTask?: (line: number, checked: boolean) => void
+  disabled?: boolean
+}
+
+const HEADING_STYLES = [
+  'text-lg font-semibold',
+  'text-base font-semibold',
+  'text-sm font-semibold',
+  'text-sm font-medium',
+  'text-sm font-medium',
+  'text-sm font-medium',
+]
+
+function renderInline(nodes: InlineNode[]): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text
+      case 'break':
+        return <br key={index} />
+      case 'code':
+        return (
+          <code key={index} className="rounded bg-gray-100 px-1 py-0.5 font-mono text-[0.85em]">
+            {node.text}
+          </code>
+        )
+      case 'strong':
+        return (
+          <strong key={index} className="font-semibold">
+            {renderInline(node.children)}
+          </strong>
+        )
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>
+      case 'del':
+        return <del key={index}>{renderInline(node.children)}</del>
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-blue-600 underline hover:text-blue-800"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {renderInline(node.children)}
+          </a>
+        )
+    }
+  })
+}
+
+export function Markdown({ source, className, onToggleTask, disabled }: MarkdownProps) {
+  const renderBlocks = (blocks: BlockNode[]): React.ReactNode[] =>
+    blocks.map((block, index) => {
+      switch (block.type) {
+        case 'heading': {
+          const Heading = `h${block.level}` as 'h1'
+          return (
+            <Heading key={index} className={HEADING_STYLES[block.level - 1]}>
+              {renderInline(block.children)}
+            </Heading>
+          )
+        }
+        case 'paragraph':
+          return <p key={index}>{renderInline(block.children)}</p>
+        case 'code':
+          return (
+            <pre
+              key={index}
+              className="overflow-x-auto rounded-md bg-gray-100 p-3 font-mono text-xs leading-relaxed"
+              data-lang={block.lang || undefined}
+            >
+              <code>{block.text}</code>
+            </pre>
+          )
+        case 'blockquote':
+          return (
+            <blockquote key={index} className="space-y-2 border-l-4 border-gray-200 pl-3">
+              {renderBlocks(block.children)}
+            </blockquote>
+          )
+        case 'hr':
+          return <hr key={index} className="border-gray-200" />
+        case 'list': {
+          const List = block.ordered ? 'ol' : 'ul'
+          const isTaskList = block.items.some((item) => item.checked !== null)
+          return (
+            <List
+              key={index}
+              start={block.ordered && block.start !== 1 ? block.start : undefined}
+              className={cn(
+                'space-y-1 pl-5',
+                block.ordered ? 'list-decimal' : 'list-disc',
+                isTaskList && 'list-none pl-0'
+              )}
+            >
+              {block.items.map((item) => (
+                <li
+                  key={item.line}
+                  className={cn(item.checked !== null && 'flex items-start gap-2')}
+                >
+                  {item.checked !== null && (
+                    <input
+                      type="checkbox"
+                      className="mt-1 h-3.5 w-3.5 flex-shrink-0"
+                      checked={item.checked}
+                      disabled={!onToggleTask || disabled}
+                      onChange={(e) => onToggleTask?.(item.line, e.target.checked)}
+                    />
+                  )}
+                  <span className={cn(item.checked && 'text-gray-400 line-through')}>
+                    {renderInline(item.children)}
+                  </span>
+                </li>
+              ))}
+            </List>
+          )
+        }
+      }
+    })
+
+  return (
+    <div className={cn('space-y-2 break-words text-sm', className)}>
+      {renderBlocks(parseMarkdown(source))}
+    </div>
+  )
+}
@@ -0,0 +1,431 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useAuthStore } from '@/store/auth'
+import { useWebhookStore } from '@/store/webhooks'
+import { webhookSchema, type WebhookFormData } from '@/lib/validations'
+import {
+  WEBHOOK_DELIVERY_STATUS_LABELS,
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_LABELS,
+  WEBHOOK_SIGNATURE_HEADER,
+  generateWebhookSecret,
+} from '@/lib/webhooks'
+import { cn, formatDate, formatRelativeTime, getErrorMessage } from '@/lib/utils'
+import { useToastActions } from '@/components/ui/toast'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  Plus,
+  RefreshCw,
+  RotateCcw,
+  Send,
+  Trash2,
+  Webhook as WebhookIcon,
+} from 'lucide-react'
+import type { Webhook, WebhookDelivery } from '@/types'
+
+const DELIVERY_STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  pending: 'bg-yellow-50 text-yellow-700',
+  succeeded: 'bg-green-50 text-green-700',
+  failed: 'bg-red-50 text-red-600',
+}
+
+interface DeliveryLogProps {
+  webhook: Webhook
+}
+
+// 最近的投递记录，可重新投递任一记录
+function DeliveryLog({ webhook }: DeliveryLogProps) {
+  const { deliveries, fetchDeliveries, redeliver } = useWebhookStore()
+  const toast = useToastActions()
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null)
+  const items = deliveries[webhook.id] || []
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    setError('')
+    try {
+      await fetchDeliveries(webhook.id)
+    } catch (err) {
+      setError(getErrorMessage(err))
+    } finally {
+      setLoading(false)
+    }
+  }, [webhook.id, fetchDeliveries])
+
+  // 展开时加载，之后通过刷新按钮更新
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setRedeliveringId(delivery.id)
+    try {
+      const result = await redeliver(delivery)
+      if (result.status === 'succeeded') {
+        toast.success('重新投递成功')
+      } else {
+        toast.error('重新投递失败', result.error ?? undefined)
+      }
+    } catch (err) {
+      toast.error('重新投递失败', getErrorMessage(err))
+    } finally {
+      setRedeliveringId(null)
+    }
+  }
+
+  return (
+    <div className="mt-3 rounded-md border border-gray-200 bg-gray-50 p-3">
+      <div className="mb-2 flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-700">最近投递</h4>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={refresh}
+          disabled={loading}
+          className="gap-1"
+          aria-label="刷新投递记录"
+        >
+          <RefreshCw className={cn('h-4 w-4', loading && 'animate-spin')} />
+        </Button>
+      </div>
+
+      {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500">{loading ? '加载中...' : '还没有投递记录。'}</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {items.map((delivery) => (
+            <li key={delivery.id} className="flex items-start justify-between gap-3 py-2">
+              <div className="min-w-0 space-y-0.5 text-xs">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-gray-900">
+                    {WEBHOOK_EVENT_LABELS[delivery.event]}
+                  </span>
+                  <span
+                    className={cn('rounded px-1.5 py-0.5', DELIVERY_STATUS_STYLES[delivery.status])}
+                  >
+                    {WEBHOOK_DELIVERY_STATUS_LABELS[delivery.status]}
+                  </span>
+                  {delivery.response_status !== null && (
+                    <span className="font-mono text-gray-600">HTTP {delivery.response_status}</span>
+                  )}
+                </div>
+                <p className="text-gray-500" title={formatDate(delivery.created_at)}>
+                  {formatRelativeTime(delivery.created_at)}
+                  {' · '}
+                  尝试 {delivery.attempts} 次
+                  {delivery.status === 'pending' &&
+                    delivery.attempts > 0 &&
+                    ` · 将于 ${formatDate(delivery.next_attempt_at)} 重试`}
+                </p>
+                {delivery.error && <p className="break-all text-red-600">{delivery.error}</p>}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRedeliver(delivery)}
+                disabled={redeliveringId !== null}
+                className="shrink-0 gap-1"
+              >
+                <RotateCcw className="h-3.5 w-3.5" />
+                重新投递
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+interface WebhookRowProps {
+  webhook: Webhook
+  onDelete: (webhook: Webhook) => Promise<void>
+}
+
+function WebhookRow({ webhook, onDelete }: WebhookRowProps) {
+  const { updateWebhook, sendTest } = useWebhookStore()
+  const toast = useToastActions()
+  const [expanded, setExpanded] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  const run = async (action: () => Promise<void>) => {
+    setLoading(true)
+    try {
+      await action()
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleToggleActive = () =>
+    run(async () => {
+      try {
+        await updateWebhook(webhook.id, { active: !webhook.active })
+      } catch (err) {
+        toast.error('更新 Webhook 失败', getErrorMessage(err))
+      }
+    })
+
+  const handleTest = () =>
+    run(async () => {
+      try {
+        const delivery = await sendTest(webhook.id)
+        if (delivery.status === 'succeeded') {
+          toast.success('测试请求发送成功')
+        } else {
+          toast.error('测试请求发送失败', delivery.error ?? undefined)
+        }
+        setExpanded(true)
+      } catch (err) {
+        toast.error('发送测试请求失败', getErrorMessage(err))
+      }
+    })
+
+  const handleCopySecret = async () => {
+    try {
+      await navigator.clipboard.writeText(webhook.secret)
+      toast.success('签名密钥已复制')
+    } catch (err) {
+      toast.error('复制失败', getErrorMessage(err))
+    }
+  }
+
+  return (
+    <li className="py-3">
+      <div className="flex items-start justify-between gap-3">
+        <button
+          type="button"
+          onClick={() => setExpanded((value) => !value)}
+          className="flex min-w-0 items-start gap-1 text-left"
+          aria-expanded={expanded}
+        >
+          {expanded ? (
+            <ChevronDown className="mt-0.5 h-4 w-4 shrink-0 text-gray-400" />
+          ) : (
+            <ChevronRight className="mt-0.5 h-4 w-4 shrink-0 text-gray-400" />
+          )}
+          <span className="min-w-0 space-y-1">
+            <span className="flex flex-wrap items-center gap-2">
+              <span className="break-all font-mono text-sm text-gray-900">{webhook.url}</span>
+              {!webhook.active && (
+                <span className="rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-600">
+                  已停用
+                </span>
+              )}
+            </span>
+            <span className="block text-xs text-gray-500">
+              {webhook.events.map((event) => WEBHOOK_EVENT_LABELS[event]).join('、')}
+            </span>
+          </span>
+        </button>
+
+        <div className="flex shrink-0 items-center gap-1">
+          <Button variant="outline" size="sm" onClick={handleToggleActive} disabled={loading}>
+            {webhook.active ? '停用' : '启用'}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleTest}
+            disabled={loading}
+            aria-label={`发送测试请求到 ${webhook.url}`}
+            title="发送测试"
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={handleCopySecret}
+            aria-label="复制签名密钥"
+            title="复制签名密钥"
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => run(() => onDelete(webhook))}
+            disabled={loading}
+            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            aria-label={`删除 Webhook ${webhook.url}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {expanded && <DeliveryLog webhook={webhook} />}
+    </li>
+  )
+}
+
+export function WebhookManager() {
+  const { user } = useAuthStore()
+  const { webhooks, loading, createWebhook, deleteWebhook } = useWebhookStore()
+  const toast = useToastActions()
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    getValues,
+    formState: { errors, isSubmitting },
+  } = useForm<WebhookFormData>({
+    resolver: zodResolver(webhookSchema),
+    defaultValues: { url: '', events: [...WEBHOOK_EVENTS], secret: '' },
+  })
+
+  // 密钥在浏览器中生成，避免服务端渲染和客户端的随机值不一致
+  useEffect(() => {
+    setValue('secret', generateWebhookSecret())
+  }, [setValue])
+
+  const handleCreate = async (data: WebhookFormData) => {
+    if (!user) return
+
+    try {
+      await createWebhook(user.id, data)
+      reset({ url: '', events: [...WEBHOOK_EVENTS], secret: generateWebhookSecret() })
+      toast.success('Webhook 已添加', '可以发送测试请求检查接收端')
+    } catch (err) {
+      toast.error('添加 Webhook 失败', getErrorMessage(err))
+    }
+  }
+
+  const handleCopySecret = async () => {
+    try {
+      await navigator.clipboard.writeText(getValues('secret'))
+      toast.success('签名密钥已复制')
+    } catch (err) {
+      toast.error('复制失败', getErrorMessage(err))
+    }
+  }
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!window.confirm(`确定要删除发送到"${webhook.url}"的 Webhook 吗？投递记录将一并删除。`)) {
+      return
+    }
+
+    try {
+      await deleteWebhook(webhook.id)
+      toast.success('Webhook 已删除')
+    } catch (err) {
+      toast.error('删除 Webhook 失败', getErrorMessage(err))
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <WebhookIcon className="h-5 w-5" />
+          Webhook
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          任务发生变化时向指定地址发送 JSON 请求。请求头 <code>{WEBHOOK_SIGNATURE_HEADER}</code>{' '}
+          中带有使用签名密钥计算的 HMAC-SHA256 签名，失败时会自动重试。
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSubmit(handleCreate)} className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="webhook-url">地址</Label>
+            <Input
+              id="webhook-url"
+              type="url"
+              placeholder="https://example.com/webhooks/todolist"
+              {...register('url')}
+              aria-invalid={errors.url ? 'true' : 'false'}
+            />
+          </div>
+
+          <fieldset className="space-y-1">
+            <legend className="text-sm font-medium">事件</legend>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {WEBHOOK_EVENTS.map((event) => (
+                <label key={event} className="flex items-center gap-1.5 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    value={event}
+                    {...register('events')}
+                    className="h-4 w-4 rounded border-gray-300"
+                  />
+                  {WEBHOOK_EVENT_LABELS[event]}
+                  <span className="font-mono text-xs text-gray-400">{event}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <div className="space-y-1">
+            <Label htmlFor="webhook-secret">签名密钥</Label>
+            <div className="flex gap-2">
+              <Input
+                id="webhook-secret"
+                className="font-mono text-xs"
+                {...register('secret')}
+                aria-invalid={errors.secret ? 'true' : 'false'}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={handleCopySecret}
+                aria-label="复制签名密钥"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={() => setValue('secret', generateWebhookSecret())}
+                aria-label="重新生成签名密钥"
+              >
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {(errors.url || errors.events || errors.secret) && (
+            <p className="text-sm text-red-600" role="alert">
+              {errors.url?.message || errors.events?.message || errors.secret?.message}
+            </p>
+          )}
+
+          <Button type="submit" disabled={isSubmitting} className="flex items-center gap-1">
+            <Plus className="h-4 w-4" />
+            添加 Webhook
+          </Button>
+        </form>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">加载中...</p>
+        ) : webhooks.length === 0 ? (
+          <p className="text-sm text-gray-500">还没有 Webhook。</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {webhooks.map((webhook) => (
+              <WebhookRow key={webhook.id} webhook={webhook} onDelete={handleDelete} />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
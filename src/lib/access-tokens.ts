@@ -0,0 +1,95 @@
+import { toBase64Url } from '@/lib/utils'
+import type { AccessToken, AccessTokenScope } from '@/types'
+
+// 令牌的固定前缀，便于辨认令牌以及密钥扫描工具发现泄露的令牌
+export const ACCESS_TOKEN_PREFIX = 'tdl_'
+
+export const ACCESS_TOKEN_SCOPES = ['read', 'write'] as const satisfies readonly AccessTokenScope[]
+
+export const ACCESS_TOKEN_SCOPE_LABELS: Record<AccessTokenScope, string> = {
+  read: '只读',
+  write: '读写',
+}
+
+// 有效期选项（天），0 表示永不过期
+export const ACCESS_TOKEN_EXPIRY_DAYS = [7, 30, 90, 365, 0] as const
+
+export type AccessTokenExpiry = (typeof ACCESS_TOKEN_EXPIRY_DAYS)[number]
+
+export function getExpiryLabel(days: AccessTokenExpiry): string {
+  return days === 0 ? '永不过期' : `${days} 天`
+}
+
+// 以访问令牌签发的数据库 JWT 的有效期（秒），只用于处理一次请求
+const SESSION_TTL = 60
+
+// 列表中显示的令牌开头部分：前缀加随机部分的前几个字符
+const DISPLAY_LENGTH = ACCESS_TOKEN_PREFIX.length + 6
+
+const TOKEN_PATTERN = new RegExp(`^${ACCESS_TOKEN_PREFIX}[A-Za-z0-9_-]{43}$`)
+
+// 生成新的令牌：前缀加 32 字节随机数
+export function generateAccessToken(): string {
+  return ACCESS_TOKEN_PREFIX + toBase64Url(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+export function isAccessToken(value: string): boolean {
+  return TOKEN_PATTERN.test(value)
+}
+
+// 令牌本身是高熵的随机数，SHA-256 哈希足以防止数据库泄露后被还原
+export async function hashAccessToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export function getTokenPrefix(token: string): string {
+  return token.slice(0, DISPLAY_LENGTH)
+}
+
+// days 为 0 时永不过期
+export function getExpiresAt(days: number, now: Date = new Date()): string | null {
+  if (days === 0) return null
+  return new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString()
+}
+
+export function isTokenExpired(
+  token: Pick<AccessToken, 'expires_at'>,
+  now: Date = new Date()
+): boolean {
+  return !!token.expires_at && new Date(token.expires_at) <= now
+}
+
+// 读写令牌可以执行所有请求，只读令牌只能执行读取请求
+export function hasScope(scope: AccessTokenScope, required: AccessTokenScope): boolean {
+  return required === 'read' || scope === 'write'
+}
+
+// 为令牌所有者签发短期的数据库 JWT（HS256），数据库以该用户身份执行查询，行级安全策略照常生效
+export async function signUserJwt(
+  userId: string,
+  secret: string,
+  now: Date = new Date()
+): Promise<string> {
+  const encoder = new TextEncoder()
+  const encode = (value: object) => toBase64Url(encoder.encode(JSON.stringify(value)))
+  const issuedAt = Math.floor(now.getTime() / 1000)
+
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({
+    sub: userId,
+    role: 'authenticated',
+    aud: 'authenticated',
+    iat: issuedAt,
+    exp: issuedAt + SESSION_TTL,
+  })}`
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(input))
+  return `${input}.${toBase64Url(new Uint8Array(signature))}`
+}
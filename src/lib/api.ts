@@ -0,0 +1,136 @@
+import { NextResponse } from 'next/server'
+import { z, ZodError, type ZodType, type ZodTypeDef } from 'zod'
+import { hasScope } from '@/lib/access-tokens'
+import { createClient, createClientForAccessToken } from '@/lib/supabase/server'
+import type { AccessTokenScope, ApiResponse } from '@/types'
+
+// REST API 的请求错误，status 为返回的 HTTP 状态码
+export class ApiError extends Error {
+  readonly status: number
+
+  constructor(status: number, message: string) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+  }
+}
+
+// 数据库错误码对应的状态码和提示，其余错误视为服务器错误
+const DATABASE_ERRORS: Record<string, [status: number, message: string]> = {
+  // 查询单条记录时没有结果
+  PGRST116: [404, '任务不存在'],
+  // 触发器中抛出的异常，如清单不属于当前用户
+  P0001: [400, ''],
+  '22P02': [400, '请求参数格式无效'],
+  '23503': [400, '引用的清单或任务不存在'],
+  '23514': [400, '字段值不符合要求'],
+  '42501': [403, '没有权限执行该操作'],
+}
+
+export function apiSuccess<T>(data: T, status = 200, message?: string) {
+  return NextResponse.json<ApiResponse<T>>({ data, message }, { status })
+}
+
+export function apiFailure(status: number, error: string, message?: string) {
+  return NextResponse.json<ApiResponse<never>>({ error, message }, { status })
+}
+
+// 将处理请求时抛出的错误转换为统一格式的响应
+export function handleApiError(error: unknown): NextResponse<ApiResponse<never>> {
+  if (error instanceof ApiError) {
+    return apiFailure(error.status, error.message)
+  }
+
+  if (error instanceof ZodError) {
+    const issue = error.issues[0]
+    return apiFailure(
+      400,
+      issue?.message ?? '请求参数无效',
+      issue && issue.path.length > 0 ? `字段：${issue.path.join('.')}` : undefined
+    )
+  }
+
+  if (typeof error === 'object' && error !== null && 'code' in error) {
+    const mapped = DATABASE_ERRORS[String(error.code)]
+    if (mapped) {
+      const [status, message] = mapped
+      return apiFailure(status, message || String((error as { message?: string }).message))
+    }
+  }
+
+  console.error('Error handling API request:', error)
+  return apiFailure(500, '服务器内部错误')
+}
+
+// 读取并校验 JSON 请求体
+export async function parseBody<T>(
+  request: Request,
+  schema: ZodType<T, ZodTypeDef, unknown>
+): Promise<T> {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    throw new ApiError(400, '请求体不是有效的 JSON')
+  }
+  return schema.parse(body)
+}
+
+// 校验查询参数，未提供的参数使用默认值
+export function parseQuery<T>(params: URLSearchParams, schema: ZodType<T, ZodTypeDef, unknown>): T {
+  return schema.parse(Object.fromEntries(params))
+}
+
+// 读取路由中的记录 id，无效的 id 不可能对应任何记录，返回 404
+export async function parseRouteId(
+  params: Promise<{ id: string }>,
+  notFoundMessage: string
+): Promise<string> {
+  const { id } = await params
+  if (!z.string().uuid().safeParse(id).success) {
+    throw new ApiError(404, notFoundMessage)
+  }
+  return id
+}
+
+export type ApiClient = Awaited<ReturnType<typeof createClient>>
+
+export interface ApiContext {
+  supabase: ApiClient
+  userId: string
+}
+
+// 认证请求：带有 Authorization: Bearer 个人访问令牌时以令牌所有者的身份处理，否则使用浏览器的登录会话。
+// required 为请求需要的权限，只读令牌不能执行修改
+export async function authenticate(
+  request: Request,
+  required: AccessTokenScope
+): Promise<ApiContext> {
+  const authorization = request.headers.get('authorization')
+  if (authorization) {
+    const [scheme, token] = authorization.split(' ')
+    if (scheme.toLowerCase() !== 'bearer' || !token) {
+      throw new ApiError(401, '无效的认证信息')
+    }
+
+    const session = await createClientForAccessToken(token)
+    if (!session) {
+      throw new ApiError(401, '访问令牌无效或已过期')
+    }
+    if (!hasScope(session.scope, required)) {
+      throw new ApiError(403, '该访问令牌只有读取权限')
+    }
+    return { supabase: session.client, userId: session.userId }
+  }
+
+  const supabase = await createClient()
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser()
+
+  if (error || !user) {
+    throw new ApiError(401, '未登录或登录已过期')
+  }
+  return { supabase, userId: user.id }
+}
@@ -0,0 +1,48 @@
+// 附件存储桶及限制，需与 supabase/migrations/010_attachments.sql 保持一致
+export const ATTACHMENT_BUCKET = 'attachments'
+export const ATTACHMENT_MAX_SIZE = 10 * 1024 * 1024
+export const ATTACHMENT_MAX_COUNT = 10
+
+export const ATTACHMENT_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'application/zip',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+] as const
+
+// 供文件选择框的 accept 属性使用
+export const ATTACHMENT_ACCEPT = ATTACHMENT_MIME_TYPES.join(',')
+
+export function isImageType(mimeType: string): boolean {
+  return mimeType.startsWith('image/')
+}
+
+// 浏览器可以直接预览的类型
+export function isPreviewable(mimeType: string): boolean {
+  return isImageType(mimeType) || mimeType === 'application/pdf' || mimeType === 'text/plain'
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * 生成附件在存储桶中的路径：<user_id>/<todo_id>/<随机 id>.<扩展名>
+ * 存储路径不支持中文等字符，原始文件名单独保存在 attachments 表中。
+ */
+export function buildStoragePath(userId: string, todoId: string, fileName: string): string {
+  const extension = fileName.match(/\.([a-zA-Z0-9]{1,10})$/)?.[1]?.toLowerCase()
+  const id = crypto.randomUUID()
+  return `${userId}/${todoId}/${extension ? `${id}.${extension}` : id}`
+}
@@ -0,0 +1,584 @@
+import { importRowSchema, todoSchema, type ImportRowData } from '@/lib/validations'
+import type { List, PriorityLevel, Tag, Todo, TodoTag } from '@/types'
+
+// 数据备份：导出为带版本号的 JSON 或 CSV，导入时校验每一行并生成导入计划
+
+export const BACKUP_FORMAT = 'todolist-backup'
+
+// 备份格式的版本，格式变化时递增，导入时据此兼容旧版本的备份
+export const BACKUP_VERSION = 1
+
+// 每次写入数据库的任务数
+export const IMPORT_BATCH_SIZE = 50
+
+export const IMPORT_MODES = ['merge', 'replace'] as const
+
+export type ImportMode = (typeof IMPORT_MODES)[number]
+
+export const IMPORT_MODE_LABELS: Record<ImportMode, string> = {
+  merge: '合并：保留现有任务，跳过重复的任务',
+  replace: '替换：先将现有任务移到回收站',
+}
+
+export type BackupList = Pick<List, 'id' | 'name' | 'color' | 'icon' | 'archived' | 'is_inbox'>
+
+export type BackupTag = Pick<Tag, 'id' | 'name' | 'color'>
+
+export type BackupTodo = Pick<
+  Todo,
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'completed'
+  | 'priority'
+  | 'due_at'
+  | 'parent_id'
+  | 'list_id'
+  | 'recurrence_rule'
+  | 'recurrence_series_id'
+  | 'recurrence_index'
+  | 'position'
+  | 'created_at'
+  | 'updated_at'
+> & { tag_ids: string[] }
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT
+  version: number
+  exported_at: string
+  lists: BackupList[]
+  tags: BackupTag[]
+  todos: BackupTodo[]
+}
+
+export interface BackupData {
+  lists: List[]
+  tags: Tag[]
+  // 回收站以外的任务
+  todos: Todo[]
+  todoTags: Pick<TodoTag, 'todo_id' | 'tag_id'>[]
+}
+
+export function buildBackup(
+  { lists, tags, todos, todoTags }: BackupData,
+  now: Date = new Date()
+): Backup {
+  const tagIds = new Map<string, string[]>()
+  for (const { todo_id, tag_id } of todoTags) {
+    tagIds.set(todo_id, [...(tagIds.get(todo_id) || []), tag_id])
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: now.toISOString(),
+    lists: lists.map(({ id, name, color, icon, archived, is_inbox }) => ({
+      id,
+      name,
+      color,
+      icon,
+      archived,
+      is_inbox,
+    })),
+    tags: tags.map(({ id, name, color }) => ({ id, name, color })),
+    todos: todos.map((todo) => ({
+      id: todo.id,
+      title: todo.title,
+      description: todo.description,
+      completed: todo.completed,
+      priority: todo.priority,
+      due_at: todo.due_at,
+      parent_id: todo.parent_id,
+      list_id: todo.list_id,
+      recurrence_rule: todo.recurrence_rule,
+      recurrence_series_id: todo.recurrence_series_id,
+      recurrence_index: todo.recurrence_index,
+      position: todo.position,
+      created_at: todo.created_at,
+      updated_at: todo.updated_at,
+      tag_ids: tagIds.get(todo.id) || [],
+    })),
+  }
+}
+
+// 导出文件名，如 todolist-2024-05-01.json
+export function getBackupFileName(extension: 'json' | 'csv', now: Date = new Date()): string {
+  const date = [now.getFullYear(), now.getMonth() + 1, now.getDate()]
+    .map((part) => String(part).padStart(2, '0'))
+    .join('-')
+  return `todolist-${date}.${extension}`
+}
+
+// CSV 的列，清单为空表示收件箱，多个标签以分号分隔
+export const CSV_COLUMNS = [
+  'id',
+  'parent_id',
+  'title',
+  'description',
+  'completed',
+  'priority',
+  'due_at',
+  'list',
+  'tags',
+  'recurrence_rule',
+  'created_at',
+] as const
+
+const CSV_TAG_SEPARATOR = ';'
+
+// 表格软件会把以这些字符开头的单元格当作公式执行。导出时在前面加一个单引号，
+// 本来就以单引号开头的也再加一个，导入时去掉一个即可还原
+const CSV_FORMULA_PATTERN = /^'*[=+\-@\t\r]/
+
+function escapeCsvCell(value: string): string {
+  const cell = CSV_FORMULA_PATTERN.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell
+}
+
+function unescapeCsvCell(value: string): string {
+  return /^'+[=+\-@\t\r]/.test(value) ? value.slice(1) : value
+}
+
+// 生成 CSV 文本（RFC 4180），开头加 BOM 以便 Excel 正确识别 UTF-8
+export function formatCsv(rows: string[][]): string {
+  return '\uFEFF' + rows.map((row) => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+export interface CsvRecord {
+  // 记录开始的行号（从 1 开始）。引号中的换行使一条记录跨越多行
+  line: number
+  cells: string[]
+}
+
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = []
+  let record: CsvRecord = { line: 1, cells: [] }
+  let cell = ''
+  let quoted = false
+  let line = 1
+
+  const input = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) {
+      line++
+    }
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      record.cells.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++
+        line++
+      }
+      record.cells.push(cell)
+      records.push(record)
+      record = { line, cells: [] }
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell || record.cells.length > 0) {
+    record.cells.push(cell)
+    records.push(record)
+  }
+  // 忽略空行
+  return records.filter(({ cells }) => cells.some((value) => value !== ''))
+}
+
+export function backupToCsv(backup: Backup): string {
+  const lists = new Map(backup.lists.map((list) => [list.id, list]))
+  const tags = new Map(backup.tags.map((tag) => [tag.id, tag.name]))
+
+  return formatCsv([
+    [...CSV_COLUMNS],
+    ...backup.todos.map((todo) => {
+      const list = lists.get(todo.list_id)
+      return [
+        todo.id,
+        todo.parent_id ?? '',
+        todo.title,
+        todo.description ?? '',
+        String(todo.completed),
+        todo.priority,
+        todo.due_at ?? '',
+        list && !list.is_inbox ? list.name : '',
+        todo.tag_ids
+          .map((tagId) => tags.get(tagId))
+          .filter(Boolean)
+          .join(CSV_TAG_SEPARATOR),
+        todo.recurrence_rule ?? '',
+        todo.created_at,
+      ]
+    }),
+  ])
+}
+
+// 导入文件中的一个任务，JSON 和 CSV 读取后统一为这种形式，字段尚未校验
+export interface RawImportRow {
+  // JSON 中为第几个任务，CSV 中为行号（表头为第 1 行）
+  line: number
+  values: Record<string, unknown>
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function parseJsonBackup(text: string): RawImportRow[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('文件不是有效的 JSON')
+  }
+
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT || !Array.isArray(data.todos)) {
+    throw new Error('文件不是本应用导出的备份')
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error(`不支持的备份版本：${String(data.version)}，请升级应用后再导入`)
+  }
+
+  const lists = new Map<unknown, Record<string, unknown>>()
+  for (const list of Array.isArray(data.lists) ? data.lists : []) {
+    if (isRecord(list)) lists.set(list.id, list)
+  }
+  const tags = new Map<unknown, Record<string, unknown>>()
+  for (const tag of Array.isArray(data.tags) ? data.tags : []) {
+    if (isRecord(tag)) tags.set(tag.id, tag)
+  }
+
+  return data.todos.map((todo: unknown, index: number) => {
+    const values = isRecord(todo) ? todo : {}
+    // 收件箱和备份中不存在的清单都导入到收件箱
+    const list = lists.get(values.list_id)
+    const tagIds = Array.isArray(values.tag_ids) ? values.tag_ids : []
+
+    return {
+      line: index + 1,
+      values: {
+        ...values,
+        list:
+          list && !list.is_inbox ? { name: list.name, color: list.color, icon: list.icon } : null,
+        tags: tagIds
+          .map((tagId) => tags.get(tagId))
+          .filter(Boolean)
+          .map((tag) => ({ name: tag?.name, color: tag?.color })),
+      },
+    }
+  })
+}
+
+function parseCompleted(value: string): boolean | string {
+  const normalized = value.trim().toLowerCase()
+  if (normalized === 'true' || normalized === '1') return true
+  if (normalized === 'false' || normalized === '0' || normalized === '') return false
+  return value
+}
+
+function parseCsvBackup(text: string): RawImportRow[] {
+  const [header, ...records] = parseCsv(text)
+  const columns = (header?.cells || []).map((column) => column.trim().toLowerCase())
+  if (!columns.includes('title')) {
+    throw new Error('CSV 文件缺少 title 列')
+  }
+
+  return records.map(({ line, cells }) => {
+    const cell = (column: string) => {
+      const value = unescapeCsvCell(cells[columns.indexOf(column)] ?? '')
+      return value === '' ? null : value
+    }
+    const list = cell('list')
+
+    return {
+      line,
+      values: {
+        id: cell('id'),
+        parent_id: cell('parent_id'),
+        title: cell('title') ?? '',
+        description: cell('description'),
+        completed: parseCompleted(cell('completed') ?? ''),
+        priority: cell('priority'),
+        due_at: cell('due_at'),
+        recurrence_rule: cell('recurrence_rule'),
+        created_at: cell('created_at'),
+        list: list ? { name: list } : null,
+        tags: (cell('tags') ?? '')
+          .split(CSV_TAG_SEPARATOR)
+          .map((name) => name.trim())
+          .filter(Boolean)
+          .map((name) => ({ name })),
+      },
+    }
+  })
+}
+
+// 按扩展名读取备份文件，无法识别时抛出错误
+export function parseBackupFile(fileName: string, text: string): RawImportRow[] {
+  const extension = fileName.split('.').pop()?.toLowerCase()
+  if (extension === 'json') return parseJsonBackup(text)
+  if (extension === 'csv') return parseCsvBackup(text)
+  throw new Error('只支持导入 .json 或 .csv 文件')
+}
+
+export type ImportList = NonNullable<ImportRowData['list']>
+
+export type ImportTag = ImportRowData['tags'][number]
+
+// 校验通过、将要导入的任务
+export interface ImportTodo {
+  line: number
+  // 文件中的任务 id，用于关联父任务和重复系列；未提供时按行号生成
+  ref: string
+  parentRef: string | null
+  // 父任务是已有的任务（重复而跳过）时为其 id
+  parentId: string | null
+  // 子任务的层级，顶层任务为 0，按层级依次写入
+  depth: number
+  seriesRef: string | null
+  recurrenceIndex: number
+  // 子任务跟随父任务所在的清单；null 表示收件箱
+  list: ImportList | null
+  tags: ImportTag[]
+  fields: {
+    title: string
+    description: string | null
+    completed: boolean
+    priority: PriorityLevel
+    due_at: string | null
+    recurrence_rule: string | null
+    position: string | null
+    created_at: string | null
+  }
+}
+
+export interface ImportRowError {
+  line: number
+  title: string
+  message: string
+}
+
+function toText(value: unknown): string {
+  return typeof value === 'string' ? value : ''
+}
+
+function nullable(value: unknown): unknown {
+  return value === undefined || value === '' ? null : value
+}
+
+// 校验一行：任务字段按 todoSchema 校验，其余字段按 importRowSchema 校验
+export function validateImportRow({
+  line,
+  values,
+}: RawImportRow): { todo: ImportTodo } | { error: ImportRowError } {
+  const title = toText(values.title)
+  const fail = (message: string) => ({ error: { line, title, message } })
+
+  const todo = todoSchema.safeParse({
+    title: values.title,
+    description: values.description ?? '',
+    due_at: values.due_at ?? '',
+    priority: values.priority ?? 'none',
+    recurrence_rule: values.recurrence_rule ?? '',
+    // 标签按名称关联，数量限制在 importRowSchema 中检查
+    tag_ids: [],
+    attachments: [],
+  })
+  if (!todo.success) {
+    return fail(todo.error.issues[0]?.message ?? '任务无效')
+  }
+
+  const extra = importRowSchema.safeParse({
+    id: nullable(values.id),
+    parent_id: nullable(values.parent_id),
+    recurrence_series_id: nullable(values.recurrence_series_id),
+    recurrence_index: values.recurrence_index,
+    completed: values.completed ?? false,
+    position: nullable(values.position),
+    created_at: nullable(values.created_at),
+    list: values.list ?? null,
+    tags: values.tags ?? [],
+  })
+  if (!extra.success) {
+    return fail(extra.error.issues[0]?.message ?? '任务无效')
+  }
+
+  const data = extra.data
+  return {
+    todo: {
+      line,
+      ref: data.id ?? `line:${line}`,
+      parentRef: data.parent_id,
+      parentId: null,
+      depth: 0,
+      seriesRef: data.recurrence_series_id,
+      recurrenceIndex: data.recurrence_index,
+      list: data.list,
+      tags: data.tags,
+      fields: {
+        title: todo.data.title,
+        description: todo.data.description ?? null,
+        completed: data.completed,
+        priority: todo.data.priority,
+        due_at: todo.data.due_at ? new Date(todo.data.due_at).toISOString() : null,
+        recurrence_rule: todo.data.recurrence_rule ?? null,
+        position: data.position,
+        created_at: data.created_at ? new Date(data.created_at).toISOString() : null,
+      },
+    },
+  }
+}
+
+// 导入前已有的数据，用于查找重复的任务和需要新建的清单、标签
+export interface ImportContext {
+  todos: Pick<Todo, 'id' | 'title' | 'due_at' | 'list_id'>[]
+  lists: Pick<List, 'id' | 'name' | 'is_inbox'>[]
+  tags: Pick<Tag, 'name'>[]
+}
+
+export interface ImportPlan {
+  // 将要创建的任务，父任务在子任务之前
+  todos: ImportTodo[]
+  // 与已有任务重复而跳过的任务
+  duplicates: ImportTodo[]
+  errors: ImportRowError[]
+  // 需要新建的清单和标签
+  lists: ImportList[]
+  tags: ImportTag[]
+}
+
+// 同一清单中标题和截止时间都相同的任务视为重复
+function getDuplicateKey(listName: string | null, title: string, dueAt: string | null): string {
+  return [listName ?? '', title.trim(), dueAt ? new Date(dueAt).getTime() : ''].join('\u0000')
+}
+
+export function planImport(
+  rows: RawImportRow[],
+  context: ImportContext,
+  mode: ImportMode
+): ImportPlan {
+  const errors: ImportRowError[] = []
+  const pending: ImportTodo[] = []
+  const refs = new Set<string>()
+
+  for (const row of rows) {
+    const result = validateImportRow(row)
+    if ('error' in result) {
+      errors.push(result.error)
+    } else if (refs.has(result.todo.ref)) {
+      errors.push({ line: row.line, title: result.todo.fields.title, message: '任务 id 重复' })
+    } else {
+      refs.add(result.todo.ref)
+      pending.push(result.todo)
+    }
+  }
+
+  // 替换模式下现有任务都会移到回收站，不检查重复
+  const listNames = new Map(
+    context.lists.map((list) => [list.id, list.is_inbox ? null : list.name])
+  )
+  const existing = new Map<string, string>()
+  if (mode === 'merge') {
+    for (const todo of [...context.todos].reverse()) {
+      existing.set(
+        getDuplicateKey(listNames.get(todo.list_id) ?? null, todo.title, todo.due_at),
+        todo.id
+      )
+    }
+  }
+
+  // 按层级处理：父任务处理完后才处理其子任务。父任务不在文件中时作为顶层任务导入
+  const todos: ImportTodo[] = []
+  const duplicates: ImportTodo[] = []
+  const processed = new Map<string, { todo: ImportTodo; existingId: string | null }>()
+
+  let remaining = pending.map((todo) => ({
+    ...todo,
+    parentRef: todo.parentRef && refs.has(todo.parentRef) ? todo.parentRef : null,
+  }))
+  while (remaining.length > 0) {
+    const next: ImportTodo[] = []
+
+    for (const todo of remaining) {
+      let item = todo
+      if (todo.parentRef) {
+        const parent = processed.get(todo.parentRef)
+        if (!parent) {
+          next.push(todo)
+          continue
+        }
+        item = {
+          ...todo,
+          parentRef: parent.existingId ? null : todo.parentRef,
+          parentId: parent.existingId,
+          depth: parent.existingId ? 0 : parent.todo.depth + 1,
+          list: parent.todo.list,
+        }
+      }
+
+      const existingId = existing.get(
+        getDuplicateKey(item.list?.name ?? null, item.fields.title, item.fields.due_at)
+      )
+      if (existingId) {
+        duplicates.push(item)
+      } else {
+        todos.push(item)
+      }
+      processed.set(item.ref, { todo: item, existingId: existingId ?? null })
+    }
+
+    // 没有进展说明剩下的任务之间的父子关系存在循环
+    if (next.length === remaining.length) {
+      for (const todo of next) {
+        errors.push({ line: todo.line, title: todo.fields.title, message: '父任务关系存在循环' })
+      }
+      break
+    }
+    remaining = next
+  }
+
+  const knownLists = new Set(context.lists.map((list) => list.name))
+  const knownTags = new Set(context.tags.map((tag) => tag.name))
+  const lists = new Map<string, ImportList>()
+  const tags = new Map<string, ImportTag>()
+  for (const todo of todos) {
+    if (todo.list && !todo.parentRef && !todo.parentId && !knownLists.has(todo.list.name)) {
+      if (!lists.has(todo.list.name)) lists.set(todo.list.name, todo.list)
+    }
+    for (const tag of todo.tags) {
+      if (!knownTags.has(tag.name) && !tags.has(tag.name)) tags.set(tag.name, tag)
+    }
+  }
+
+  return {
+    todos: todos.sort((a, b) => a.depth - b.depth),
+    duplicates,
+    errors: errors.sort((a, b) => a.line - b.line),
+    lists: [...lists.values()],
+    tags: [...tags.values()],
+  }
+}
+
+// 导入结果中的错误报告，可下载为 CSV
+export function importErrorsToCsv(errors: ImportRowError[]): string {
+  return formatCsv([
+    ['line', 'title', 'error'],
+    ...errors.map((error) => [String(error.line), error.title, error.message]),
+  ])
+}
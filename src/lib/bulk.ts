@@ -0,0 +1,35 @@
+import type { Todo } from '@/types'
+
+// 批量操作的结果：服务器没有返回的任务（如已在其他地方被永久删除）视为失败
+export interface BulkResult {
+  succeeded: string[]
+  failed: string[]
+}
+
+// 根据服务器返回的记录区分成功和失败的任务；修改进入离线队列时没有记录，视为全部成功
+export function getBulkResult(ids: string[], rows: Pick<Todo, 'id'>[] | null): BulkResult {
+  if (!rows) {
+    return { succeeded: ids, failed: [] }
+  }
+
+  const returned = new Set(rows.map((row) => row.id))
+  return {
+    succeeded: ids.filter((id) => returned.has(id)),
+    failed: ids.filter((id) => !returned.has(id)),
+  }
+}
+
+// 按住 Shift 点击时，选中上一次点击的任务与本次点击的任务之间（含两端）的所有任务
+export function getRangeIds(
+  orderedIds: string[],
+  anchorId: string | null,
+  targetId: string
+): string[] {
+  const from = anchorId ? orderedIds.indexOf(anchorId) : -1
+  const to = orderedIds.indexOf(targetId)
+  if (from === -1 || to === -1) {
+    return [targetId]
+  }
+
+  return orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1)
+}
@@ -0,0 +1,25 @@
+import { toBase64Url } from '@/lib/utils'
+
+// 日历订阅地址：/api/calendar/<密钥>.ics，密钥即访问凭据，只能读取任务
+
+export const CALENDAR_FEED_EXTENSION = '.ics'
+
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{43}$/
+
+// 生成订阅密钥：32 字节随机数
+export function generateCalendarToken(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+export function isCalendarToken(value: string): boolean {
+  return TOKEN_PATTERN.test(value)
+}
+
+export function getCalendarFeedUrl(origin: string, token: string): string {
+  return `${origin}/api/calendar/${token}${CALENDAR_FEED_EXTENSION}`
+}
+
+// webcal:// 链接可以直接在系统的日历应用中打开订阅
+export function toWebcalUrl(url: string): string {
+  return url.replace(/^https?:/, 'webcal:')
+}
@@ -0,0 +1,90 @@
+import type { Todo, TodoUpdate } from '@/types'
+
+// 编辑表单中可能与其他设备的修改冲突的字段
+export const CONFLICT_FIELDS = [
+  'title',
+  'description',
+  'due_at',
+  'priority',
+  'recurrence_rule',
+] as const
+
+export type ConflictField = (typeof CONFLICT_FIELDS)[number]
+
+export const CONFLICT_FIELD_LABELS: Record<ConflictField, string> = {
+  title: '标题',
+  description: '描述',
+  due_at: '截止时间',
+  priority: '优先级',
+  recurrence_rule: '重复',
+}
+
+export type ConflictChoice = 'mine' | 'theirs'
+
+export interface FieldChange {
+  field: ConflictField
+  mine: Todo[ConflictField]
+  theirs: Todo[ConflictField]
+  // 相对于开始编辑时的版本，哪一方修改了该字段
+  mineChanged: boolean
+  theirsChanged: boolean
+}
+
+// 保存时任务已被其他设备修改（updated_at 与开始编辑时不同）
+export class TodoConflictError extends Error {
+  readonly theirs: Todo
+
+  constructor(theirs: Todo) {
+    super('任务已在其他设备上修改')
+    this.name = 'TodoConflictError'
+    this.theirs = theirs
+  }
+}
+
+// 截止时间以时间点比较，避免同一时间的不同字符串格式被误判为修改
+function isSameValue(field: ConflictField, a: Todo[ConflictField], b: Todo[ConflictField]) {
+  if (field === 'due_at' && a && b) {
+    return new Date(a).getTime() === new Date(b).getTime()
+  }
+  return (a ?? null) === (b ?? null)
+}
+
+// 逐字段比较我的修改和服务器上的最新版本，只返回两者不同的字段
+export function getFieldChanges(base: Todo, mine: TodoUpdate, theirs: Todo): FieldChange[] {
+  return CONFLICT_FIELDS.flatMap((field) => {
+    const mineValue = field in mine ? (mine[field] as Todo[ConflictField]) : base[field]
+    if (isSameValue(field, mineValue, theirs[field])) return []
+
+    return [
+      {
+        field,
+        mine: mineValue,
+        theirs: theirs[field],
+        mineChanged: !isSameValue(field, mineValue, base[field]),
+        theirsChanged: !isSameValue(field, theirs[field], base[field]),
+      },
+    ]
+  })
+}
+
+// 默认选择：只有一方修改的字段保留该方的值，双方都修改的字段保留我的值
+export function getDefaultChoices(changes: FieldChange[]): Record<string, ConflictChoice> {
+  return Object.fromEntries(
+    changes.map((change) => [
+      change.field,
+      change.theirsChanged && !change.mineChanged ? 'theirs' : 'mine',
+    ])
+  )
+}
+
+// 根据每个字段的选择生成需要保存的修改；选择对方的字段已经在服务器上，无需保存
+export function buildResolution(
+  changes: FieldChange[],
+  choices: Record<string, ConflictChoice>
+): TodoUpdate {
+  return Object.fromEntries(
+    changes
+      .filter((change) => choices[change.field] === 'mine')
+      .map((change) => [change.field, change.mine])
+  )
+}
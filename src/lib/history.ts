@@ -0,0 +1,71 @@
+import type { Todo, TodoUpdate } from '@/types'
+
+// 撤销历史最多保留的操作数
+export const HISTORY_LIMIT = 50
+
+// 一个任务的修改：修改前后的字段值，以及修改了标签时前后的标签
+export interface TodoChange {
+  id: string
+  before: TodoUpdate
+  after: TodoUpdate
+  tagsBefore?: string[]
+  tagsAfter?: string[]
+}
+
+// 可撤销的操作。添加的任务撤销时移到回收站，删除的任务撤销时从回收站恢复
+export type HistoryCommand =
+  | { type: 'add'; id: string }
+  | { type: 'delete'; ids: string[] }
+  | { type: 'update'; changes: TodoChange[] }
+
+export interface HistoryEntry {
+  // 撤销或重做后提示的操作名称
+  label: string
+  command: HistoryCommand
+}
+
+// 操作涉及的任务 id
+export function getCommandTodoIds(command: HistoryCommand): string[] {
+  switch (command.type) {
+    case 'add':
+      return [command.id]
+    case 'delete':
+      return command.ids
+    case 'update':
+      return command.changes.map((change) => change.id)
+  }
+}
+
+// 记录修改前的字段值，撤销时恢复
+export function pickFields(todo: Todo, updates: TodoUpdate): TodoUpdate {
+  return Object.fromEntries(
+    Object.keys(updates).map((key) => [key, todo[key as keyof Todo]])
+  ) as TodoUpdate
+}
+
+// 根据修改的字段生成操作名称
+export function describeUpdate(updates: TodoUpdate): string {
+  if ('completed' in updates) {
+    return updates.completed ? '完成任务' : '取消完成任务'
+  }
+  if ('position' in updates && Object.keys(updates).length === 1) {
+    return '调整顺序'
+  }
+  if ('list_id' in updates) {
+    return '移动任务'
+  }
+  return '编辑任务'
+}
+
+// 追加一条历史记录，超出上限时丢弃最早的记录
+export function pushHistory(stack: HistoryEntry[], entry: HistoryEntry): HistoryEntry[] {
+  return [...stack, entry].slice(-HISTORY_LIMIT)
+}
+
+// 任务在其他地方被修改后，移除涉及这些任务的历史记录，避免撤销时覆盖别人的修改
+export function invalidateHistory(stack: HistoryEntry[], ids: string[]): HistoryEntry[] {
+  const next = stack.filter((entry) =>
+    getCommandTodoIds(entry.command).every((id) => !ids.includes(id))
+  )
+  return next.length === stack.length ? stack : next
+}
@@ -0,0 +1,167 @@
+import type { PriorityLevel, Todo } from '@/types'
+
+// 按 RFC 5545 生成 iCalendar 文件：每个任务输出为 VTODO，可选地把有截止时间的任务同时输出为 VEVENT，
+// 以便不支持待办事项的日历应用也能显示
+
+export type CalendarTodo = Pick<
+  Todo,
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'completed'
+  | 'priority'
+  | 'due_at'
+  | 'parent_id'
+  | 'created_at'
+  | 'updated_at'
+>
+
+export interface CalendarOptions {
+  includeEvents: boolean
+  name?: string
+  now?: Date
+}
+
+const PRODUCT_ID = '-//next-todolist//Todos//ZH-CN'
+const UID_DOMAIN = 'todolist'
+
+// 日历应用重新拉取的间隔
+const REFRESH_INTERVAL = 'PT1H'
+
+// 截止时间只是一个时刻，日程按固定的时长显示
+const EVENT_DURATION = 'PT30M'
+
+// PRIORITY 取值 1（最高）到 9（最低），0 表示未指定
+const PRIORITY_VALUES: Record<PriorityLevel, number> = {
+  none: 0,
+  low: 9,
+  medium: 5,
+  high: 2,
+  urgent: 1,
+}
+
+// 内容行（不含换行）最长 75 个字节
+const MAX_LINE_OCTETS = 75
+
+// TEXT 类型的值需要转义反斜杠、分号、逗号和换行
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n')
+}
+
+function getUtf8Length(char: string): number {
+  const codePoint = char.codePointAt(0) ?? 0
+  if (codePoint < 0x80) return 1
+  if (codePoint < 0x800) return 2
+  if (codePoint < 0x10000) return 3
+  return 4
+}
+
+// 超过长度的行折叠为多行，续行以一个空格开头；不在多字节字符中间折断
+export function foldLine(line: string): string {
+  const lines: string[] = []
+  let current = ''
+  let octets = 0
+
+  for (const char of line) {
+    const length = getUtf8Length(char)
+    // 续行开头的空格也计入长度
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (octets + length > limit) {
+      lines.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += length
+  }
+  lines.push(current)
+
+  return lines.join('\r\n ')
+}
+
+// UTC 时间，如 20240503T100000Z
+export function formatDateTime(value: string | Date): string {
+  return new Date(value)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '')
+}
+
+function getUid(todoId: string, suffix = ''): string {
+  return `${todoId}${suffix}@${UID_DOMAIN}`
+}
+
+function buildTodo(todo: CalendarTodo, stamp: string): string[] {
+  const priority = PRIORITY_VALUES[todo.priority]
+
+  return [
+    'BEGIN:VTODO',
+    `UID:${getUid(todo.id)}`,
+    `DTSTAMP:${stamp}`,
+    `CREATED:${formatDateTime(todo.created_at)}`,
+    `LAST-MODIFIED:${formatDateTime(todo.updated_at)}`,
+    `SUMMARY:${escapeText(todo.title)}`,
+    ...(todo.description ? [`DESCRIPTION:${escapeText(todo.description)}`] : []),
+    ...(todo.due_at ? [`DUE:${formatDateTime(todo.due_at)}`] : []),
+    ...(priority ? [`PRIORITY:${priority}`] : []),
+    // 每次重复都是单独的任务，不输出 RRULE，以免日历应用再展开出重复的条目
+    ...(todo.completed
+      ? [
+          'STATUS:COMPLETED',
+          // 没有单独记录完成时间，以最后修改时间代替
+          `COMPLETED:${formatDateTime(todo.updated_at)}`,
+          'PERCENT-COMPLETE:100',
+        ]
+      : ['STATUS:NEEDS-ACTION']),
+    ...(todo.parent_id ? [`RELATED-TO:${getUid(todo.parent_id)}`] : []),
+    'END:VTODO',
+  ]
+}
+
+function buildEvent(todo: CalendarTodo & { due_at: string }, stamp: string): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${getUid(todo.id, '-due')}`,
+    `DTSTAMP:${stamp}`,
+    `CREATED:${formatDateTime(todo.created_at)}`,
+    `LAST-MODIFIED:${formatDateTime(todo.updated_at)}`,
+    `SUMMARY:${escapeText(todo.completed ? `✓ ${todo.title}` : todo.title)}`,
+    ...(todo.description ? [`DESCRIPTION:${escapeText(todo.description)}`] : []),
+    `DTSTART:${formatDateTime(todo.due_at)}`,
+    `DURATION:${EVENT_DURATION}`,
+    // 不占用空闲/忙碌时间
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ]
+}
+
+export function buildCalendar(
+  todos: CalendarTodo[],
+  { includeEvents, name = '待办清单', now = new Date() }: CalendarOptions
+): string {
+  const stamp = formatDateTime(now)
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...todos.flatMap((todo) => buildTodo(todo, stamp)),
+    ...(includeEvents
+      ? todos.flatMap((todo) =>
+          todo.due_at ? buildEvent({ ...todo, due_at: todo.due_at }, stamp) : []
+        )
+      : []),
+    'END:VCALENDAR',
+  ]
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
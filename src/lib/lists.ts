@@ -0,0 +1,47 @@
+import {
+  BookOpen,
+  Briefcase,
+  Heart,
+  Home,
+  Inbox,
+  List as ListIcon,
+  ShoppingCart,
+  Star,
+  type LucideIcon,
+} from 'lucide-react'
+import { TAG_COLORS } from '@/lib/tags'
+
+// 清单可选图标，数据库中保存图标名称
+export const LIST_ICON_NAMES = [
+  'list',
+  'inbox',
+  'briefcase',
+  'home',
+  'star',
+  'book',
+  'heart',
+  'shopping-cart',
+] as const
+
+export type ListIconName = (typeof LIST_ICON_NAMES)[number]
+
+export const LIST_ICONS: Record<ListIconName, LucideIcon> = {
+  list: ListIcon,
+  inbox: Inbox,
+  briefcase: Briefcase,
+  home: Home,
+  star: Star,
+  book: BookOpen,
+  heart: Heart,
+  'shopping-cart': ShoppingCart,
+}
+
+// 清单与标签共用同一套颜色
+export const LIST_COLORS = TAG_COLORS
+
+export const DEFAULT_LIST_COLOR = '#3b82f6'
+
+// 获取清单图标组件，未知名称时回退为默认图标
+export function getListIcon(icon: string): LucideIcon {
+  return LIST_ICONS[icon as ListIconName] ?? ListIcon
+}
@@ -0,0 +1,250 @@
+// 任务描述使用的轻量 Markdown 解析器。
+// 只生成语法树，由组件渲染为 React 元素，不会输出原始 HTML，因此无需额外的 HTML 清理。
+// 支持：标题、段落、代码块、引用、有序/无序列表、任务列表、分隔线，
+// 以及行内代码、粗体、斜体、删除线、链接和自动链接。
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'break' }
+
+export interface ListItem {
+  children: InlineNode[]
+  // 普通列表项为 null，任务列表项为是否已勾选
+  checked: boolean | null
+  // 列表项在原文中的行号（从 0 开始），用于切换任务列表的勾选状态
+  line: number
+}
+
+export type BlockNode =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: ListItem[] }
+  | { type: 'hr' }
+
+interface SourceLine {
+  text: string
+  line: number
+}
+
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)\s*$/
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+const HR = /^\s*([-*_])(\s*\1){2,}\s*$/
+const BLOCKQUOTE = /^\s*>\s?/
+const LIST_ITEM = /^\s*(?:([-*+])|(\d{1,9})[.)])\s+(?:\[([ xX])\](?:\s+|$))?(.*)$/
+const TASK_MARKER = /^(\s*(?:>\s*)*(?:[-*+]|\d{1,9}[.)])\s+)\[[ xX]\]/
+
+const INLINE_PATTERN = new RegExp(
+  [
+    /(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/.source, // 行内代码
+    /\*\*(?=\S)([\s\S]*?\S)\*\*/.source, // 粗体
+    /(?<!\w)__(?=\S)([\s\S]*?\S)__(?!\w)/.source,
+    /~~(?=\S)([\s\S]*?\S)~~/.source, // 删除线
+    /\*(?=[^\s*])([\s\S]*?[^\s*])\*/.source, // 斜体
+    /(?<!\w)_(?=[^\s_])([\s\S]*?[^\s_])_(?!\w)/.source,
+    /\[([^\]\n]+)\]\(\s*([^)\s]+)\s*\)/.source, // 链接
+    /(https?:\/\/[^\s<>]*[^\s<>.,;:!?'")\]])/.source, // 自动链接
+  ].join('|')
+)
+
+// 只允许 http(s) 和 mailto 链接，其他协议（如 javascript:、data:）一律视为不安全
+export function sanitizeUrl(url: string): string | null {
+  const trimmed = url.trim()
+  if (/^(https?:\/\/|mailto:)/i.test(trimmed)) {
+    return trimmed
+  }
+  return null
+}
+
+function textNodes(text: string): InlineNode[] {
+  const nodes: InlineNode[] = []
+  text.split('\n').forEach((part, index) => {
+    if (index > 0) nodes.push({ type: 'break' })
+    if (part) nodes.push({ type: 'text', text: part })
+  })
+  return nodes
+}
+
+export function parseInline(source: string): InlineNode[] {
+  const nodes: InlineNode[] = []
+  let rest = source
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest)
+    if (!match) {
+      nodes.push(...textNodes(rest))
+      break
+    }
+
+    if (match.index > 0) {
+      nodes.push(...textNodes(rest.slice(0, match.index)))
+    }
+
+    const [whole, , code, strong, strongAlt, del, em, emAlt, linkText, linkHref, autolink] = match
+
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code.trim() || code })
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) })
+    } else if (del !== undefined) {
+      nodes.push({ type: 'del', children: parseInline(del) })
+    } else if (em !== undefined || emAlt !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(em ?? emAlt) })
+    } else if (linkText !== undefined) {
+      const href = sanitizeUrl(linkHref)
+      // 不安全的链接只显示文字
+      nodes.push(
+        href
+          ? { type: 'link', href, children: parseInline(linkText) }
+          : { type: 'text', text: linkText }
+      )
+    } else if (autolink !== undefined) {
+      nodes.push({ type: 'link', href: autolink, children: [{ type: 'text', text: autolink }] })
+    }
+
+    rest = rest.slice(match.index + whole.length)
+  }
+
+  return nodes
+}
+
+// 判断一行是否会开始新的块，用于结束段落
+function startsBlock(text: string): boolean {
+  return (
+    FENCE.test(text) ||
+    HEADING.test(text) ||
+    HR.test(text) ||
+    BLOCKQUOTE.test(text) ||
+    LIST_ITEM.test(text)
+  )
+}
+
+function parseBlocks(lines: SourceLine[]): BlockNode[] {
+  const blocks: BlockNode[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const { text } = lines[i]
+
+    if (!text.trim()) {
+      i++
+      continue
+    }
+
+    const fence = text.match(FENCE)
+    if (fence) {
+      const body: string[] = []
+      i++
+      while (i < lines.length && !lines[i].text.trim().startsWith(fence[1])) {
+        body.push(lines[i].text)
+        i++
+      }
+      i++ // 跳过结束标记
+      blocks.push({ type: 'code', lang: fence[2], text: body.join('\n') })
+      continue
+    }
+
+    const heading = text.match(HEADING)
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length,
+        children: parseInline(heading[2]),
+      })
+      i++
+      continue
+    }
+
+    if (HR.test(text)) {
+      blocks.push({ type: 'hr' })
+      i++
+      continue
+    }
+
+    if (BLOCKQUOTE.test(text)) {
+      const quoted: SourceLine[] = []
+      while (i < lines.length && BLOCKQUOTE.test(lines[i].text)) {
+        quoted.push({ text: lines[i].text.replace(BLOCKQUOTE, ''), line: lines[i].line })
+        i++
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted) })
+      continue
+    }
+
+    const first = text.match(LIST_ITEM)
+    if (first) {
+      const ordered = first[2] !== undefined
+      const items: ListItem[] = []
+      let itemText: string[] = []
+
+      const flush = () => {
+        const last = items[items.length - 1]
+        if (last) last.children = parseInline(itemText.join('\n'))
+        itemText = []
+      }
+
+      while (i < lines.length) {
+        const current = lines[i]
+        const item = current.text.match(LIST_ITEM)
+
+        if (item && (item[2] !== undefined) === ordered) {
+          flush()
+          items.push({
+            children: [],
+            checked: item[3] === undefined ? null : item[3] !== ' ',
+            line: current.line,
+          })
+          itemText.push(item[4])
+          i++
+        } else if (!item && /^\s+\S/.test(current.text) && items.length > 0) {
+          // 缩进的后续行属于上一个列表项
+          itemText.push(current.text.trim())
+          i++
+        } else {
+          break
+        }
+      }
+      flush()
+
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: ordered ? Number(first[2]) : 1,
+        items,
+      })
+      continue
+    }
+
+    const paragraph: string[] = []
+    while (i < lines.length && lines[i].text.trim() && !startsBlock(lines[i].text)) {
+      paragraph.push(lines[i].text.trim())
+      i++
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) })
+  }
+
+  return blocks
+}
+
+export function parseMarkdown(source: string): BlockNode[] {
+  const lines = source
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((text, line) => ({ text, line }))
+  return parseBlocks(lines)
+}
+
+// 切换原文中指定行的任务列表勾选状态，其余内容保持不变
+export function toggleTaskItem(source: string, line: number, checked: boolean): string {
+  const lines = source.split('\n')
+  if (line < 0 || line >= lines.length) {
+    return source
+  }
+
+  lines[line] = lines[line].replace(TASK_MARKER, `$1[${checked ? 'x' : ' '}]`)
+  return lines.join('\n')
+}
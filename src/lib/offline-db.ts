@@ -0,0 +1,129 @@
+import type { OutboxEntry, OutboxOperation } from '@/lib/outbox'
+import type { Todo } from '@/types'
+
+// 每个账号使用单独的数据库，名称后加上用户 id
+const DB_NAME = 'todolist-offline'
+const DB_VERSION = 1
+// 按清单缓存的任务列表
+const CACHE_STORE = 'todo_cache'
+// 待同步的修改，按写入顺序自增编号
+const OUTBOX_STORE = 'outbox'
+
+export interface CachedList {
+  listId: string
+  todos: Todo[]
+  todoTags: Record<string, string[]>
+  cached_at: string
+}
+
+let userId: string | null = null
+let dbPromise: Promise<IDBDatabase> | null = null
+
+// 切换到当前登录的账号。登出后未同步的修改保留在该账号的数据库中，再次登录时继续同步，
+// 其他账号登录时看不到
+export function setOfflineUser(id: string | null) {
+  if (id === userId) return
+  userId = id
+  const previous = dbPromise
+  dbPromise = null
+  previous?.then((db) => db.close()).catch(() => {})
+}
+
+// 浏览器不支持 IndexedDB（如服务端渲染、部分隐私模式）或未登录时，离线缓存不可用
+function isSupported(): boolean {
+  return typeof indexedDB !== 'undefined' && userId !== null
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(`${DB_NAME}:${userId}`, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: 'listId' })
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+// 在单个事务中执行请求，事务完成后返回请求结果
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = action(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export async function readCachedList(listId: string): Promise<CachedList | null> {
+  if (!isSupported()) return null
+  const cached = await run<CachedList | undefined>(CACHE_STORE, 'readonly', (store) =>
+    store.get(listId)
+  )
+  return cached ?? null
+}
+
+export async function writeCachedList(cached: CachedList): Promise<void> {
+  if (!isSupported()) return
+  await run(CACHE_STORE, 'readwrite', (store) => store.put(cached))
+}
+
+export async function readOutbox(): Promise<OutboxEntry[]> {
+  if (!isSupported()) return []
+  return run<OutboxEntry[]>(OUTBOX_STORE, 'readonly', (store) => store.getAll())
+}
+
+// 不支持 IndexedDB 时队列只保存在内存中，使用本地编号
+let memorySeq = 0
+
+export async function addOutboxEntry(operation: OutboxOperation): Promise<OutboxEntry> {
+  const entry: Omit<OutboxEntry, 'seq'> = {
+    operation,
+    status: 'pending',
+    error: null,
+    created_at: new Date().toISOString(),
+  }
+
+  if (!isSupported()) {
+    memorySeq += 1
+    return { ...entry, seq: memorySeq }
+  }
+
+  const seq = await run<IDBValidKey>(OUTBOX_STORE, 'readwrite', (store) => store.add(entry))
+  return { ...entry, seq: seq as number }
+}
+
+export async function putOutboxEntry(entry: OutboxEntry): Promise<void> {
+  if (!isSupported()) return
+  await run(OUTBOX_STORE, 'readwrite', (store) => store.put(entry))
+}
+
+export async function deleteOutboxEntry(seq: number): Promise<void> {
+  if (!isSupported()) return
+  await run(OUTBOX_STORE, 'readwrite', (store) => store.delete(seq))
+}
+
+// 登出时清除缓存的任务列表，未同步的修改保留到再次登录
+export async function clearCachedLists(): Promise<void> {
+  if (!isSupported()) return
+  await run(CACHE_STORE, 'readwrite', (store) => store.clear())
+}
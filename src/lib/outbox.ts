@@ -0,0 +1,118 @@
+import type { Todo, TodoInsert, TodoUpdate } from '@/types'
+
+// 待同步的修改。删除是软删除，和批量完成一样以 update 表示
+export type OutboxOperation =
+  | { type: 'insert'; row: TodoInsert & { id: string } }
+  | { type: 'update'; ids: string[]; updates: TodoUpdate; expectedUpdatedAt?: string }
+  | { type: 'tags'; todoId: string; userId: string; added: string[]; removed: string[] }
+
+export type SyncStatus = 'pending' | 'failed'
+
+export interface OutboxEntry {
+  seq: number
+  operation: OutboxOperation
+  // pending 表示等待同步；failed 表示被服务器拒绝，需要用户重试或放弃
+  status: SyncStatus
+  error: string | null
+  created_at: string
+}
+
+export interface TodoSnapshot {
+  todos: Todo[]
+  todoTags: Record<string, string[]>
+}
+
+// 根据待插入的记录构造本地任务，未指定的字段使用与数据库相同的默认值
+export function createLocalTodo(row: TodoInsert & { id: string }, listId: string | null): Todo {
+  const now = new Date().toISOString()
+  return {
+    description: null,
+    completed: false,
+    due_at: null,
+    priority: 'none',
+    parent_id: null,
+    recurrence_rule: null,
+    recurrence_series_id: null,
+    recurrence_index: 1,
+    position: null,
+    deleted_at: null,
+    created_at: now,
+    updated_at: now,
+    ...row,
+    list_id: row.list_id ?? listId ?? '',
+  }
+}
+
+export function getOperationTodoIds(operation: OutboxOperation): string[] {
+  switch (operation.type) {
+    case 'insert':
+      return [operation.row.id]
+    case 'update':
+      return operation.ids
+    case 'tags':
+      return [operation.todoId]
+  }
+}
+
+// 在本地状态上重放一条修改，用于在服务器数据之上保留尚未同步的修改
+export function applyOperation(
+  snapshot: TodoSnapshot,
+  operation: OutboxOperation,
+  listId: string | null
+): TodoSnapshot {
+  // 已删除或不属于当前清单的任务不在任务列表中显示
+  const visible = (todo: Todo) => !todo.deleted_at && (!listId || todo.list_id === listId)
+
+  switch (operation.type) {
+    case 'insert': {
+      if (snapshot.todos.some((todo) => todo.id === operation.row.id)) return snapshot
+      const todo = createLocalTodo(operation.row, listId)
+      return visible(todo) ? { ...snapshot, todos: [todo, ...snapshot.todos] } : snapshot
+    }
+    case 'update':
+      return {
+        ...snapshot,
+        todos: snapshot.todos
+          .map((todo) =>
+            operation.ids.includes(todo.id) ? { ...todo, ...operation.updates } : todo
+          )
+          .filter(visible),
+      }
+    case 'tags': {
+      const current = snapshot.todoTags[operation.todoId] || []
+      const tagIds = [
+        ...current.filter((tagId) => !operation.removed.includes(tagId)),
+        ...operation.added.filter((tagId) => !current.includes(tagId)),
+      ]
+      return { ...snapshot, todoTags: { ...snapshot.todoTags, [operation.todoId]: tagIds } }
+    }
+  }
+}
+
+export function applyOperations(
+  snapshot: TodoSnapshot,
+  entries: OutboxEntry[],
+  listId: string | null
+): TodoSnapshot {
+  return entries.reduce((acc, entry) => applyOperation(acc, entry.operation, listId), snapshot)
+}
+
+// 任务的同步状态：有失败的修改时为 failed，有等待中的修改时为 pending
+export function getSyncStatus(entries: OutboxEntry[], todoId: string): SyncStatus | null {
+  const related = entries.filter((entry) => getOperationTodoIds(entry.operation).includes(todoId))
+  if (related.some((entry) => entry.status === 'failed')) return 'failed'
+  return related.length > 0 ? 'pending' : null
+}
+
+// 判断错误是否由网络不可用引起（这类修改应进入队列，而不是回滚）
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true
+  if (error instanceof TypeError) return true
+  const message =
+    error instanceof Error
+      ? error.message
+      : typeof error === 'object' && error !== null && 'message' in error
+        ? String(error.message)
+        : String(error)
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message)
+}
@@ -0,0 +1,26 @@
+import type { PriorityLevel } from '@/types'
+
+// 优先级从低到高排列
+export const PRIORITY_LEVELS = ['none', 'low', 'medium', 'high', 'urgent'] as const
+
+export const PRIORITY_LABELS: Record<PriorityLevel, string> = {
+  none: '无',
+  low: '低',
+  medium: '中',
+  high: '高',
+  urgent: '紧急',
+}
+
+// 徽章颜色样式
+export const PRIORITY_BADGE_STYLES: Record<PriorityLevel, string> = {
+  none: 'bg-gray-100 text-gray-600 border-gray-200',
+  low: 'bg-blue-50 text-blue-700 border-blue-200',
+  medium: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  high: 'bg-orange-50 text-orange-700 border-orange-200',
+  urgent: 'bg-red-50 text-red-700 border-red-200',
+}
+
+// 获取优先级权重，数值越大越紧急
+export function getPriorityRank(priority: PriorityLevel): number {
+  return PRIORITY_LEVELS.indexOf(priority)
+}
@@ -0,0 +1,51 @@
+// 分数索引（fractional indexing）：用可按字典序比较的字符串表示位置，
+// 在两个位置之间插入时只需生成一个新键，无需修改其他记录。
+// 字符集按 ASCII 顺序排列，数据库中的列需使用 COLLATE "C" 以保持相同的比较结果。
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz'
+
+// 生成 a 与 b 之间的键（a 可为空字符串，b 为 null 表示无上界）
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // 跳过公共前缀，a 较短时视为补 '0'
+    let n = 0
+    while ((a[n] || '0') === b[n]) {
+      n++
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n))
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length
+
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)]
+  }
+
+  // 首位相邻：b 有多位时取其首位即可，否则在 a 的首位后继续二分
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1)
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null)
+}
+
+/**
+ * 生成介于 a 和 b 之间的排序键。
+ * a 为 null 表示插入到最前，b 为 null 表示插入到最后。
+ */
+export function generateKeyBetween(a: string | null, b: string | null): string {
+  if (a !== null && b !== null && a >= b) {
+    throw new Error(`无效的排序区间: ${a} >= ${b}`)
+  }
+  if ((a && a.endsWith('0')) || (b && b.endsWith('0'))) {
+    throw new Error('排序键不能以 0 结尾')
+  }
+
+  return midpoint(a ?? '', b)
+}
+
+// 按字典序比较两个排序键（不使用 localeCompare，与数据库的 "C" 排序规则一致）
+export function compareKeys(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
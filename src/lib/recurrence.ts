@@ -0,0 +1,292 @@
+import type { Todo, TodoInsert } from '@/types'
+
+// 重复规则，使用 RFC 5545 RRULE 的一个子集进行存储
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU'
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  byDay?: Weekday[]
+  // 每月（每年）的第几天。月末的日期在较短的月份会提前，记录系列原本的日期，之后的月份可以恢复
+  byMonthDay?: number
+  until?: string
+  count?: number
+}
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = [
+  'DAILY',
+  'WEEKLY',
+  'MONTHLY',
+  'YEARLY',
+]
+
+// 按周一至周日排列
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: '一',
+  TU: '二',
+  WE: '三',
+  TH: '四',
+  FR: '五',
+  SA: '六',
+  SU: '日',
+}
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  DAILY: '每天',
+  WEEKLY: '每周',
+  MONTHLY: '每月',
+  YEARLY: '每年',
+}
+
+// 将 Date 的 getDay()（周日为 0）转换为 WEEKDAYS 中的下标（周一为 0）
+function weekdayIndex(date: Date): number {
+  return (date.getDay() + 6) % 7
+}
+
+// RRULE 的 UNTIL 使用 UTC 基本格式，如 20250630T235959Z
+function formatUntil(iso: string): string {
+  return new Date(iso)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '')
+}
+
+function parseUntil(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/)
+  if (!match) return null
+  const [, y, m, d, hh = '23', mm = '59', ss = '59'] = match
+  return new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss)).toISOString()
+}
+
+// 解析 RRULE 字符串，格式无效时返回 null
+export function parseRRule(value: string): RecurrenceRule | null {
+  const parts = value.replace(/^RRULE:/, '').split(';')
+  const fields = new Map<string, string>()
+
+  for (const part of parts) {
+    const [key, val] = part.split('=')
+    if (!key || !val) return null
+    fields.set(key.toUpperCase(), val.toUpperCase())
+  }
+
+  const freq = fields.get('FREQ') as RecurrenceFrequency | undefined
+  if (!freq || !RECURRENCE_FREQUENCIES.includes(freq)) return null
+
+  const interval = Number(fields.get('INTERVAL') ?? '1')
+  if (!Number.isInteger(interval) || interval < 1) return null
+
+  const rule: RecurrenceRule = { freq, interval }
+
+  const byDay = fields.get('BYDAY')
+  if (byDay) {
+    const days = byDay.split(',') as Weekday[]
+    if (days.some((day) => !WEEKDAYS.includes(day))) return null
+    rule.byDay = WEEKDAYS.filter((day) => days.includes(day))
+  }
+
+  const byMonthDay = fields.get('BYMONTHDAY')
+  if (byMonthDay) {
+    const day = Number(byMonthDay)
+    if (!Number.isInteger(day) || day < 1 || day > 31) return null
+    rule.byMonthDay = day
+  }
+
+  const until = fields.get('UNTIL')
+  const count = fields.get('COUNT')
+  if (until && count) return null
+
+  if (until) {
+    const parsed = parseUntil(until)
+    if (!parsed) return null
+    rule.until = parsed
+  }
+
+  if (count) {
+    const n = Number(count)
+    if (!Number.isInteger(n) || n < 1) return null
+    rule.count = n
+  }
+
+  return rule
+}
+
+// 将重复规则序列化为 RRULE 字符串
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`]
+
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`)
+  }
+  if (rule.freq === 'WEEKLY' && rule.byDay && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.join(',')}`)
+  }
+  if ((rule.freq === 'MONTHLY' || rule.freq === 'YEARLY') && rule.byMonthDay) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`)
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${formatUntil(rule.until)}`)
+  } else if (rule.count) {
+    parts.push(`COUNT=${rule.count}`)
+  }
+
+  return parts.join(';')
+}
+
+// 按月/年推进日期并落在 day 日；目标月份没有这一天时取该月最后一天
+function addMonths(date: Date, months: number, day: number): Date {
+  const result = new Date(date)
+  result.setDate(1)
+  result.setMonth(result.getMonth() + months)
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate()
+  result.setDate(Math.min(day, lastDay))
+  return result
+}
+
+function startOfWeek(date: Date): Date {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  result.setDate(result.getDate() - weekdayIndex(result))
+  return result
+}
+
+/**
+ * 计算下一次发生的时间。
+ * from 为当前这一次的时间，occurrence 为当前是第几次（从 1 开始），
+ * 超过 UNTIL 或 COUNT 时返回 null。
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  from: Date,
+  occurrence: number = 1
+): Date | null {
+  if (rule.count && occurrence >= rule.count) {
+    return null
+  }
+
+  let next: Date
+
+  switch (rule.freq) {
+    case 'DAILY':
+      next = new Date(from)
+      next.setDate(next.getDate() + rule.interval)
+      break
+    case 'WEEKLY': {
+      const days = rule.byDay && rule.byDay.length > 0 ? rule.byDay : null
+      if (!days) {
+        next = new Date(from)
+        next.setDate(next.getDate() + 7 * rule.interval)
+        break
+      }
+
+      // 逐日查找：位于间隔周内且星期几匹配的第一天
+      const baseWeek = startOfWeek(from).getTime()
+      next = new Date(from)
+      do {
+        next.setDate(next.getDate() + 1)
+        const weeks = Math.round((startOfWeek(next).getTime() - baseWeek) / (7 * 86400000))
+        if (weeks % rule.interval === 0 && days.includes(WEEKDAYS[weekdayIndex(next)])) {
+          break
+        }
+      } while (true)
+      break
+    }
+    case 'MONTHLY':
+      next = addMonths(from, rule.interval, rule.byMonthDay ?? from.getDate())
+      break
+    case 'YEARLY':
+      next = addMonths(from, 12 * rule.interval, rule.byMonthDay ?? from.getDate())
+      break
+  }
+
+  if (rule.until && next.getTime() > new Date(rule.until).getTime()) {
+    return null
+  }
+
+  return next
+}
+
+// 计算重复任务下一次的截止时间，系列已结束或规则无效时返回 null
+export function getNextDueAt(
+  todo: Pick<Todo, 'recurrence_rule' | 'due_at' | 'recurrence_index'>
+): string | null {
+  if (!todo.recurrence_rule || !todo.due_at) return null
+
+  const rule = parseRRule(todo.recurrence_rule)
+  if (!rule) return null
+
+  const next = getNextOccurrence(rule, new Date(todo.due_at), todo.recurrence_index)
+  return next ? next.toISOString() : null
+}
+
+// 每月（每年）在 29 日之后重复的系列，在规则中记下原本的日期，
+// 避免提前到较短月份的月末后，之后的每一次都停在这一天
+export function anchorRRule(todo: Pick<Todo, 'recurrence_rule' | 'due_at'>): string | null {
+  if (!todo.recurrence_rule || !todo.due_at) return todo.recurrence_rule
+
+  const rule = parseRRule(todo.recurrence_rule)
+  if (!rule || (rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY') || rule.byMonthDay) {
+    return todo.recurrence_rule
+  }
+
+  const day = new Date(todo.due_at).getDate()
+  return day > 28 ? formatRRule({ ...rule, byMonthDay: day }) : todo.recurrence_rule
+}
+
+// 完成重复任务后生成的下一次任务，与当前任务属于同一系列
+export function buildNextOccurrence(todo: Todo, dueAt: string): TodoInsert {
+  return {
+    title: todo.title,
+    description: todo.description,
+    priority: todo.priority,
+    parent_id: todo.parent_id,
+    list_id: todo.list_id,
+    position: todo.position,
+    due_at: dueAt,
+    recurrence_rule: anchorRRule(todo),
+    recurrence_series_id: todo.recurrence_series_id ?? todo.id,
+    recurrence_index: todo.recurrence_index + 1,
+    user_id: todo.user_id,
+  }
+}
+
+// 生成可读的规则描述，如"每周一、三"
+export function describeRRule(rule: RecurrenceRule): string {
+  let text: string
+
+  switch (rule.freq) {
+    case 'DAILY':
+      text = rule.interval > 1 ? `每 ${rule.interval} 天` : '每天'
+      break
+    case 'WEEKLY': {
+      const days = rule.byDay?.map((day) => WEEKDAY_LABELS[day]).join('、')
+      if (rule.interval > 1) {
+        text = days ? `每 ${rule.interval} 周的周${days}` : `每 ${rule.interval} 周`
+      } else {
+        text = days ? `每周${days}` : '每周'
+      }
+      break
+    }
+    case 'MONTHLY':
+      text = rule.interval > 1 ? `每 ${rule.interval} 个月` : '每月'
+      if (rule.byMonthDay) text += ` ${rule.byMonthDay} 日`
+      break
+    case 'YEARLY':
+      text = rule.interval > 1 ? `每 ${rule.interval} 年` : '每年'
+      break
+  }
+
+  if (rule.until) {
+    const until = new Intl.DateTimeFormat('zh-CN', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    }).format(new Date(rule.until))
+    text += `，截至 ${until}`
+  } else if (rule.count) {
+    text += `，共 ${rule.count} 次`
+  }
+
+  return text
+}
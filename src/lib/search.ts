@@ -0,0 +1,42 @@
+// 搜索框输入停止多久后才发起搜索
+export const SEARCH_DEBOUNCE_MS = 300
+
+// 服务器搜索最多返回的任务数（按相关度排序，不分页）
+export const SEARCH_RESULT_LIMIT = 100
+
+// 服务器搜索的命中结果：相关度和描述中命中位置附近的摘要
+export interface SearchHit {
+  rank: number
+  snippet: string | null
+}
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// 将文本按搜索词拆分为普通片段和命中片段（不区分大小写），多个搜索词以空格分隔
+export function getHighlightSegments(text: string, query: string): HighlightSegment[] {
+  const terms = query
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    // 较长的词优先匹配，避免被其中包含的较短的词截断
+    .sort((a, b) => b.length - a.length)
+  if (!text || terms.length === 0) {
+    return text ? [{ text, match: false }] : []
+  }
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi')
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({
+      text: part,
+      match: terms.some((term) => term.toLowerCase() === part.toLowerCase()),
+    }))
+}
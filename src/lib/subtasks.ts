@@ -0,0 +1,52 @@
+import type { Todo } from '@/types'
+
+// 获取某个任务的所有后代任务 id（子任务、子任务的子任务……）
+export function getDescendantIds(todos: Pick<Todo, 'id' | 'parent_id'>[], id: string): string[] {
+  const result: string[] = []
+  const queue = [id]
+
+  while (queue.length > 0) {
+    const parentId = queue.shift()!
+    for (const todo of todos) {
+      if (todo.parent_id === parentId && !result.includes(todo.id)) {
+        result.push(todo.id)
+        queue.push(todo.id)
+      }
+    }
+  }
+
+  return result
+}
+
+// 逐层查找后代任务，用于本地只加载了部分任务（过滤或分页）的情况。
+// fetchChildren 返回这些任务的直接子任务，已找到的任务不再重复查找
+export async function collectDescendants<T extends Pick<Todo, 'id'>>(
+  ids: string[],
+  fetchChildren: (parentIds: string[]) => Promise<T[]>
+): Promise<T[]> {
+  const found = new Set(ids)
+  const result: T[] = []
+  let parentIds = ids
+
+  while (parentIds.length > 0) {
+    const children = (await fetchChildren(parentIds)).filter((child) => !found.has(child.id))
+    children.forEach((child) => found.add(child.id))
+    result.push(...children)
+    parentIds = children.map((child) => child.id)
+  }
+
+  return result
+}
+
+// 按父任务分组，保持传入列表的顺序
+export function groupByParent(todos: Todo[]): Map<string, Todo[]> {
+  const groups = new Map<string, Todo[]>()
+
+  for (const todo of todos) {
+    if (todo.parent_id) {
+      groups.set(todo.parent_id, [...(groups.get(todo.parent_id) || []), todo])
+    }
+  }
+
+  return groups
+}
@@ -1,8 +1,10 @@
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
-import { Database } from '@/types'
+import { hashAccessToken, isAccessToken, signUserJwt } from '@/lib/access-tokens'
+import { isCalendarToken } from '@/lib/calendar-feed'
+import { AccessTokenScope, Database } from '@/types'
 
-export async function createClient() {
+function getSupabaseConfig() {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
   const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
 
@@ -10,6 +12,11 @@ export async function createClient() {
     throw new Error('Missing Supabase environment variables. Please check your .env.local file.')
   }
 
+  return { supabaseUrl, supabaseAnonKey }
+}
+
+export async function createClient() {
+  const { supabaseUrl, supabaseAnonKey } = getSupabaseConfig()
   const cookieStore = await cookies()
 
   return createServerClient<Database>(supabaseUrl, supabaseAnonKey, {
@@ -29,3 +36,109 @@ export async function createClient() {
     },
   })
 }
+
+// 不读写 cookie 的客户端，请求头中的 Authorization 决定数据库以谁的身份执行查询
+function createHeaderClient(headers: Record<string, string> = {}) {
+  const { supabaseUrl, supabaseAnonKey } = getSupabaseConfig()
+
+  return createServerClient<Database>(supabaseUrl, supabaseAnonKey, {
+    cookies: {
+      getAll() {
+        return []
+      },
+      setAll() {},
+    },
+    global: { headers },
+  })
+}
+
+// 为用户签发短期的数据库 JWT，以该用户身份执行查询
+async function createClientForUser(userId: string, jwtSecret: string) {
+  const jwt = await signUserJwt(userId, jwtSecret)
+  return createHeaderClient({ Authorization: `Bearer ${jwt}` })
+}
+
+// 使用 service role 密钥、不受行级安全策略限制的客户端，只用于服务器端的后台任务（如发送 Webhook）
+export function createServiceClient() {
+  const { supabaseUrl } = getSupabaseConfig()
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!serviceRoleKey) {
+    throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY. Please check your .env.local file.')
+  }
+
+  return createServerClient<Database>(supabaseUrl, serviceRoleKey, {
+    cookies: {
+      getAll() {
+        return []
+      },
+      setAll() {},
+    },
+  })
+}
+
+// 以个人访问令牌的所有者身份访问数据库，行级安全策略与浏览器会话相同。
+// 令牌无效、已撤销或已过期时返回 null
+export async function createClientForAccessToken(
+  token: string
+): Promise<{
+  client: ReturnType<typeof createHeaderClient>
+  userId: string
+  scope: AccessTokenScope
+} | null> {
+  const jwtSecret = process.env.SUPABASE_JWT_SECRET
+  if (!jwtSecret) {
+    throw new Error('Missing SUPABASE_JWT_SECRET. Personal access tokens are not available.')
+  }
+  if (!isAccessToken(token)) return null
+
+  const { data, error } = await createHeaderClient().rpc('verify_access_token', {
+    hash: await hashAccessToken(token),
+  })
+
+  if (error) {
+    throw error
+  }
+
+  const owner = data?.[0]
+  if (!owner) return null
+
+  return {
+    client: await createClientForUser(owner.user_id, jwtSecret),
+    userId: owner.user_id,
+    scope: owner.scope,
+  }
+}
+
+// 以日历订阅的所有者身份访问数据库，行级安全策略与浏览器会话相同。
+// 订阅密钥无效或已重新生成时返回 null
+export async function createClientForCalendarFeed(
+  token: string
+): Promise<{
+  client: ReturnType<typeof createHeaderClient>
+  userId: string
+  includeEvents: boolean
+} | null> {
+  const jwtSecret = process.env.SUPABASE_JWT_SECRET
+  if (!jwtSecret) {
+    throw new Error('Missing SUPABASE_JWT_SECRET. Calendar feeds are not available.')
+  }
+  if (!isCalendarToken(token)) return null
+
+  const { data, error } = await createHeaderClient().rpc('verify_calendar_token', {
+    feed_token: token,
+  })
+
+  if (error) {
+    throw error
+  }
+
+  const owner = data?.[0]
+  if (!owner) return null
+
+  return {
+    client: await createClientForUser(owner.user_id, jwtSecret),
+    userId: owner.user_id,
+    includeEvents: owner.include_events,
+  }
+}
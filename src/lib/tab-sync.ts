@@ -0,0 +1,91 @@
+import type { RealtimeEvent } from '@/lib/todo-events'
+import type { TodoCounts } from '@/lib/todo-query'
+import type { TodoViewState } from '@/lib/view-state'
+import type { Todo, TodoTag } from '@/types'
+
+// 同一浏览器中打开的多个标签页之间的协调：通过 BroadcastChannel 互相转发消息，
+// 通过 Web Locks 选出唯一的领导者标签页持有服务器的实时订阅
+
+const CHANNEL_NAME = 'todolist'
+
+export type TabMessage =
+  // 任务或标签关联的变化：领导者转发的实时推送，或其他标签页本地修改的结果
+  | { type: 'todo-event'; userId: string; event: RealtimeEvent<Todo> }
+  | { type: 'todo-tag-event'; userId: string; event: RealtimeEvent<TodoTag> }
+  // 领导者标签页重新统计的任务数量，key 标识清单和标签过滤，查询相同的标签页直接使用
+  | { type: 'counts'; userId: string; key: string; counts: TodoCounts }
+  // 过滤和排序的变化，搜索词只属于各自的标签页
+  | { type: 'view'; view: Omit<TodoViewState, 'search'> }
+  | { type: 'sign-out' }
+
+type TabMessageHandler = (message: TabMessage) => void
+
+let channel: BroadcastChannel | null = null
+const handlers = new Set<TabMessageHandler>()
+
+// 不支持 BroadcastChannel 时返回 null，各标签页独立工作
+function getChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME)
+    channel.onmessage = (event: MessageEvent<TabMessage>) => {
+      handlers.forEach((handler) => handler(event.data))
+    }
+  }
+  return channel
+}
+
+// 发送给其他标签页，发送者自己不会收到
+export function postTabMessage(message: TabMessage) {
+  try {
+    getChannel()?.postMessage(message)
+  } catch (error) {
+    // 消息无法序列化时只影响其他标签页的同步，不影响本地操作
+    console.error('Error posting tab message:', error)
+  }
+}
+
+// 接收其他标签页的消息，返回取消接收的函数
+export function onTabMessage(handler: TabMessageHandler): () => void {
+  getChannel()
+  handlers.add(handler)
+  return () => {
+    handlers.delete(handler)
+  }
+}
+
+// 同名的任务在所有标签页中同一时间只在一个标签页运行：取得锁的标签页调用 start，
+// 其余标签页排队等待，领导者关闭或停止后由下一个标签页接替。
+// 不支持 Web Locks 时直接运行。返回停止运行（或放弃排队）的函数
+export function runAsLeader(
+  name: string,
+  start: () => () => void,
+  locks: LockManager | undefined = typeof navigator === 'undefined' ? undefined : navigator.locks
+): () => void {
+  if (!locks) {
+    return start()
+  }
+
+  const controller = new AbortController()
+  let stop: (() => void) | null = null
+  let release: (() => void) | null = null
+
+  locks
+    .request(`todolist:${name}`, { signal: controller.signal }, () => {
+      stop = start()
+      // 一直持有锁，直到停止运行
+      return new Promise<void>((resolve) => {
+        release = resolve
+      })
+    })
+    .catch((error) => {
+      if (error instanceof DOMException && error.name === 'AbortError') return
+      console.error('Error acquiring tab leadership:', error)
+    })
+
+  return () => {
+    controller.abort()
+    stop?.()
+    release?.()
+  }
+}
@@ -0,0 +1,53 @@
+import type { CSSProperties } from 'react'
+import type { TagMatchMode, TodoTag } from '@/types'
+
+// 标签可选颜色
+export const TAG_COLORS = [
+  '#6b7280',
+  '#ef4444',
+  '#f97316',
+  '#eab308',
+  '#22c55e',
+  '#14b8a6',
+  '#3b82f6',
+  '#8b5cf6',
+  '#ec4899',
+] as const
+
+export const DEFAULT_TAG_COLOR = TAG_COLORS[0]
+
+// 根据标签颜色生成浅色背景的标签样式
+export function getTagChipStyle(color: string): CSSProperties {
+  return {
+    color,
+    backgroundColor: `${color}1a`,
+    borderColor: `${color}4d`,
+  }
+}
+
+// 任务的标签是否符合标签过滤：any 表示包含任一标签，all 表示包含全部标签；未选择标签时不过滤
+export function matchesTagFilter(
+  tagIds: string[],
+  tagFilter: string[],
+  tagMatch: TagMatchMode
+): boolean {
+  if (tagFilter.length === 0) return true
+  return tagMatch === 'all'
+    ? tagFilter.every((tagId) => tagIds.includes(tagId))
+    : tagFilter.some((tagId) => tagIds.includes(tagId))
+}
+
+// 根据选中标签的关联记录找出符合标签过滤的任务 id，用于在服务器端按标签过滤
+export function getTaggedTodoIds(
+  rows: Pick<TodoTag, 'todo_id' | 'tag_id'>[],
+  tagFilter: string[],
+  tagMatch: TagMatchMode
+): string[] {
+  const todoTags = new Map<string, string[]>()
+  for (const row of rows) {
+    todoTags.set(row.todo_id, [...(todoTags.get(row.todo_id) || []), row.tag_id])
+  }
+  return [...todoTags.keys()].filter((todoId) =>
+    matchesTagFilter(todoTags.get(todoId) || [], tagFilter, tagMatch)
+  )
+}
@@ -0,0 +1,343 @@
+import { ApiError, type ApiClient } from '@/lib/api'
+import { generateKeyBetween } from '@/lib/ranking'
+import { buildNextOccurrence, getNextDueAt } from '@/lib/recurrence'
+import { SEARCH_RESULT_LIMIT } from '@/lib/search'
+import { collectDescendants } from '@/lib/subtasks'
+import { getTaggedTodoIds } from '@/lib/tags'
+import { buildCursorFilter, getFilterConditions, getSortKeys } from '@/lib/todo-query'
+import type { ApiTodoCreateData, ApiTodoQuery, ApiTodoUpdateData } from '@/lib/validations'
+import type { Todo, TodoUpdate } from '@/types'
+
+// REST API 中的任务数据操作，使用以请求者身份创建的客户端，由行级安全策略限定在该用户的数据
+
+// API 返回的任务：任务记录附带其标签 id
+export type ApiTodo = Todo & { tag_ids: string[] }
+
+export interface ApiTodoPage {
+  todos: ApiTodo[]
+  // 下一页的游标（本页最后一个任务的 id），没有更多任务或按搜索相关度排序时为 null
+  next_cursor: string | null
+}
+
+async function withTagIds(supabase: ApiClient, rows: Todo[]): Promise<ApiTodo[]> {
+  if (rows.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('todo_tags')
+    .select('todo_id, tag_id')
+    .in(
+      'todo_id',
+      rows.map((row) => row.id)
+    )
+
+  if (error) {
+    throw error
+  }
+
+  return rows.map((row) => ({
+    ...row,
+    tag_ids: (data || []).filter((tag) => tag.todo_id === row.id).map((tag) => tag.tag_id),
+  }))
+}
+
+// 读取未删除的任务，不存在或在回收站中时返回 404
+async function findTodo(supabase: ApiClient, id: string): Promise<Todo> {
+  const { data, error } = await supabase
+    .from('todos')
+    .select('*')
+    .eq('id', id)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+  if (!data) {
+    throw new ApiError(404, '任务不存在')
+  }
+  return data
+}
+
+// 将任务的标签替换为给定的标签
+async function replaceTags(supabase: ApiClient, todo: Todo, tagIds: string[]) {
+  let removal = supabase.from('todo_tags').delete().eq('todo_id', todo.id)
+  if (tagIds.length > 0) {
+    removal = removal.not('tag_id', 'in', `(${tagIds.join(',')})`)
+  }
+  const { error: deleteError } = await removal
+
+  if (deleteError) {
+    throw deleteError
+  }
+
+  if (tagIds.length === 0) return
+
+  const { error } = await supabase.from('todo_tags').upsert(
+    tagIds.map((tagId) => ({ todo_id: todo.id, tag_id: tagId, user_id: todo.user_id })),
+    { onConflict: 'todo_id,tag_id', ignoreDuplicates: true }
+  )
+
+  if (error) {
+    throw error
+  }
+}
+
+// 搜索词和标签过滤先确定候选任务，返回 null 表示不限定
+async function findCandidateIds(
+  supabase: ApiClient,
+  query: ApiTodoQuery
+): Promise<{ ids: string[] | null; ranks: Map<string, number> | null }> {
+  let ids: string[] | null = null
+  let ranks: Map<string, number> | null = null
+
+  if (query.q) {
+    const { data, error } = await supabase.rpc('search_todos', {
+      search_query: query.q,
+      list: query.list_id ?? null,
+      max_results: SEARCH_RESULT_LIMIT,
+    })
+
+    if (error) {
+      throw error
+    }
+
+    const results: { todo_id: string; rank: number }[] = data || []
+    ranks = new Map(results.map((result) => [result.todo_id, result.rank]))
+    ids = [...ranks.keys()]
+  }
+
+  const tagIds = query.tag_ids ?? []
+  if (tagIds.length > 0) {
+    const { data, error } = await supabase
+      .from('todo_tags')
+      .select('todo_id, tag_id')
+      .in('tag_id', tagIds)
+
+    if (error) {
+      throw error
+    }
+
+    const matched = getTaggedTodoIds(data || [], tagIds, query.tag_match)
+    ids = ids ? ids.filter((id) => matched.includes(id)) : matched
+  }
+
+  return { ids, ranks }
+}
+
+// 按过滤条件查询一页任务，排序和游标分页与任务列表一致；有搜索词时按相关度排序，不分页
+export async function listTodos(supabase: ApiClient, query: ApiTodoQuery): Promise<ApiTodoPage> {
+  const { ids, ranks } = await findCandidateIds(supabase, query)
+  if (ids && ids.length === 0) {
+    return { todos: [], next_cursor: null }
+  }
+
+  const keys = getSortKeys(query.sort, query.order)
+
+  let request = supabase.from('todos').select('*').is('deleted_at', null)
+  if (query.list_id) {
+    request = request.eq('list_id', query.list_id)
+  }
+  for (const [column, operator, value] of getFilterConditions(query.filter, query.priority)) {
+    request = request.filter(column, operator, value)
+  }
+  if (ids) {
+    request = request.in('id', ids)
+  }
+  if (query.cursor && !ranks) {
+    const cursor = await findTodo(supabase, query.cursor).catch((error) => {
+      throw error instanceof ApiError ? new ApiError(400, '无效的分页游标') : error
+    })
+    request = request.or(buildCursorFilter(keys, cursor))
+  }
+  for (const key of keys) {
+    request = request.order(key.column, { ascending: key.ascending, nullsFirst: false })
+  }
+
+  // 多取一条，用于判断是否还有下一页
+  const { data, error } = await (ranks ? request : request.limit(query.limit + 1))
+
+  if (error) {
+    throw error
+  }
+
+  const rows: Todo[] = data || []
+  if (ranks) {
+    const sorted = [...rows].sort((a, b) => (ranks.get(b.id) ?? 0) - (ranks.get(a.id) ?? 0))
+    return { todos: await withTagIds(supabase, sorted), next_cursor: null }
+  }
+
+  const page = rows.slice(0, query.limit)
+  return {
+    todos: await withTagIds(supabase, page),
+    next_cursor: rows.length > query.limit ? page[page.length - 1].id : null,
+  }
+}
+
+export async function getTodo(supabase: ApiClient, id: string): Promise<ApiTodo> {
+  const [todo] = await withTagIds(supabase, [await findTodo(supabase, id)])
+  return todo
+}
+
+// 新任务所在的清单：子任务跟随父任务，未指定时为收件箱（尚未创建时返回 null）
+async function resolveListId(supabase: ApiClient, data: ApiTodoCreateData): Promise<string | null> {
+  if (data.parent_id) {
+    return (await findTodo(supabase, data.parent_id)).list_id
+  }
+  if (data.list_id) {
+    return data.list_id
+  }
+
+  const { data: inbox, error } = await supabase
+    .from('lists')
+    .select('id')
+    .eq('is_inbox', true)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+  return inbox?.id ?? null
+}
+
+// 与在应用中添加任务一致，新任务排在清单中手动排序的最前面
+async function getFirstPosition(
+  supabase: ApiClient,
+  listId: string | null
+): Promise<string | null> {
+  if (!listId) return null
+
+  const { data, error } = await supabase
+    .from('todos')
+    .select('position')
+    .eq('list_id', listId)
+    .not('position', 'is', null)
+    .order('position', { ascending: true })
+    .limit(1)
+
+  if (error) {
+    throw error
+  }
+  return data?.[0]?.position ?? null
+}
+
+export async function createTodo(
+  supabase: ApiClient,
+  userId: string,
+  data: ApiTodoCreateData
+): Promise<ApiTodo> {
+  const { tag_ids: tagIds = [], ...fields } = data
+  const listId = await resolveListId(supabase, data)
+
+  const { data: todo, error } = await supabase
+    .from('todos')
+    .insert([
+      {
+        ...fields,
+        list_id: listId ?? undefined,
+        position: generateKeyBetween(null, await getFirstPosition(supabase, listId)),
+        user_id: userId,
+      },
+    ])
+    .select()
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  if (tagIds.length > 0) {
+    await replaceTags(supabase, todo, tagIds)
+  }
+  return { ...todo, tag_ids: tagIds }
+}
+
+// 与在应用中完成重复任务一致，生成该系列的下一次任务并沿用标签
+async function createNextOccurrence(supabase: ApiClient, todo: Todo, tagIds: string[]) {
+  const dueAt = getNextDueAt(todo)
+  if (!dueAt) return
+
+  const { data, error } = await supabase
+    .from('todos')
+    .insert([buildNextOccurrence(todo, dueAt)])
+    .select()
+    .single()
+
+  if (error) {
+    // 下一次任务已经生成过（例如取消完成后再次完成）
+    if (error.code === '23505') return
+    throw error
+  }
+
+  if (tagIds.length > 0) {
+    await replaceTags(supabase, data, tagIds)
+  }
+}
+
+export async function updateTodo(
+  supabase: ApiClient,
+  id: string,
+  data: ApiTodoUpdateData
+): Promise<ApiTodo> {
+  const current = await findTodo(supabase, id)
+  const { tag_ids: tagIds, ...updates } = data
+
+  const next = { ...current, ...updates }
+  if (next.recurrence_rule && !next.due_at) {
+    throw new ApiError(400, '重复任务需要设置截止时间')
+  }
+
+  let todo = current
+  if (Object.keys(updates).length > 0) {
+    const { data: updated, error } = await supabase
+      .from('todos')
+      .update(updates satisfies TodoUpdate)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      throw error
+    }
+    todo = updated
+  }
+
+  if (tagIds) {
+    await replaceTags(supabase, todo, tagIds)
+  }
+
+  const [result] = await withTagIds(supabase, [todo])
+  if (!current.completed && todo.completed) {
+    await createNextOccurrence(supabase, todo, result.tag_ids)
+  }
+  return result
+}
+
+// 与在应用中删除一致：任务连同子任务移到回收站，返回被删除的任务 id
+export async function deleteTodo(supabase: ApiClient, id: string): Promise<string[]> {
+  await findTodo(supabase, id)
+
+  // 逐层查询子任务，不一次读取所有任务，避免结果被 max_rows 截断而遗漏子任务
+  const descendants = await collectDescendants([id], async (parentIds) => {
+    const { data, error } = await supabase
+      .from('todos')
+      .select('id')
+      .in('parent_id', parentIds)
+      .is('deleted_at', null)
+
+    if (error) {
+      throw error
+    }
+    return data || []
+  })
+
+  const ids = [id, ...descendants.map((todo) => todo.id)]
+  const { error } = await supabase
+    .from('todos')
+    .update({ deleted_at: new Date().toISOString() })
+    .in('id', ids)
+
+  if (error) {
+    throw error
+  }
+  return ids
+}
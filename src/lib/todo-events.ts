@@ -0,0 +1,140 @@
+import { getDescendantIds } from '@/lib/subtasks'
+import type { Todo, TodoTag, TodoUpdate } from '@/types'
+
+export interface TodoEventState {
+  todos: Todo[]
+  todoTags: Record<string, string[]>
+  trash: Todo[]
+  // 当前选中的清单，为 null 时不限定清单
+  listId: string | null
+}
+
+export type TodoEventSlice = Pick<TodoEventState, 'todos' | 'todoTags' | 'trash'>
+
+export type RealtimeEvent<T> =
+  { eventType: 'INSERT' | 'UPDATE'; new: T } | { eventType: 'DELETE'; old: Partial<T> }
+
+// 将任务记录写回列表：已存在的替换，不存在的插入到最前面
+export function upsertTodos(todos: Todo[], rows: Todo[]): Todo[] {
+  const byId = new Map(rows.map((row) => [row.id, row]))
+  const existing = new Set(todos.map((todo) => todo.id))
+  return [
+    ...rows.filter((row) => !existing.has(row.id)),
+    ...todos.map((todo) => byId.get(todo.id) ?? todo),
+  ]
+}
+
+// 修改任务失败时回滚：只恢复本次修改的字段，保留期间发生的其他修改；
+// 任务已不在列表中（如被移到其他清单）时，恢复修改前的任务及其子任务
+export function rollbackTodoUpdate(
+  todos: Todo[],
+  snapshot: Todo[],
+  id: string,
+  updates: TodoUpdate
+): Todo[] {
+  const previous = snapshot.find((todo) => todo.id === id)
+  if (!previous || !todos.some((todo) => todo.id === id)) {
+    return upsertTodos(todos, snapshot)
+  }
+  const reverted = Object.fromEntries(
+    Object.keys(updates).map((key) => [key, previous[key as keyof Todo]])
+  )
+  return todos.map((todo) => (todo.id === id ? { ...todo, ...reverted } : todo))
+}
+
+// 从状态中移除任务及其所有后代任务
+export function removeTodoTree(
+  state: Pick<TodoEventState, 'todos' | 'todoTags'>,
+  id: string
+): Pick<TodoEventState, 'todos' | 'todoTags'> {
+  const removed = new Set([id, ...getDescendantIds(state.todos, id)])
+  return {
+    todos: state.todos.filter((todo) => !removed.has(todo.id)),
+    todoTags: Object.fromEntries(
+      Object.entries(state.todoTags).filter(([todoId]) => !removed.has(todoId))
+    ),
+  }
+}
+
+// 从回收站状态中移除任务
+export function removeFromTrash(trash: Todo[], ids: string[]): Todo[] {
+  return trash.filter((todo) => !ids.includes(todo.id))
+}
+
+// 推送的记录比本地已有的版本旧（乱序到达或重复推送）
+export function isStale(current: Todo | undefined, incoming: Todo): boolean {
+  return !!current && new Date(incoming.updated_at) < new Date(current.updated_at)
+}
+
+// 推送的记录比本地已有的版本新：任务在其他地方（其他设备或标签页）被修改了。
+// 本地修改的推送与请求返回的记录版本相同，不会被当作其他地方的修改
+export function isRemoteChange(state: TodoEventState, incoming: Todo): boolean {
+  const current =
+    state.todos.find((todo) => todo.id === incoming.id) ??
+    state.trash.find((todo) => todo.id === incoming.id)
+  return !!current && new Date(incoming.updated_at) > new Date(current.updated_at)
+}
+
+// 处理 todos 表的实时推送。INSERT 和 UPDATE 都按 id 写入，重复推送不会产生重复任务；
+// 返回 null 表示推送与本地状态无关，无需更新状态
+export function reduceTodoEvent(
+  state: TodoEventState,
+  event: RealtimeEvent<Todo>
+): TodoEventSlice | null {
+  if (event.eventType === 'DELETE') {
+    const id = event.old.id
+    if (!id) return null
+    // 级联删除的子任务可能先于或晚于父任务的事件到达，一并移除以保持树结构一致
+    const removed = removeTodoTree(state, id)
+    const trash = removeFromTrash(state.trash, [id])
+    // DELETE 推送不按用户过滤，其他用户的任务不在本地
+    if (removed.todos.length === state.todos.length && trash.length === state.trash.length) {
+      return null
+    }
+    return { ...removed, trash }
+  }
+
+  const record = event.new
+  const current =
+    state.todos.find((todo) => todo.id === record.id) ??
+    state.trash.find((todo) => todo.id === record.id)
+  if (isStale(current, record)) return null
+
+  // 回收站不区分清单：删除的任务移入回收站，恢复的任务移出回收站
+  const trash = removeFromTrash(state.trash, [record.id])
+  if (record.deleted_at) {
+    return {
+      todos: state.todos.filter((todo) => todo.id !== record.id),
+      todoTags: state.todoTags,
+      trash: [record, ...trash],
+    }
+  }
+
+  // 只保留当前清单中的任务，移到其他清单的任务连同子任务一起移除
+  if (state.listId && record.list_id !== state.listId) {
+    if (!current) return null
+    return { ...removeTodoTree(state, record.id), trash }
+  }
+
+  // 排序和过滤由 filteredTodos 重新计算
+  return { todos: upsertTodos(state.todos, [record]), todoTags: state.todoTags, trash }
+}
+
+// 处理 todo_tags 表的实时推送，重复推送不会产生重复的关联
+export function reduceTodoTagEvent(
+  todoTags: Record<string, string[]>,
+  event: RealtimeEvent<TodoTag>
+): Record<string, string[]> | null {
+  if (event.eventType === 'DELETE') {
+    const { todo_id, tag_id } = event.old
+    if (!todo_id || !tag_id) return null
+    const current = todoTags[todo_id] || []
+    if (!current.includes(tag_id)) return null
+    return { ...todoTags, [todo_id]: current.filter((id) => id !== tag_id) }
+  }
+
+  const { todo_id, tag_id } = event.new
+  const current = todoTags[todo_id] || []
+  if (current.includes(tag_id)) return null
+  return { ...todoTags, [todo_id]: [...current, tag_id] }
+}
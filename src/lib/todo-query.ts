@@ -0,0 +1,162 @@
+import { getDayRange, getWeekRange, isDueThisWeek, isDueToday, isOverdue } from '@/lib/utils'
+import type { PriorityFilter, SortOrder, Todo, TodoFilter, TodoSort } from '@/types'
+
+// 每页加载的任务数，需小于 supabase/config.toml 中的 max_rows
+export const PAGE_SIZE = 50
+
+export const TODO_FILTERS = [
+  'all',
+  'active',
+  'completed',
+  'overdue',
+  'due_today',
+  'due_this_week',
+] as const satisfies readonly TodoFilter[]
+
+export const TODO_SORTS = [
+  'created_at',
+  'updated_at',
+  'title',
+  'due_at',
+  'priority',
+  'manual',
+] as const satisfies readonly TodoSort[]
+
+export const SORT_ORDERS = ['asc', 'desc'] as const satisfies readonly SortOrder[]
+
+export type TodoCounts = Record<TodoFilter, number>
+
+// 服务器端过滤条件：[列名, PostgREST 运算符, 值]
+export type TodoCondition = [column: string, operator: 'eq' | 'gte' | 'lt', value: string | boolean]
+
+export interface SortKey {
+  // title_sort 是数据库中的计算列（见 016_title_sort.sql），不出现在任务记录中
+  column: 'created_at' | 'updated_at' | 'title_sort' | 'due_at' | 'priority' | 'position' | 'id'
+  ascending: boolean
+}
+
+// 可能为空的排序列，空值始终排在最后
+const NULLABLE_COLUMNS = new Set<SortKey['column']>(['due_at', 'position'])
+
+// 将状态和优先级过滤转换为服务器端的查询条件，与 filteredTodos 的本地过滤保持一致
+export function getFilterConditions(
+  filter: TodoFilter,
+  priority: PriorityFilter = 'all',
+  now: Date = new Date()
+): TodoCondition[] {
+  const conditions: TodoCondition[] = []
+
+  if (priority !== 'all') {
+    conditions.push(['priority', 'eq', priority])
+  }
+
+  const due = (start: Date | null, end: Date) => [
+    ...(start ? [['due_at', 'gte', start.toISOString()] as TodoCondition] : []),
+    ['due_at', 'lt', end.toISOString()] as TodoCondition,
+  ]
+
+  switch (filter) {
+    case 'active':
+      return [...conditions, ['completed', 'eq', false]]
+    case 'completed':
+      return [...conditions, ['completed', 'eq', true]]
+    // 截止时间相关的过滤只关心未完成的任务
+    case 'overdue':
+      return [...conditions, ['completed', 'eq', false], ...due(null, now)]
+    case 'due_today': {
+      const [start, end] = getDayRange(now)
+      return [...conditions, ['completed', 'eq', false], ...due(start, end)]
+    }
+    case 'due_this_week': {
+      const [start, end] = getWeekRange(now)
+      return [...conditions, ['completed', 'eq', false], ...due(start, end)]
+    }
+    default:
+      return conditions
+  }
+}
+
+// 服务器端的排序列，与 compareTodos 的本地排序一致，最后以 id 保证顺序唯一，分页游标才能准确衔接
+export function getSortKeys(sort: TodoSort, order: SortOrder): SortKey[] {
+  const ascending = order === 'asc'
+
+  switch (sort) {
+    case 'manual':
+      return [
+        { column: 'position', ascending: true },
+        { column: 'created_at', ascending: false },
+        { column: 'id', ascending: true },
+      ]
+    case 'priority':
+      return [
+        { column: 'priority', ascending },
+        { column: 'created_at', ascending: false },
+        { column: 'id', ascending: true },
+      ]
+    default:
+      return [
+        { column: sort === 'title' ? 'title_sort' : sort, ascending },
+        { column: 'priority', ascending: false },
+        { column: 'id', ascending: true },
+      ]
+  }
+}
+
+// 按标题排序：转为小写后按 Unicode 码点比较，与数据库中 title_sort 计算列
+// （lower(title)，"C" 排序规则下逐字节比较 UTF-8）的顺序一致，分页加载后顺序不会变化
+export function compareTitles(a: string, b: string): number {
+  const x = Array.from(a.toLowerCase(), (char) => char.codePointAt(0)!)
+  const y = Array.from(b.toLowerCase(), (char) => char.codePointAt(0)!)
+  for (let i = 0; i < Math.min(x.length, y.length); i++) {
+    if (x[i] !== y[i]) return x[i] - y[i]
+  }
+  return x.length - y.length
+}
+
+// 任务在排序列上的值，title_sort 由标题计算
+function getSortValue(todo: Todo, column: SortKey['column']): string | null {
+  const value = column === 'title_sort' ? todo.title.toLowerCase() : todo[column]
+  return value === null ? null : String(value)
+}
+
+// 引号包裹过滤值，避免标题等内容中的逗号和括号破坏 PostgREST 的过滤语法
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+// 生成 PostgREST or 过滤条件，选出排在游标（上一页最后一个任务）之后的任务：
+// 前面的排序列都相等，且当前列排在游标之后（空值排在最后）
+export function buildCursorFilter(keys: SortKey[], cursor: Todo): string {
+  const equal = (key: SortKey) => {
+    const value = getSortValue(cursor, key.column)
+    return value === null ? `${key.column}.is.null` : `${key.column}.eq.${quote(value)}`
+  }
+
+  return keys
+    .flatMap((key, index) => {
+      const value = getSortValue(cursor, key.column)
+      // 游标在该列为空时已排在最后，不存在更靠后的值
+      if (value === null) return []
+
+      let after = `${key.column}.${key.ascending ? 'gt' : 'lt'}.${quote(value)}`
+      if (NULLABLE_COLUMNS.has(key.column)) {
+        after = `or(${after},${key.column}.is.null)`
+      }
+      const previous = keys.slice(0, index).map(equal)
+      return [previous.length > 0 ? `and(${[...previous, after].join(',')})` : after]
+    })
+    .join(',')
+}
+
+// 离线且没有服务器计数时，根据已加载的任务估算各过滤条件的数量
+export function countTodos(todos: Todo[], now: Date = new Date()): TodoCounts {
+  const active = todos.filter((todo) => !todo.completed)
+  return {
+    all: todos.length,
+    active: active.length,
+    completed: todos.length - active.length,
+    overdue: active.filter((todo) => isOverdue(todo.due_at, now)).length,
+    due_today: active.filter((todo) => isDueToday(todo.due_at, now)).length,
+    due_this_week: active.filter((todo) => isDueThisWeek(todo.due_at, now)).length,
+  }
+}
@@ -0,0 +1,29 @@
+const DEFAULT_RETENTION_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// 解析保留天数；0 表示不自动清理，无效值使用默认值
+export function parseRetentionDays(value: string | undefined): number {
+  if (value === undefined || value.trim() === '') return DEFAULT_RETENTION_DAYS
+  const days = Number(value)
+  return Number.isInteger(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS
+}
+
+// 回收站中的任务保留天数，可通过环境变量 NEXT_PUBLIC_TRASH_RETENTION_DAYS 配置
+export const TRASH_RETENTION_DAYS = parseRetentionDays(process.env.NEXT_PUBLIC_TRASH_RETENTION_DAYS)
+
+// 早于该时间删除的任务应被永久清理；不自动清理时返回 null
+export function getPurgeCutoff(retentionDays: number, now: Date = new Date()): Date | null {
+  if (retentionDays <= 0) return null
+  return new Date(now.getTime() - retentionDays * DAY_MS)
+}
+
+// 距离被自动清理还剩的天数（向上取整，最少为 0）；不自动清理时返回 null
+export function getDaysUntilPurge(
+  deletedAt: string,
+  retentionDays: number,
+  now: Date = new Date()
+): number | null {
+  if (retentionDays <= 0) return null
+  const purgeAt = new Date(deletedAt).getTime() + retentionDays * DAY_MS
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / DAY_MS))
+}
@@ -45,6 +45,52 @@ export function formatRelativeTime(date: string | Date): string {
   return formatDate(date)
 }
 
+// 转换为 datetime-local 输入框使用的本地时间字符串（YYYY-MM-DDTHH:mm）
+export function toDateTimeLocalValue(date: string | Date): string {
+  const d = new Date(date)
+  const pad = (n: number) => n.toString().padStart(2, '0')
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`
+}
+
+// 获取本地时间当天的起止时间
+export function getDayRange(now: Date): [Date, Date] {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+  const end = new Date(start)
+  end.setDate(end.getDate() + 1)
+  return [start, end]
+}
+
+// 获取本周（周一至周日）的起止时间
+export function getWeekRange(now: Date): [Date, Date] {
+  const [today] = getDayRange(now)
+  const start = new Date(today)
+  start.setDate(start.getDate() - ((today.getDay() + 6) % 7))
+  const end = new Date(start)
+  end.setDate(end.getDate() + 7)
+  return [start, end]
+}
+
+// 判断截止时间是否已过
+export function isOverdue(dueAt: string | null, now: Date = new Date()): boolean {
+  return !!dueAt && new Date(dueAt).getTime() < now.getTime()
+}
+
+// 判断截止时间是否在今天
+export function isDueToday(dueAt: string | null, now: Date = new Date()): boolean {
+  if (!dueAt) return false
+  const [start, end] = getDayRange(now)
+  const due = new Date(dueAt)
+  return due >= start && due < end
+}
+
+// 判断截止时间是否在本周
+export function isDueThisWeek(dueAt: string | null, now: Date = new Date()): boolean {
+  if (!dueAt) return false
+  const [start, end] = getWeekRange(now)
+  const due = new Date(dueAt)
+  return due >= start && due < end
+}
+
 // 防抖函数
 export function debounce<T extends (...args: any[]) => any>(
   func: T,
@@ -87,6 +133,15 @@ export function getErrorMessage(error: unknown): string {
   return '发生了未知错误'
 }
 
+// URL 安全的 Base64 编码（不含填充），用于令牌和 JWT
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
 // 生成随机 ID
 export function generateId(): string {
   return Math.random().toString(36).substring(2) + Date.now().toString(36)
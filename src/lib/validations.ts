@@ -1,4 +1,17 @@
 import { z } from 'zod'
+import { PRIORITY_LEVELS } from '@/lib/priority'
+import { DEFAULT_LIST_COLOR, LIST_ICON_NAMES } from '@/lib/lists'
+import { DEFAULT_TAG_COLOR } from '@/lib/tags'
+import { parseRRule } from '@/lib/recurrence'
+import { ACCESS_TOKEN_EXPIRY_DAYS, ACCESS_TOKEN_SCOPES } from '@/lib/access-tokens'
+import { WEBHOOK_EVENTS } from '@/lib/webhooks'
+import { PAGE_SIZE, SORT_ORDERS, TODO_FILTERS, TODO_SORTS } from '@/lib/todo-query'
+import {
+  ATTACHMENT_MAX_COUNT,
+  ATTACHMENT_MAX_SIZE,
+  ATTACHMENT_MIME_TYPES,
+  formatFileSize,
+} from '@/lib/attachments'
 
 // 认证表单验证
 export const loginSchema = z.object({
@@ -24,23 +37,218 @@ export const registerSchema = z
     path: ['confirmPassword'],
   })
 
+// 附件验证
+export const attachmentFileSchema = z
+  .instanceof(File, { message: '请选择有效的文件' })
+  .refine((file) => file.size > 0, '不能上传空文件')
+  .refine(
+    (file) => file.size <= ATTACHMENT_MAX_SIZE,
+    `文件大小不能超过 ${formatFileSize(ATTACHMENT_MAX_SIZE)}`
+  )
+  .refine(
+    (file) => (ATTACHMENT_MIME_TYPES as readonly string[]).includes(file.type),
+    '不支持的文件类型'
+  )
+
+// 任务描述支持 Markdown，与数据库中的长度约束保持一致
+export const DESCRIPTION_MAX_LENGTH = 5000
+
 // Todo 表单验证
-export const todoSchema = z.object({
-  title: z
+export const todoSchema = z
+  .object({
+    title: z
+      .string()
+      .min(1, '标题不能为空')
+      .max(100, '标题不能超过 100 个字符')
+      .trim()
+      .refine((val) => val.length > 0, '标题不能只包含空格'),
+    description: z
+      .string()
+      .max(DESCRIPTION_MAX_LENGTH, `描述不能超过 ${DESCRIPTION_MAX_LENGTH} 个字符`)
+      .optional()
+      .or(z.literal(''))
+      .transform((val) => (val === '' ? undefined : val)),
+    due_at: z
+      .string()
+      .refine((val) => !Number.isNaN(new Date(val).getTime()), '请输入有效的截止时间')
+      .optional()
+      .or(z.literal(''))
+      .transform((val) => (val === '' ? undefined : val)),
+    priority: z.enum(PRIORITY_LEVELS, { message: '请选择有效的优先级' }),
+    tag_ids: z.array(z.string().uuid()).max(10, '每个任务最多添加 10 个标签'),
+    recurrence_rule: z
+      .string()
+      .refine((val) => parseRRule(val) !== null, '请设置有效的重复规则')
+      .optional()
+      .or(z.literal(''))
+      .transform((val) => (val === '' ? undefined : val)),
+    attachments: z
+      .array(attachmentFileSchema)
+      .max(ATTACHMENT_MAX_COUNT, `每个任务最多添加 ${ATTACHMENT_MAX_COUNT} 个附件`),
+  })
+  .refine((data) => !data.recurrence_rule || data.due_at, {
+    message: '重复任务需要设置截止时间',
+    path: ['due_at'],
+  })
+
+// 标签表单验证
+export const tagSchema = z.object({
+  name: z.string().trim().min(1, '标签名称不能为空').max(30, '标签名称不能超过 30 个字符'),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, '请选择有效的颜色'),
+})
+
+// 清单表单验证
+export const listSchema = z.object({
+  name: z.string().trim().min(1, '清单名称不能为空').max(50, '清单名称不能超过 50 个字符'),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, '请选择有效的颜色'),
+  icon: z.enum(LIST_ICON_NAMES, { message: '请选择有效的图标' }),
+})
+
+// 个人访问令牌表单验证
+export const accessTokenSchema = z.object({
+  name: z.string().trim().min(1, '令牌名称不能为空').max(50, '令牌名称不能超过 50 个字符'),
+  scope: z.enum(ACCESS_TOKEN_SCOPES, { message: '请选择有效的权限' }),
+  expires_in: z.coerce
+    .number()
+    .refine(
+      (days) => (ACCESS_TOKEN_EXPIRY_DAYS as readonly number[]).includes(days),
+      '请选择有效的有效期'
+    ),
+})
+
+// Webhook 表单验证
+export const webhookSchema = z.object({
+  url: z
     .string()
-    .min(1, '标题不能为空')
-    .max(100, '标题不能超过 100 个字符')
     .trim()
-    .refine((val) => val.length > 0, '标题不能只包含空格'),
-  description: z
+    .min(1, '地址不能为空')
+    .max(2000, '地址不能超过 2000 个字符')
+    .url('请输入有效的地址')
+    .refine((url) => /^https?:\/\//.test(url), '地址必须以 http:// 或 https:// 开头'),
+  events: z.array(z.enum(WEBHOOK_EVENTS, { message: '无效的事件' })).min(1, '至少选择一个事件'),
+  secret: z.string().min(16, '签名密钥至少需要 16 个字符').max(200, '签名密钥不能超过 200 个字符'),
+})
+
+// 导入备份时任务字段以外的部分：任务字段按 todoSchema 校验，这里校验关联关系、清单和标签。
+// 清单和标签的颜色、图标无效时使用默认值
+export const importRowSchema = z.object({
+  id: z.string().max(100, '任务 id 过长').nullable(),
+  parent_id: z.string().max(100, '父任务 id 过长').nullable(),
+  recurrence_series_id: z.string().max(100).nullable().catch(null),
+  recurrence_index: z.coerce.number().int().min(1).catch(1),
+  completed: z.boolean({ message: '完成状态必须为 true 或 false' }),
+  // 排序键不能以 0 结尾
+  position: z
+    .string()
+    .regex(/^[0-9A-Za-z]*[1-9A-Za-z]$/)
+    .nullable()
+    .catch(null),
+  created_at: z
+    .string()
+    .refine((val) => !Number.isNaN(new Date(val).getTime()), '请输入有效的创建时间')
+    .nullable(),
+  list: z
+    .object({
+      name: listSchema.shape.name,
+      color: listSchema.shape.color.catch(DEFAULT_LIST_COLOR),
+      icon: listSchema.shape.icon.catch('list'),
+    })
+    .nullable(),
+  tags: z
+    .array(
+      z.object({
+        name: tagSchema.shape.name,
+        color: tagSchema.shape.color.catch(DEFAULT_TAG_COLOR),
+      })
+    )
+    .max(10, '每个任务最多添加 10 个标签'),
+})
+
+// 视图参数验证（URL 查询参数和本地存储中保存的视图），无效的字段被忽略
+export const viewStateSchema = z.object({
+  filter: z.enum(TODO_FILTERS).optional().catch(undefined),
+  sort: z.enum(TODO_SORTS).optional().catch(undefined),
+  order: z.enum(SORT_ORDERS).optional().catch(undefined),
+  search: z.string().max(200).optional().catch(undefined),
+})
+
+// REST API 请求体中任务字段的规则与表单一致
+const todoFields = todoSchema.innerType().shape
+
+// 重复任务需要截止时间；修改时只在同时提交了这两个字段时检查
+const requireDueAtForRecurrence = {
+  message: '重复任务需要设置截止时间',
+  path: ['due_at'],
+}
+
+// REST API 创建任务；未指定清单时放入收件箱
+export const apiTodoCreateSchema = z
+  .object({
+    title: todoFields.title,
+    description: todoFields.description,
+    due_at: todoFields.due_at,
+    priority: todoFields.priority.optional(),
+    completed: z.boolean().optional(),
+    list_id: z.string().uuid('请选择有效的清单').optional(),
+    parent_id: z.string().uuid('请选择有效的父任务').optional(),
+    recurrence_rule: todoFields.recurrence_rule,
+    tag_ids: todoFields.tag_ids.optional(),
+  })
+  .strict()
+  .refine((data) => !data.recurrence_rule || data.due_at, requireDueAtForRecurrence)
+
+// REST API 修改任务，只修改提交的字段；可选字段传 null 表示清除
+export const apiTodoUpdateSchema = z
+  .object({
+    title: todoFields.title,
+    description: todoFields.description.nullable(),
+    due_at: todoFields.due_at.nullable(),
+    priority: todoFields.priority,
+    completed: z.boolean(),
+    list_id: z.string().uuid('请选择有效的清单'),
+    recurrence_rule: todoFields.recurrence_rule.nullable(),
+    tag_ids: todoFields.tag_ids,
+  })
+  .partial()
+  .strict()
+  .refine((data) => Object.keys(data).length > 0, '没有需要修改的字段')
+  .refine((data) => !data.recurrence_rule || data.due_at !== null, requireDueAtForRecurrence)
+
+// REST API 任务列表的查询参数，与任务列表的过滤、排序和搜索一致
+export const apiTodoQuerySchema = z.object({
+  filter: z.enum(TODO_FILTERS, { message: '无效的过滤条件' }).default('all'),
+  sort: z.enum(TODO_SORTS, { message: '无效的排序字段' }).default('created_at'),
+  order: z.enum(SORT_ORDERS, { message: '无效的排序方向' }).default('desc'),
+  priority: z.enum(['all', ...PRIORITY_LEVELS], { message: '无效的优先级' }).default('all'),
+  // 逗号分隔的标签 id
+  tag_ids: z
     .string()
-    .max(500, '描述不能超过 500 个字符')
-    .optional()
-    .or(z.literal(''))
-    .transform((val) => (val === '' ? undefined : val)),
+    .transform((value) => value.split(',').filter(Boolean))
+    .pipe(z.array(z.string().uuid('无效的标签')).max(10, '最多按 10 个标签过滤'))
+    .optional(),
+  tag_match: z.enum(['any', 'all'], { message: '无效的标签匹配方式' }).default('any'),
+  q: z.string().trim().max(200, '搜索词不能超过 200 个字符').optional(),
+  list_id: z.string().uuid('无效的清单').optional(),
+  // 上一页最后一个任务的 id
+  cursor: z.string().uuid('无效的分页游标').optional(),
+  limit: z.coerce
+    .number({ message: '无效的分页大小' })
+    .int('无效的分页大小')
+    .min(1, '分页大小至少为 1')
+    .max(100, '分页大小不能超过 100')
+    .default(PAGE_SIZE),
 })
 
 // 导出类型
 export type LoginFormData = z.infer<typeof loginSchema>
 export type RegisterFormData = z.infer<typeof registerSchema>
 export type TodoFormData = z.infer<typeof todoSchema>
+export type TagFormData = z.infer<typeof tagSchema>
+export type ListFormData = z.infer<typeof listSchema>
+export type AccessTokenFormData = z.infer<typeof accessTokenSchema>
+export type WebhookFormData = z.infer<typeof webhookSchema>
+export type ImportRowData = z.infer<typeof importRowSchema>
+export type ViewStateData = z.infer<typeof viewStateSchema>
+export type ApiTodoCreateData = z.infer<typeof apiTodoCreateSchema>
+export type ApiTodoUpdateData = z.infer<typeof apiTodoUpdateSchema>
+export type ApiTodoQuery = z.infer<typeof apiTodoQuerySchema>
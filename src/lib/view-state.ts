@@ -0,0 +1,95 @@
+import { viewStateSchema } from '@/lib/validations'
+import type { SortOrder, TodoFilter, TodoSort } from '@/types'
+
+// 任务列表的视图：过滤、排序和搜索，可以通过链接分享
+export interface TodoViewState {
+  filter: TodoFilter
+  sort: TodoSort
+  order: SortOrder
+  search: string
+}
+
+export const DEFAULT_VIEW: TodoViewState = {
+  filter: 'all',
+  sort: 'created_at',
+  order: 'desc',
+  search: '',
+}
+
+// 视图字段对应的 URL 查询参数
+const PARAM_NAMES: Record<keyof TodoViewState, string> = {
+  filter: 'filter',
+  sort: 'sort',
+  order: 'order',
+  search: 'q',
+}
+
+const VIEW_KEYS = Object.keys(PARAM_NAMES) as (keyof TodoViewState)[]
+
+// 校验后只保留有效的字段
+function parseView(raw: unknown): Partial<TodoViewState> {
+  const result = viewStateSchema.safeParse(raw)
+  if (!result.success) return {}
+  return Object.fromEntries(
+    Object.entries(result.data).filter(([, value]) => value !== undefined)
+  ) as Partial<TodoViewState>
+}
+
+// 从 URL 查询参数读取视图，没有任何视图参数时返回 null
+export function parseViewParams(params: URLSearchParams): Partial<TodoViewState> | null {
+  const raw = Object.fromEntries(
+    VIEW_KEYS.filter((key) => params.has(PARAM_NAMES[key])).map((key) => [
+      key,
+      params.get(PARAM_NAMES[key]),
+    ])
+  )
+  return Object.keys(raw).length > 0 ? parseView(raw) : null
+}
+
+// 将视图写入查询字符串，保留其他参数；与默认值相同的字段不写入，链接保持简短
+export function buildViewSearch(current: string, view: TodoViewState): string {
+  const params = new URLSearchParams(current)
+  for (const key of VIEW_KEYS) {
+    if (view[key] === DEFAULT_VIEW[key]) {
+      params.delete(PARAM_NAMES[key])
+    } else {
+      params.set(PARAM_NAMES[key], view[key])
+    }
+  }
+  const query = params.toString()
+  return query ? `?${query}` : ''
+}
+
+export function pickView(state: TodoViewState): TodoViewState {
+  return { filter: state.filter, sort: state.sort, order: state.order, search: state.search }
+}
+
+export function isSameView(a: TodoViewState, b: TodoViewState): boolean {
+  return VIEW_KEYS.every((key) => a[key] === b[key])
+}
+
+function getStorageKey(userId: string): string {
+  return `todolist:view:${userId}`
+}
+
+// 读取该用户上次使用的视图，没有保存或无法读取时返回 null
+export function loadSavedView(userId: string): Partial<TodoViewState> | null {
+  if (typeof localStorage === 'undefined') return null
+  try {
+    const saved = localStorage.getItem(getStorageKey(userId))
+    return saved ? parseView(JSON.parse(saved)) : null
+  } catch {
+    return null
+  }
+}
+
+// 保存该用户的视图作为下次打开时的默认视图；搜索词只保留在链接中，不作为默认视图
+export function saveView(userId: string, view: TodoViewState) {
+  if (typeof localStorage === 'undefined') return
+  try {
+    const { filter, sort, order } = view
+    localStorage.setItem(getStorageKey(userId), JSON.stringify({ filter, sort, order }))
+  } catch {
+    // 存储空间已满或被禁用时不保存
+  }
+}
@@ -0,0 +1,217 @@
+import { createServiceClient } from '@/lib/supabase/server'
+import { getErrorMessage } from '@/lib/utils'
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WEBHOOK_TIMEOUT,
+  getRetryDelay,
+  isSuccessfulResponse,
+  signWebhookPayload,
+  truncateResponseBody,
+} from '@/lib/webhooks'
+import { PrivateAddressError, postWebhook } from '@/lib/webhook-request'
+import type { Webhook, WebhookDelivery, WebhookPayload } from '@/types'
+
+// 在服务器端发送 Webhook 请求并记录结果。投递记录由数据库触发器写入，
+// 定时调用 dispatchDueDeliveries 发送到期的记录；测试和重新投递时立即发送
+
+type ServiceClient = ReturnType<typeof createServiceClient>
+
+// 每次最多发送的投递数
+const DISPATCH_BATCH_SIZE = 20
+
+// 发送期间推迟该记录的下一次尝试时间，避免同时运行的多个任务重复发送
+const CLAIM_LEASE = 60 * 1000
+
+interface SendResult {
+  responseStatus: number | null
+  responseBody: string | null
+  error: string | null
+  // 为 false 时不再重试，如地址不允许访问
+  retry: boolean
+}
+
+async function send(webhook: Webhook, delivery: WebhookDelivery): Promise<SendResult> {
+  const body = JSON.stringify(delivery.payload)
+  const timestamp = Math.floor(Date.now() / 1000)
+
+  try {
+    const response = await postWebhook(webhook.url, {
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Todolist-Webhook/1.0',
+        [WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(webhook.secret, timestamp, body),
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_EVENT_HEADER]: delivery.event,
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+      },
+      body,
+      timeout: WEBHOOK_TIMEOUT,
+      allowPrivate: process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true',
+    })
+
+    return {
+      responseStatus: response.status,
+      responseBody: truncateResponseBody(response.body),
+      error: isSuccessfulResponse(response.status) ? null : `HTTP ${response.status}`,
+      retry: true,
+    }
+  } catch (error) {
+    return {
+      responseStatus: null,
+      responseBody: null,
+      error: getErrorMessage(error),
+      retry: !(error instanceof PrivateAddressError),
+    }
+  }
+}
+
+// 发送一次并记录结果：成功或不再重试时结束，否则按指数退避安排下一次尝试
+async function deliver(
+  supabase: ServiceClient,
+  delivery: WebhookDelivery,
+  webhook: Webhook | undefined
+): Promise<WebhookDelivery> {
+  const attempts = delivery.attempts + 1
+  // 测试请求在停用的 Webhook 上同样发送
+  const result: SendResult =
+    webhook && (webhook.active || delivery.event === 'ping')
+      ? await send(webhook, delivery)
+      : {
+          responseStatus: null,
+          responseBody: null,
+          error: 'Webhook 已停用或已删除',
+          retry: false,
+        }
+
+  const now = Date.now()
+  const succeeded = result.responseStatus !== null && isSuccessfulResponse(result.responseStatus)
+  const delay = succeeded || !result.retry ? null : getRetryDelay(attempts)
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      attempts,
+      status: succeeded ? 'succeeded' : delay === null ? 'failed' : 'pending',
+      response_status: result.responseStatus,
+      response_body: result.responseBody,
+      error: result.error,
+      delivered_at: succeeded ? new Date(now).toISOString() : null,
+      ...(delay !== null && { next_attempt_at: new Date(now + delay).toISOString() }),
+    })
+    .eq('id', delivery.id)
+    .select()
+    .single()
+
+  if (error) {
+    throw error
+  }
+  return data
+}
+
+async function fetchWebhooks(
+  supabase: ServiceClient,
+  ids: string[]
+): Promise<Map<string, Webhook>> {
+  const { data, error } = await supabase.from('webhooks').select('*').in('id', ids)
+
+  if (error) {
+    throw error
+  }
+  return new Map((data || []).map((webhook) => [webhook.id, webhook]))
+}
+
+// 发送所有到期的投递，返回发送的数量。由定时任务调用
+export async function dispatchDueDeliveries(): Promise<number> {
+  const supabase = createServiceClient()
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(DISPATCH_BATCH_SIZE)
+
+  if (error) {
+    throw error
+  }
+
+  const deliveries: WebhookDelivery[] = data || []
+  if (deliveries.length === 0) return 0
+
+  const webhooks = await fetchWebhooks(supabase, [
+    ...new Set(deliveries.map((delivery) => delivery.webhook_id)),
+  ])
+
+  let sent = 0
+  for (const delivery of deliveries) {
+    // 只有仍是读取时的尝试时间才认领成功，已被其他任务认领的记录跳过
+    const { data: claimed, error: claimError } = await supabase
+      .from('webhook_deliveries')
+      .update({ next_attempt_at: new Date(Date.now() + CLAIM_LEASE).toISOString() })
+      .eq('id', delivery.id)
+      .eq('status', 'pending')
+      .eq('next_attempt_at', delivery.next_attempt_at)
+      .select('id')
+
+    if (claimError) {
+      throw claimError
+    }
+    if (!claimed || claimed.length === 0) continue
+
+    try {
+      await deliver(supabase, delivery, webhooks.get(delivery.webhook_id))
+      sent++
+    } catch (err) {
+      // 记录结果失败时，认领到期后会再次发送
+      console.error('Error delivering webhook:', err)
+    }
+  }
+  return sent
+}
+
+// 新建一条投递并立即发送，用于测试和重新投递
+async function createAndDeliver(
+  webhook: Webhook,
+  event: WebhookDelivery['event'],
+  payload: WebhookPayload
+): Promise<WebhookDelivery> {
+  const supabase = createServiceClient()
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .insert([
+      {
+        webhook_id: webhook.id,
+        event,
+        payload,
+        user_id: webhook.user_id,
+        next_attempt_at: new Date(Date.now() + CLAIM_LEASE).toISOString(),
+      },
+    ])
+    .select()
+    .single()
+
+  if (error) {
+    throw error
+  }
+  return deliver(supabase, data, webhook)
+}
+
+export function sendTestDelivery(webhook: Webhook): Promise<WebhookDelivery> {
+  return createAndDeliver(webhook, 'ping', {
+    id: crypto.randomUUID(),
+    event: 'ping',
+    created_at: new Date().toISOString(),
+    data: null,
+    previous: null,
+  })
+}
+
+// 以相同的请求体（事件 id 不变）重新投递，原记录保留在日志中
+export function redeliver(webhook: Webhook, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  return createAndDeliver(webhook, delivery.event, delivery.payload)
+}
@@ -0,0 +1,110 @@
+import type { LookupAddress } from 'dns'
+import { lookup } from 'dns/promises'
+import http from 'http'
+import https from 'https'
+import type { LookupFunction } from 'net'
+import { isPrivateAddress } from '@/lib/webhooks'
+
+// 在服务器端发送 Webhook 的 HTTP 请求。先解析主机名并检查所有地址，再只连接到检查过的地址，
+// 避免域名解析到内网地址，或在检查和连接之间被 DNS 重新绑定
+
+// 读取的响应内容上限，超出部分丢弃
+const MAX_RESPONSE_BYTES = 64 * 1024
+
+export type ResolveHost = (hostname: string) => Promise<LookupAddress[]>
+
+// 目标地址属于本机或内网，不再重试
+export class PrivateAddressError extends Error {
+  constructor() {
+    super('不允许投递到内网或本机地址')
+    this.name = 'PrivateAddressError'
+  }
+}
+
+export interface WebhookRequest {
+  headers: Record<string, string>
+  body: string
+  timeout: number
+  // 允许访问内网地址，仅用于本地测试
+  allowPrivate?: boolean
+}
+
+export interface WebhookResponse {
+  status: number
+  body: string
+}
+
+const resolveAll: ResolveHost = (hostname) => lookup(hostname, { all: true, verbatim: true })
+
+// 解析主机名，任一地址属于本机或内网时拒绝，返回用于连接的地址
+export async function resolveWebhookAddress(
+  hostname: string,
+  allowPrivate = false,
+  resolve: ResolveHost = resolveAll
+): Promise<LookupAddress> {
+  const addresses = await resolve(hostname.replace(/^\[|\]$/g, ''))
+
+  if (addresses.length === 0) {
+    throw new Error(`无法解析主机名 ${hostname}`)
+  }
+  if (!allowPrivate && addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new PrivateAddressError()
+  }
+  return addresses[0]
+}
+
+// 发送 POST 请求，不跟随重定向
+export async function postWebhook(
+  url: string,
+  { headers, body, timeout, allowPrivate = false }: WebhookRequest
+): Promise<WebhookResponse> {
+  const target = new URL(url)
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    throw new Error(`不支持的协议 ${target.protocol}`)
+  }
+  const resolved = await resolveWebhookAddress(target.hostname, allowPrivate)
+
+  // 连接时不再解析主机名，始终使用上面检查过的地址
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [resolved])
+    } else {
+      callback(null, resolved.address, resolved.family)
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = (target.protocol === 'https:' ? https : http).request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: pinnedLookup,
+    })
+    const timer = setTimeout(() => request.destroy(new Error('请求超时')), timeout)
+
+    request.on('response', (response) => {
+      const chunks: Buffer[] = []
+      let size = 0
+
+      response.on('data', (chunk: Buffer) => {
+        if (size < MAX_RESPONSE_BYTES) chunks.push(chunk)
+        size += chunk.length
+      })
+      response.on('end', () => {
+        clearTimeout(timer)
+        resolve({
+          status: response.statusCode ?? 0,
+          body: Buffer.concat(chunks).subarray(0, MAX_RESPONSE_BYTES).toString('utf8'),
+        })
+      })
+      response.on('error', (error) => {
+        clearTimeout(timer)
+        reject(error)
+      })
+    })
+    request.on('error', (error) => {
+      clearTimeout(timer)
+      reject(error)
+    })
+    request.end(body)
+  })
+}
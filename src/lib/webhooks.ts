@@ -0,0 +1,166 @@
+import type { WebhookDelivery, WebhookEvent } from '@/types'
+
+export const WEBHOOK_EVENTS = [
+  'todo.created',
+  'todo.updated',
+  'todo.completed',
+  'todo.deleted',
+] as const satisfies readonly WebhookEvent[]
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent | 'ping', string> = {
+  'todo.created': '创建任务',
+  'todo.updated': '修改任务',
+  'todo.completed': '完成任务',
+  'todo.deleted': '删除任务',
+  ping: '测试',
+}
+
+export const WEBHOOK_DELIVERY_STATUS_LABELS: Record<WebhookDelivery['status'], string> = {
+  pending: '等待发送',
+  succeeded: '成功',
+  failed: '失败',
+}
+
+// 请求头：签名为 HMAC-SHA256(secret, `${timestamp}.${body}`) 的十六进制形式，加上 sha256= 前缀
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Todolist-Signature'
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Todolist-Timestamp'
+export const WEBHOOK_EVENT_HEADER = 'X-Todolist-Event'
+export const WEBHOOK_DELIVERY_HEADER = 'X-Todolist-Delivery'
+
+// 最多尝试的次数，第一次失败后依次等待 30 秒、1 分钟、2 分钟……再重试
+export const WEBHOOK_MAX_ATTEMPTS = 6
+const RETRY_BASE_DELAY = 30 * 1000
+
+// 单次请求的超时时间
+export const WEBHOOK_TIMEOUT = 10 * 1000
+
+// 投递记录中保存的响应内容长度上限
+const RESPONSE_BODY_LIMIT = 1000
+
+// 第 attempts 次尝试失败后，距下一次重试的等待时间；已达到最大次数时返回 null
+export function getRetryDelay(attempts: number): number | null {
+  if (attempts >= WEBHOOK_MAX_ATTEMPTS) return null
+  return RETRY_BASE_DELAY * 2 ** (attempts - 1)
+}
+
+// 2xx 响应视为接收成功，重定向不跟随，视为失败
+export function isSuccessfulResponse(status: number): boolean {
+  return status >= 200 && status < 300
+}
+
+export function truncateResponseBody(body: string): string {
+  return body.length > RESPONSE_BODY_LIMIT ? `${body.slice(0, RESPONSE_BODY_LIMIT)}…` : body
+}
+
+// 生成签名密钥：whsec_ 加 32 字节随机数的十六进制
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return `whsec_${Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')}`
+}
+
+export async function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`))
+  return `sha256=${Array.from(new Uint8Array(signature), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('')}`
+}
+
+function parseIPv4(value: string): number[] | null {
+  const octets = value.split('.')
+  if (octets.length !== 4 || octets.some((octet) => !/^\d{1,3}$/.test(octet))) return null
+  const bytes = octets.map(Number)
+  return bytes.every((byte) => byte <= 255) ? bytes : null
+}
+
+// 解析为 8 个 16 位分组，支持 :: 缩写和末尾内嵌的 IPv4 地址
+function parseIPv6(value: string): number[] | null {
+  const address = value.replace(/%.*$/, '')
+  const halves = address.split('::')
+  if (halves.length > 2) return null
+
+  const parseGroups = (part: string): number[] | null => {
+    if (part === '') return []
+    const groups: number[] = []
+    const items = part.split(':')
+    for (const [index, item] of items.entries()) {
+      if (index === items.length - 1 && item.includes('.')) {
+        const ipv4 = parseIPv4(item)
+        if (!ipv4) return null
+        groups.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3])
+      } else if (/^[0-9a-f]{1,4}$/i.test(item)) {
+        groups.push(parseInt(item, 16))
+      } else {
+        return null
+      }
+    }
+    return groups
+  }
+
+  const head = parseGroups(halves[0])
+  const tail = halves.length === 2 ? parseGroups(halves[1]) : []
+  if (!head || !tail) return null
+
+  if (halves.length === 1) return head.length === 8 ? head : null
+  const missing = 8 - head.length - tail.length
+  return missing >= 1 ? [...head, ...new Array<number>(missing).fill(0), ...tail] : null
+}
+
+function isPrivateIPv4([a, b, c]: number[]): boolean {
+  return (
+    a === 0 || // 本网络，包括 0.0.0.0
+    a === 10 ||
+    (a === 100 && b >= 64 && b <= 127) || // 运营商级 NAT
+    a === 127 ||
+    (a === 169 && b === 254) || // 链路本地，包括云服务的元数据地址
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // 基准测试
+    a >= 224 // 组播、保留地址和广播
+  )
+}
+
+function isPrivateIPv6(groups: number[]): boolean {
+  const embeddedIPv4 = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff]
+  const prefixIsZero = (length: number) => groups.slice(0, length).every((group) => group === 0)
+
+  // ::（未指定地址）、::1 和已废弃的 IPv4 兼容地址 ::a.b.c.d
+  if (prefixIsZero(6)) {
+    return groups[6] === 0 || isPrivateIPv4(embeddedIPv4)
+  }
+  // IPv4 映射地址 ::ffff:a.b.c.d，连接时实际访问内嵌的 IPv4 地址
+  if (prefixIsZero(5) && groups[5] === 0xffff) {
+    return isPrivateIPv4(embeddedIPv4)
+  }
+  // NAT64 地址 64:ff9b::a.b.c.d
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((g) => g === 0)) {
+    return isPrivateIPv4(embeddedIPv4)
+  }
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 || // 唯一本地地址
+    (groups[0] & 0xffc0) === 0xfe80 || // 链路本地地址
+    (groups[0] & 0xff00) === 0xff00 // 组播
+  )
+}
+
+// 判断 IP 地址是否属于本机、内网或保留网段；无法解析的值视为不允许访问
+export function isPrivateAddress(address: string): boolean {
+  const value = address.toLowerCase().replace(/^\[|\]$/g, '')
+  const ipv4 = parseIPv4(value)
+  if (ipv4) return isPrivateIPv4(ipv4)
+
+  const ipv6 = value.includes(':') ? parseIPv6(value) : null
+  return ipv6 ? isPrivateIPv6(ipv6) : true
+}
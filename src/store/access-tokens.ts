@@ -0,0 +1,100 @@
+import { create } from 'zustand'
+import { createClient } from '@/lib/supabase/client'
+import {
+  generateAccessToken,
+  getExpiresAt,
+  getTokenPrefix,
+  hashAccessToken,
+} from '@/lib/access-tokens'
+import type { AccessTokenFormData } from '@/lib/validations'
+import type { AccessToken } from '@/types'
+
+interface AccessTokenState {
+  tokens: AccessToken[]
+  loading: boolean
+
+  // Actions
+  fetchTokens: () => Promise<void>
+  // 创建令牌并返回令牌明文，明文不会保存，只能在创建后显示一次
+  createToken: (userId: string, data: AccessTokenFormData) => Promise<string>
+  revokeToken: (id: string) => Promise<void>
+}
+
+export const useAccessTokenStore = create<AccessTokenState>((set) => ({
+  tokens: [],
+  loading: false,
+
+  fetchTokens: async () => {
+    const supabase = createClient()
+    set({ loading: true })
+
+    try {
+      const { data, error } = await supabase
+        .from('access_tokens')
+        .select('*')
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        throw new Error(`获取访问令牌失败: ${error.message}`)
+      }
+
+      set({ tokens: data || [], loading: false })
+    } catch (error) {
+      console.error('Error fetching access tokens:', error)
+      set({ loading: false })
+      throw error
+    }
+  },
+
+  createToken: async (userId: string, { name, scope, expires_in }: AccessTokenFormData) => {
+    const supabase = createClient()
+
+    try {
+      // 令牌在浏览器中生成，服务器只收到哈希
+      const token = generateAccessToken()
+      const { data, error } = await supabase
+        .from('access_tokens')
+        .insert([
+          {
+            name,
+            scope,
+            token_hash: await hashAccessToken(token),
+            token_prefix: getTokenPrefix(token),
+            expires_at: getExpiresAt(expires_in),
+            user_id: userId,
+          },
+        ])
+        .select()
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      set((state) => ({ tokens: [data, ...state.tokens] }))
+      return token
+    } catch (error) {
+      console.error('Error creating access token:', error)
+      throw error
+    }
+  },
+
+  revokeToken: async (id: string) => {
+    const supabase = createClient()
+
+    try {
+      const { error } = await supabase.from('access_tokens').delete().eq('id', id)
+
+      if (error) {
+        throw error
+      }
+
+      set((state) => ({
+        tokens: state.tokens.filter((token) => token.id !== id),
+      }))
+    } catch (error) {
+      console.error('Error revoking access token:', error)
+      throw error
+    }
+  },
+}))
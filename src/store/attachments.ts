@@ -0,0 +1,265 @@
+import { create } from 'zustand'
+import { createClient } from '@/lib/supabase/client'
+import { ATTACHMENT_BUCKET, ATTACHMENT_MAX_COUNT, buildStoragePath } from '@/lib/attachments'
+import type { Attachment, Todo } from '@/types'
+
+interface AttachmentState {
+  // todo id -> 附件列表（按上传时间排列）
+  attachments: Record<string, Attachment[]>
+  loading: boolean
+
+  // Actions
+  fetchAttachments: () => Promise<void>
+  uploadAttachments: (todo: Pick<Todo, 'id' | 'user_id'>, files: File[]) => Promise<void>
+  deleteAttachment: (attachment: Attachment) => Promise<void>
+  getAttachmentUrl: (attachment: Attachment, download?: boolean) => Promise<string>
+  getStoragePaths: (todoIds: string[]) => Promise<string[]>
+  removeStoredObjects: (paths: string[], todoIds: string[]) => Promise<void>
+
+  // Real-time subscription
+  subscribeToAttachments: () => () => void
+}
+
+// 签名链接的有效期（秒）
+const SIGNED_URL_EXPIRES_IN = 60 * 60
+
+function groupAttachments(rows: Attachment[]): Record<string, Attachment[]> {
+  return rows.reduce<Record<string, Attachment[]>>((acc, row) => {
+    acc[row.todo_id] = [...(acc[row.todo_id] || []), row]
+    return acc
+  }, {})
+}
+
+function upsertAttachment(
+  attachments: Record<string, Attachment[]>,
+  attachment: Attachment
+): Record<string, Attachment[]> {
+  const current = attachments[attachment.todo_id] || []
+  return {
+    ...attachments,
+    [attachment.todo_id]: [...current.filter((a) => a.id !== attachment.id), attachment],
+  }
+}
+
+function removeAttachment(
+  attachments: Record<string, Attachment[]>,
+  attachment: Pick<Attachment, 'id' | 'todo_id'>
+): Record<string, Attachment[]> {
+  return {
+    ...attachments,
+    [attachment.todo_id]: (attachments[attachment.todo_id] || []).filter(
+      (a) => a.id !== attachment.id
+    ),
+  }
+}
+
+export const useAttachmentStore = create<AttachmentState>((set, get) => ({
+  attachments: {},
+  loading: false,
+
+  fetchAttachments: async () => {
+    const supabase = createClient()
+    set({ loading: true })
+
+    try {
+      const { data, error } = await supabase
+        .from('attachments')
+        .select('*')
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        throw new Error(`获取附件失败: ${error.message}`)
+      }
+
+      set({ attachments: groupAttachments(data || []), loading: false })
+    } catch (error) {
+      console.error('Error fetching attachments:', error)
+      set({ loading: false })
+      throw error
+    }
+  },
+
+  uploadAttachments: async (todo: Pick<Todo, 'id' | 'user_id'>, files: File[]) => {
+    const existing = get().attachments[todo.id] || []
+    if (existing.length + files.length > ATTACHMENT_MAX_COUNT) {
+      throw new Error(`每个任务最多添加 ${ATTACHMENT_MAX_COUNT} 个附件`)
+    }
+
+    const supabase = createClient()
+    const failed: string[] = []
+
+    // 逐个上传，单个文件失败不影响其他文件
+    for (const file of files) {
+      const path = buildStoragePath(todo.user_id, todo.id, file.name)
+
+      try {
+        const { error: uploadError } = await supabase.storage
+          .from(ATTACHMENT_BUCKET)
+          .upload(path, file, { contentType: file.type })
+
+        if (uploadError) {
+          throw uploadError
+        }
+
+        const { data, error } = await supabase
+          .from('attachments')
+          .insert([
+            {
+              todo_id: todo.id,
+              storage_path: path,
+              file_name: file.name,
+              mime_type: file.type,
+              size: file.size,
+              user_id: todo.user_id,
+            },
+          ])
+          .select()
+          .single()
+
+        if (error) {
+          // 记录写入失败时删除已上传的文件，避免留下无法访问的孤立文件
+          await supabase.storage.from(ATTACHMENT_BUCKET).remove([path])
+          throw error
+        }
+
+        set((state) => ({ attachments: upsertAttachment(state.attachments, data) }))
+      } catch (error) {
+        console.error('Error uploading attachment:', error)
+        failed.push(file.name)
+      }
+    }
+
+    if (failed.length > 0) {
+      throw new Error(`以下附件上传失败: ${failed.join('、')}`)
+    }
+  },
+
+  deleteAttachment: async (attachment: Attachment) => {
+    const supabase = createClient()
+
+    try {
+      const { error } = await supabase.from('attachments').delete().eq('id', attachment.id)
+
+      if (error) {
+        throw error
+      }
+
+      set((state) => ({ attachments: removeAttachment(state.attachments, attachment) }))
+
+      const { error: storageError } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .remove([attachment.storage_path])
+
+      if (storageError) {
+        // 记录已删除，文件清理失败不影响用户操作
+        console.error('Error removing attachment object:', storageError)
+      }
+    } catch (error) {
+      console.error('Error deleting attachment:', error)
+      throw error
+    }
+  },
+
+  getAttachmentUrl: async (attachment: Attachment, download = false) => {
+    const supabase = createClient()
+
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .createSignedUrl(
+        attachment.storage_path,
+        SIGNED_URL_EXPIRES_IN,
+        download ? { download: attachment.file_name } : undefined
+      )
+
+    if (error) {
+      console.error('Error creating attachment url:', error)
+      throw new Error(`获取附件链接失败: ${error.message}`)
+    }
+
+    return data.signedUrl
+  },
+
+  // 删除任务前调用：任务删除后附件记录会被级联删除，需要提前记下文件路径
+  getStoragePaths: async (todoIds: string[]) => {
+    if (todoIds.length === 0) return []
+
+    const supabase = createClient()
+    const { data, error } = await supabase
+      .from('attachments')
+      .select('storage_path')
+      .in('todo_id', todoIds)
+
+    if (error) {
+      console.error('Error fetching attachment paths:', error)
+      throw new Error(`获取附件失败: ${error.message}`)
+    }
+
+    return (data || []).map((row) => row.storage_path)
+  },
+
+  // 删除任务后调用：清理存储中的文件和本地状态
+  removeStoredObjects: async (paths: string[], todoIds: string[]) => {
+    set((state) => ({
+      attachments: Object.fromEntries(
+        Object.entries(state.attachments).filter(([todoId]) => !todoIds.includes(todoId))
+      ),
+    }))
+
+    if (paths.length === 0) return
+
+    const supabase = createClient()
+    const { error } = await supabase.storage.from(ATTACHMENT_BUCKET).remove(paths)
+
+    if (error) {
+      // 任务已删除，文件清理失败只记录日志
+      console.error('Error removing attachment objects:', error)
+    }
+  },
+
+  subscribeToAttachments: () => {
+    const supabase = createClient()
+
+    const subscription = supabase
+      .channel('attachments')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'attachments',
+        },
+        (payload) => {
+          const { eventType, new: newRecord, old: oldRecord } = payload
+
+          set((state) => {
+            switch (eventType) {
+              case 'INSERT':
+              case 'UPDATE':
+                return {
+                  attachments: upsertAttachment(state.attachments, newRecord as Attachment),
+                }
+              case 'DELETE': {
+                // DELETE 事件只包含主键，需要在所有任务中查找
+                const id = (oldRecord as Attachment).id
+                return {
+                  attachments: Object.fromEntries(
+                    Object.entries(state.attachments).map(([todoId, list]) => [
+                      todoId,
+                      list.filter((a) => a.id !== id),
+                    ])
+                  ),
+                }
+              }
+              default:
+                return state
+            }
+          })
+        }
+      )
+      .subscribe()
+
+    return () => {
+      subscription.unsubscribe()
+    }
+  },
+}))
@@ -1,5 +1,8 @@
 import { create } from 'zustand'
 import { createClient } from '@/lib/supabase/client'
+import { clearCachedLists, setOfflineUser } from '@/lib/offline-db'
+import { onTabMessage, postTabMessage } from '@/lib/tab-sync'
+import { useTodoStore } from '@/store/todos'
 import type { User } from '@supabase/supabase-js'
 
 interface AuthState {
@@ -14,6 +17,18 @@ interface AuthState {
   setLoading: (loading: boolean) => void
 }
 
+// 登出后移除所有实时订阅，并清空任务数据和缓存的任务列表。
+// 缓存在切换账号之前开始清除，未同步的修改保留在该账号的离线数据库中
+async function teardownSession() {
+  const cleared = clearCachedLists().catch((err) => {
+    console.error('Error clearing offline data:', err)
+  })
+  const supabase = createClient()
+  await supabase.removeAllChannels()
+  useTodoStore.getState().reset()
+  await cleared
+}
+
 export const useAuthStore = create<AuthState>((set, get) => ({
   user: null,
   loading: true,
@@ -74,7 +89,9 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         throw error
       }
 
+      await teardownSession()
       set({ user: null, loading: false })
+      postTabMessage({ type: 'sign-out' })
     } catch (error) {
       set({ loading: false })
       throw error
@@ -105,12 +122,30 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       const {
         data: { subscription },
       } = supabase.auth.onAuthStateChange((event, session) => {
+        // 在其他标签页登出或会话过期时同样需要清理
+        if (event === 'SIGNED_OUT') {
+          void teardownSession()
+        }
+
         set({
           user: session?.user ?? null,
           loading: false,
         })
       })
 
+      // 在一个标签页中登出时，其他标签页同样退出登录。会话已在服务器端失效，
+      // 只需清除本标签页的会话，随后的 SIGNED_OUT 事件会完成清理
+      onTabMessage((message) => {
+        if (message.type !== 'sign-out' || !get().user) return
+        supabase.auth.signOut({ scope: 'local' }).then(({ error }) => {
+          if (error) {
+            console.error('Error signing out:', error)
+            void teardownSession()
+            set({ user: null, loading: false })
+          }
+        })
+      })
+
       // 注意：这里不能返回 unsubscribe 函数，因为接口定义返回 void
       // 实际的 unsubscribe 应该在组件的 useEffect cleanup 中处理
     } catch (error) {
@@ -127,3 +162,10 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     set({ loading })
   },
 }))
+
+// 离线数据库跟随当前登录的账号
+useAuthStore.subscribe((state, previous) => {
+  if (state.user?.id !== previous.user?.id) {
+    setOfflineUser(state.user?.id ?? null)
+  }
+})
@@ -0,0 +1,291 @@
+import { create } from 'zustand'
+import { createClient } from '@/lib/supabase/client'
+import {
+  IMPORT_BATCH_SIZE,
+  buildBackup,
+  type Backup,
+  type ImportContext,
+  type ImportMode,
+  type ImportPlan,
+  type ImportRowError,
+  type ImportTodo,
+} from '@/lib/backup'
+import { getErrorMessage } from '@/lib/utils'
+import type { List, Tag, Todo, TodoInsert, TodoTag } from '@/types'
+
+// 分页读取时每页的记录数，与 Supabase 默认的单次返回上限一致
+const FETCH_PAGE_SIZE = 1000
+
+export interface ImportProgress {
+  done: number
+  total: number
+}
+
+export interface ImportResult {
+  created: number
+  errors: ImportRowError[]
+}
+
+interface BackupState {
+  // 导入进行中时的进度
+  progress: ImportProgress | null
+
+  // Actions
+  exportBackup: () => Promise<Backup>
+  fetchImportContext: () => Promise<ImportContext>
+  importBackup: (userId: string, plan: ImportPlan, mode: ImportMode) => Promise<ImportResult>
+}
+
+// 分页读取全部记录
+async function fetchAll<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + FETCH_PAGE_SIZE - 1)
+
+    if (error) {
+      throw error
+    }
+
+    rows.push(...(data || []))
+    if (!data || data.length < FETCH_PAGE_SIZE) return rows
+  }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+export const useBackupStore = create<BackupState>((set) => ({
+  progress: null,
+
+  exportBackup: async () => {
+    const supabase = createClient()
+
+    try {
+      const [lists, tags, todos, todoTags] = await Promise.all([
+        fetchAll<List>((from, to) =>
+          supabase.from('lists').select('*').order('created_at').range(from, to)
+        ),
+        fetchAll<Tag>((from, to) =>
+          supabase.from('tags').select('*').order('name').range(from, to)
+        ),
+        fetchAll<Todo>((from, to) =>
+          supabase
+            .from('todos')
+            .select('*')
+            .is('deleted_at', null)
+            .order('created_at')
+            .order('id')
+            .range(from, to)
+        ),
+        fetchAll<Pick<TodoTag, 'todo_id' | 'tag_id'>>((from, to) =>
+          supabase
+            .from('todo_tags')
+            .select('todo_id, tag_id')
+            .order('todo_id')
+            .order('tag_id')
+            .range(from, to)
+        ),
+      ])
+
+      // 关联表中可能有回收站中任务的标签，只保留导出的任务
+      const todoIds = new Set(todos.map((todo) => todo.id))
+      return buildBackup({
+        lists,
+        tags,
+        todos,
+        todoTags: todoTags.filter((todoTag) => todoIds.has(todoTag.todo_id)),
+      })
+    } catch (error) {
+      console.error('Error exporting backup:', error)
+      throw error
+    }
+  },
+
+  fetchImportContext: async () => {
+    const supabase = createClient()
+
+    try {
+      const [todos, lists, tags] = await Promise.all([
+        fetchAll<ImportContext['todos'][number]>((from, to) =>
+          supabase
+            .from('todos')
+            .select('id, title, due_at, list_id')
+            .is('deleted_at', null)
+            .order('created_at')
+            .order('id')
+            .range(from, to)
+        ),
+        fetchAll<ImportContext['lists'][number]>((from, to) =>
+          supabase.from('lists').select('id, name, is_inbox').order('created_at').range(from, to)
+        ),
+        fetchAll<ImportContext['tags'][number]>((from, to) =>
+          supabase.from('tags').select('name').order('name').range(from, to)
+        ),
+      ])
+
+      return { todos, lists, tags }
+    } catch (error) {
+      console.error('Error fetching import context:', error)
+      throw error
+    }
+  },
+
+  importBackup: async (userId: string, plan: ImportPlan, mode: ImportMode) => {
+    const supabase = createClient()
+    const errors: ImportRowError[] = []
+    let created = 0
+    set({ progress: { done: 0, total: plan.todos.length } })
+
+    try {
+      if (mode === 'replace') {
+        const { error } = await supabase
+          .from('todos')
+          .update({ deleted_at: new Date().toISOString() })
+          .is('deleted_at', null)
+
+        if (error) {
+          throw error
+        }
+      }
+
+      if (plan.lists.length > 0) {
+        const { error } = await supabase
+          .from('lists')
+          .insert(plan.lists.map((list) => ({ ...list, user_id: userId })))
+
+        if (error) {
+          throw new Error(`创建清单失败: ${error.message}`)
+        }
+      }
+
+      if (plan.tags.length > 0) {
+        const { error } = await supabase.from('tags').upsert(
+          plan.tags.map((tag) => ({ ...tag, user_id: userId })),
+          { onConflict: 'user_id,name', ignoreDuplicates: true }
+        )
+
+        if (error) {
+          throw new Error(`创建标签失败: ${error.message}`)
+        }
+      }
+
+      // 清单和标签按名称关联
+      const [lists, tags] = await Promise.all([
+        fetchAll<Pick<List, 'id' | 'name' | 'is_inbox'>>((from, to) =>
+          supabase.from('lists').select('id, name, is_inbox').order('created_at').range(from, to)
+        ),
+        fetchAll<Pick<Tag, 'id' | 'name'>>((from, to) =>
+          supabase.from('tags').select('id, name').order('name').range(from, to)
+        ),
+      ])
+      const listIds = new Map(lists.map((list) => [list.name, list.id]))
+      const tagIds = new Map(tags.map((tag) => [tag.name, tag.id]))
+
+      // 导入的任务使用新的 id，父任务和重复系列通过文件中的 id 关联
+      const ids = new Map(plan.todos.map((todo) => [todo.ref, crypto.randomUUID()]))
+      const failedRefs = new Set<string>()
+
+      const toInsert = (todo: ImportTodo): TodoInsert => {
+        const { created_at, ...fields } = todo.fields
+        const parentId = todo.parentRef ? ids.get(todo.parentRef) : todo.parentId
+
+        return {
+          ...fields,
+          id: ids.get(todo.ref),
+          parent_id: parentId ?? null,
+          // 子任务由数据库设置为父任务所在的清单，未指定清单时为收件箱
+          list_id: !parentId && todo.list ? listIds.get(todo.list.name) : undefined,
+          recurrence_series_id: todo.seriesRef ? (ids.get(todo.seriesRef) ?? null) : null,
+          recurrence_index: todo.recurrenceIndex,
+          created_at: created_at ?? undefined,
+          user_id: userId,
+        }
+      }
+
+      const fail = (todo: ImportTodo, message: string) => {
+        failedRefs.add(todo.ref)
+        errors.push({ line: todo.line, title: todo.fields.title, message })
+      }
+
+      // 逐条写入，找出批量写入失败时出错的任务
+      const insertEach = async (batch: ImportTodo[]): Promise<ImportTodo[]> => {
+        const inserted: ImportTodo[] = []
+        for (const todo of batch) {
+          const { error } = await supabase.from('todos').insert([toInsert(todo)])
+          if (error) {
+            fail(todo, getErrorMessage(error))
+          } else {
+            inserted.push(todo)
+          }
+        }
+        return inserted
+      }
+
+      // 同一层级的任务分批写入，父任务所在的层级写入后再写入子任务
+      const depths = [...new Set(plan.todos.map((todo) => todo.depth))]
+      for (const depth of depths) {
+        const level = plan.todos.filter((todo) => todo.depth === depth)
+
+        for (const batch of chunk(level, IMPORT_BATCH_SIZE)) {
+          const ready = batch.filter((todo) => {
+            if (todo.parentRef && failedRefs.has(todo.parentRef)) {
+              fail(todo, '父任务导入失败')
+              return false
+            }
+            return true
+          })
+
+          let inserted = ready
+          if (ready.length > 0) {
+            const { error } = await supabase.from('todos').insert(ready.map(toInsert))
+            if (error) {
+              inserted = await insertEach(ready)
+            }
+          }
+          created += inserted.length
+
+          const todoTags = inserted.flatMap((todo) =>
+            todo.tags.flatMap((tag) => {
+              const tagId = tagIds.get(tag.name)
+              const todoId = ids.get(todo.ref)
+              return tagId && todoId ? [{ todo_id: todoId, tag_id: tagId, user_id: userId }] : []
+            })
+          )
+          if (todoTags.length > 0) {
+            const { error } = await supabase.from('todo_tags').insert(todoTags)
+            if (error) {
+              for (const todo of inserted.filter((item) => item.tags.length > 0)) {
+                errors.push({
+                  line: todo.line,
+                  title: todo.fields.title,
+                  message: `任务已导入，但添加标签失败: ${error.message}`,
+                })
+              }
+            }
+          }
+
+          set((state) => ({
+            progress: state.progress && {
+              ...state.progress,
+              done: state.progress.done + batch.length,
+            },
+          }))
+        }
+      }
+
+      set({ progress: null })
+      return { created, errors: errors.sort((a, b) => a.line - b.line) }
+    } catch (error) {
+      console.error('Error importing backup:', error)
+      set({ progress: null })
+      throw error
+    }
+  },
+}))
@@ -0,0 +1,110 @@
+import { create } from 'zustand'
+import { createClient } from '@/lib/supabase/client'
+import { generateCalendarToken } from '@/lib/calendar-feed'
+import type { CalendarFeed, CalendarFeedUpdate } from '@/types'
+
+interface CalendarFeedState {
+  // 未启用订阅时为 null
+  feed: CalendarFeed | null
+  loading: boolean
+
+  // Actions
+  fetchFeed: () => Promise<void>
+  enableFeed: (userId: string) => Promise<void>
+  updateFeed: (updates: CalendarFeedUpdate) => Promise<void>
+  // 替换密钥，旧的订阅地址立即失效
+  regenerateToken: () => Promise<void>
+  disableFeed: () => Promise<void>
+}
+
+export const useCalendarFeedStore = create<CalendarFeedState>((set, get) => ({
+  feed: null,
+  loading: false,
+
+  fetchFeed: async () => {
+    const supabase = createClient()
+    set({ loading: true })
+
+    try {
+      const { data, error } = await supabase.from('calendar_feeds').select('*').maybeSingle()
+
+      if (error) {
+        throw new Error(`获取日历订阅失败: ${error.message}`)
+      }
+
+      set({ feed: data, loading: false })
+    } catch (error) {
+      console.error('Error fetching calendar feed:', error)
+      set({ loading: false })
+      throw error
+    }
+  },
+
+  enableFeed: async (userId: string) => {
+    const supabase = createClient()
+
+    try {
+      const { data, error } = await supabase
+        .from('calendar_feeds')
+        .insert([{ user_id: userId, token: generateCalendarToken() }])
+        .select()
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      set({ feed: data })
+    } catch (error) {
+      console.error('Error enabling calendar feed:', error)
+      throw error
+    }
+  },
+
+  updateFeed: async (updates: CalendarFeedUpdate) => {
+    const supabase = createClient()
+    const { feed } = get()
+    if (!feed) return
+
+    try {
+      const { data, error } = await supabase
+        .from('calendar_feeds')
+        .update(updates)
+        .eq('user_id', feed.user_id)
+        .select()
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      set({ feed: data })
+    } catch (error) {
+      console.error('Error updating calendar feed:', error)
+      throw error
+    }
+  },
+
+  regenerateToken: async () => {
+    await get().updateFeed({ token: generateCalendarToken() })
+  },
+
+  disableFeed: async () => {
+    const supabase = createClient()
+    const { feed } = get()
+    if (!feed) return
+
+    try {
+      const { error } = await supabase.from('calendar_feeds').delete().eq('user_id', feed.user_id)
+
+      if (error) {
+        throw error
+      }
+
+      set({ feed: null })
+    } catch (error) {
+      console.error('Error disabling calendar feed:', error)
+      throw error
+    }
+  },
+}))
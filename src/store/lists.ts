@@ -0,0 +1,202 @@
+import { create } from 'zustand'
+import { createClient } from '@/lib/supabase/client'
+import { useAttachmentStore } from '@/store/attachments'
+import type { List, ListInsert, ListUpdate } from '@/types'
+
+interface ListState {
+  lists: List[]
+  loading: boolean
+  initialized: boolean
+
+  // Actions
+  fetchLists: () => Promise<void>
+  ensureInbox: (userId: string) => Promise<List>
+  createList: (list: ListInsert) => Promise<List>
+  updateList: (id: string, updates: ListUpdate) => Promise<void>
+  deleteList: (id: string) => Promise<void>
+
+  // Computed
+  inbox: () => List | undefined
+
+  // Real-time subscription
+  subscribeToLists: () => () => void
+}
+
+// 收件箱始终在最前，其余按创建时间排列
+function sortLists(lists: List[]): List[] {
+  return [...lists].sort((a, b) => {
+    if (a.is_inbox !== b.is_inbox) {
+      return a.is_inbox ? -1 : 1
+    }
+    return new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  })
+}
+
+export const useListStore = create<ListState>((set, get) => ({
+  lists: [],
+  loading: false,
+  initialized: false,
+
+  fetchLists: async () => {
+    const supabase = createClient()
+    set({ loading: true })
+
+    try {
+      const { data, error } = await supabase.from('lists').select('*')
+
+      if (error) {
+        throw new Error(`获取清单失败: ${error.message}`)
+      }
+
+      set({ lists: sortLists(data || []), loading: false, initialized: true })
+    } catch (error) {
+      console.error('Error fetching lists:', error)
+      set({ loading: false })
+      throw error
+    }
+  },
+
+  ensureInbox: async (userId: string) => {
+    const existing = get().inbox()
+    if (existing) return existing
+
+    try {
+      return await get().createList({
+        name: '收件箱',
+        icon: 'inbox',
+        is_inbox: true,
+        user_id: userId,
+      })
+    } catch (error) {
+      // 收件箱可能已由数据库触发器或其他设备创建，重新获取即可
+      await get().fetchLists()
+      const inbox = get().inbox()
+      if (!inbox) throw error
+      return inbox
+    }
+  },
+
+  createList: async (list: ListInsert) => {
+    const supabase = createClient()
+
+    try {
+      const { data, error } = await supabase.from('lists').insert([list]).select().single()
+
+      if (error) {
+        throw error
+      }
+
+      set((state) => ({
+        lists: sortLists([...state.lists.filter((l) => l.id !== data.id), data]),
+      }))
+      return data
+    } catch (error) {
+      console.error('Error creating list:', error)
+      throw error
+    }
+  },
+
+  updateList: async (id: string, updates: ListUpdate) => {
+    const supabase = createClient()
+
+    try {
+      const { data, error } = await supabase
+        .from('lists')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      set((state) => ({
+        lists: sortLists(state.lists.map((list) => (list.id === id ? data : list))),
+      }))
+    } catch (error) {
+      console.error('Error updating list:', error)
+      throw error
+    }
+  },
+
+  deleteList: async (id: string) => {
+    const supabase = createClient()
+    const { getStoragePaths, removeStoredObjects } = useAttachmentStore.getState()
+
+    try {
+      // 清单中的任务及其附件会被级联删除，先记下附件文件路径以便随后清理
+      const { data: todos, error: todosError } = await supabase
+        .from('todos')
+        .select('id')
+        .eq('list_id', id)
+
+      if (todosError) {
+        throw todosError
+      }
+
+      const todoIds = (todos || []).map((todo) => todo.id)
+      const paths = await getStoragePaths(todoIds)
+
+      const { error } = await supabase.from('lists').delete().eq('id', id)
+
+      if (error) {
+        throw error
+      }
+
+      set((state) => ({
+        lists: state.lists.filter((list) => list.id !== id),
+      }))
+      await removeStoredObjects(paths, todoIds)
+    } catch (error) {
+      console.error('Error deleting list:', error)
+      throw error
+    }
+  },
+
+  inbox: () => {
+    return get().lists.find((list) => list.is_inbox)
+  },
+
+  subscribeToLists: () => {
+    const supabase = createClient()
+
+    const subscription = supabase
+      .channel('lists')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'lists',
+        },
+        (payload) => {
+          const { eventType, new: newRecord, old: oldRecord } = payload
+
+          set((state) => {
+            switch (eventType) {
+              case 'INSERT':
+              case 'UPDATE':
+                return {
+                  lists: sortLists([
+                    ...state.lists.filter((list) => list.id !== newRecord.id),
+                    newRecord as List,
+                  ]),
+                }
+              case 'DELETE':
+                return {
+                  lists: state.lists.filter((list) => list.id !== oldRecord.id),
+                }
+              default:
+                return state
+            }
+          })
+        }
+      )
+      .subscribe()
+
+    return () => {
+      subscription.unsubscribe()
+    }
+  },
+}))
@@ -0,0 +1,152 @@
+import { create } from 'zustand'
+import { createClient } from '@/lib/supabase/client'
+import type { Tag, TagInsert, TagUpdate } from '@/types'
+
+interface TagState {
+  tags: Tag[]
+  loading: boolean
+
+  // Actions
+  fetchTags: () => Promise<void>
+  createTag: (tag: TagInsert) => Promise<Tag>
+  updateTag: (id: string, updates: TagUpdate) => Promise<void>
+  deleteTag: (id: string) => Promise<void>
+
+  // Real-time subscription
+  subscribeToTags: () => () => void
+}
+
+// 按名称排序，保证标签在各处展示顺序一致
+function sortTags(tags: Tag[]): Tag[] {
+  return [...tags].sort((a, b) => a.name.localeCompare(b.name, 'zh-CN'))
+}
+
+export const useTagStore = create<TagState>((set) => ({
+  tags: [],
+  loading: false,
+
+  fetchTags: async () => {
+    const supabase = createClient()
+    set({ loading: true })
+
+    try {
+      const { data, error } = await supabase.from('tags').select('*')
+
+      if (error) {
+        throw new Error(`获取标签失败: ${error.message}`)
+      }
+
+      set({ tags: sortTags(data || []), loading: false })
+    } catch (error) {
+      console.error('Error fetching tags:', error)
+      set({ loading: false })
+      throw error
+    }
+  },
+
+  createTag: async (tag: TagInsert) => {
+    const supabase = createClient()
+
+    try {
+      const { data, error } = await supabase.from('tags').insert([tag]).select().single()
+
+      if (error) {
+        // 23505: 违反唯一约束，即同名标签已存在
+        throw new Error(error.code === '23505' ? `标签"${tag.name}"已存在` : error.message)
+      }
+
+      set((state) => ({
+        tags: sortTags([...state.tags.filter((t) => t.id !== data.id), data]),
+      }))
+      return data
+    } catch (error) {
+      console.error('Error creating tag:', error)
+      throw error
+    }
+  },
+
+  updateTag: async (id: string, updates: TagUpdate) => {
+    const supabase = createClient()
+
+    try {
+      const { data, error } = await supabase
+        .from('tags')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(error.code === '23505' ? `标签"${updates.name}"已存在` : error.message)
+      }
+
+      set((state) => ({
+        tags: sortTags(state.tags.map((tag) => (tag.id === id ? data : tag))),
+      }))
+    } catch (error) {
+      console.error('Error updating tag:', error)
+      throw error
+    }
+  },
+
+  deleteTag: async (id: string) => {
+    const supabase = createClient()
+
+    try {
+      const { error } = await supabase.from('tags').delete().eq('id', id)
+
+      if (error) {
+        throw error
+      }
+
+      set((state) => ({
+        tags: state.tags.filter((tag) => tag.id !== id),
+      }))
+    } catch (error) {
+      console.error('Error deleting tag:', error)
+      throw error
+    }
+  },
+
+  subscribeToTags: () => {
+    const supabase = createClient()
+
+    const subscription = supabase
+      .channel('tags')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'tags',
+        },
+        (payload) => {
+          const { eventType, new: newRecord, old: oldRecord } = payload
+
+          set((state) => {
+            switch (eventType) {
+              case 'INSERT':
+              case 'UPDATE':
+                return {
+                  tags: sortTags([
+                    ...state.tags.filter((tag) => tag.id !== newRecord.id),
+                    newRecord as Tag,
+                  ]),
+                }
+              case 'DELETE':
+                return {
+                  tags: state.tags.filter((tag) => tag.id !== oldRecord.id),
+                }
+              default:
+                return state
+            }
+          })
+        }
+      )
+      .subscribe()
+
+    return () => {
+      subscription.unsubscribe()
+    }
+  },
+}))
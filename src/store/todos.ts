@@ -1,132 +1,1765 @@
 import { create } from 'zustand'
 import { createClient } from '@/lib/supabase/client'
-import type { Todo, TodoInsert, TodoUpdate, TodoFilter, TodoSort, SortOrder } from '@/types'
+import { useAttachmentStore } from '@/store/attachments'
+import { debounce, getErrorMessage, isDueThisWeek, isDueToday, isOverdue } from '@/lib/utils'
+import { getPriorityRank } from '@/lib/priority'
+import { collectDescendants, getDescendantIds } from '@/lib/subtasks'
+import { getTaggedTodoIds, matchesTagFilter } from '@/lib/tags'
+import { anchorRRule, buildNextOccurrence, getNextDueAt } from '@/lib/recurrence'
+import { compareKeys, generateKeyBetween } from '@/lib/ranking'
+import { TRASH_RETENTION_DAYS, getPurgeCutoff } from '@/lib/trash'
+import { TodoConflictError } from '@/lib/conflicts'
+import {
+  PAGE_SIZE,
+  TODO_FILTERS,
+  buildCursorFilter,
+  compareTitles,
+  getFilterConditions,
+  getSortKeys,
+  type TodoCounts,
+} from '@/lib/todo-query'
+import { SEARCH_RESULT_LIMIT, type SearchHit } from '@/lib/search'
+import { getBulkResult, type BulkResult } from '@/lib/bulk'
+import type { TodoViewState } from '@/lib/view-state'
+import { onTabMessage, postTabMessage, runAsLeader } from '@/lib/tab-sync'
+import {
+  describeUpdate,
+  getCommandTodoIds,
+  invalidateHistory,
+  pickFields,
+  pushHistory,
+  type HistoryCommand,
+  type HistoryEntry,
+} from '@/lib/history'
+import {
+  isRemoteChange,
+  reduceTodoEvent,
+  reduceTodoTagEvent,
+  removeFromTrash,
+  removeTodoTree,
+  rollbackTodoUpdate,
+  upsertTodos,
+  type RealtimeEvent,
+} from '@/lib/todo-events'
+import {
+  applyOperations,
+  createLocalTodo,
+  getOperationTodoIds,
+  isNetworkError,
+  type OutboxEntry,
+  type OutboxOperation,
+} from '@/lib/outbox'
+import {
+  addOutboxEntry,
+  deleteOutboxEntry,
+  putOutboxEntry,
+  readCachedList,
+  readOutbox,
+  writeCachedList,
+} from '@/lib/offline-db'
+import type {
+  Todo,
+  TodoInsert,
+  TodoUpdate,
+  TodoFilter,
+  TodoSort,
+  SortOrder,
+  PriorityFilter,
+  TagMatchMode,
+  TodoTag,
+} from '@/types'
 
 interface TodoState {
   todos: Todo[]
   loading: boolean
+  // 当前选中的清单，任务列表和实时订阅都限定在该清单内
+  listId: string | null
   filter: TodoFilter
   sort: TodoSort
   order: SortOrder
+  priorityFilter: PriorityFilter
+  tagFilter: string[]
+  tagMatch: TagMatchMode
   search: string
+  // 服务器搜索命中的任务 id -> 相关度和摘要，不在搜索或搜索不可用（如离线）时为 null
+  searchHits: Record<string, SearchHit> | null
+  // todo id -> tag id 列表
+  todoTags: Record<string, string[]>
+  // 回收站中的任务（不区分清单，按删除时间倒序）
+  trash: Todo[]
+  trashLoading: boolean
+  // 已乐观插入、尚未被服务器确认的任务
+  pendingIds: string[]
+  // 待同步的修改（与 IndexedDB 中的队列一致，按顺序排列）
+  outbox: OutboxEntry[]
+  online: boolean
+  syncing: boolean
+  // 服务器上还有未加载的任务（按当前过滤和排序分页）
+  hasMore: boolean
+  loadingMore: boolean
+  // 当前清单中各过滤条件的任务数，由服务器计数，尚未获取时为 null
+  counts: TodoCounts | null
+  // 可撤销和可重做的操作，最近的操作在末尾
+  undoStack: HistoryEntry[]
+  redoStack: HistoryEntry[]
 
   // Actions
+  setListId: (listId: string | null) => void
+  // 按当前的过滤和排序重新加载第一页；有搜索词时改为加载服务器的搜索结果
   fetchTodos: () => Promise<void>
-  addTodo: (todo: TodoInsert) => Promise<void>
-  updateTodo: (id: string, updates: TodoUpdate) => Promise<void>
+  fetchMoreTodos: () => Promise<void>
+  fetchCounts: () => Promise<void>
+  addTodo: (todo: TodoInsert, tagIds?: string[]) => Promise<Todo>
+  // 传入 baseUpdatedAt 时检查编辑冲突，任务已被其他设备修改则抛出 TodoConflictError
+  updateTodo: (
+    id: string,
+    updates: TodoUpdate,
+    tagIds?: string[],
+    baseUpdatedAt?: string
+  ) => Promise<void>
   deleteTodo: (id: string) => Promise<void>
-  toggleTodo: (id: string) => Promise<void>
+  // 批量操作在一个请求中完成，返回成功和失败的任务
+  bulkDeleteTodos: (ids: string[]) => Promise<BulkResult>
+  bulkUpdateTodos: (ids: string[], updates: TodoUpdate) => Promise<BulkResult>
+  // 将当前清单中所有已完成的任务移到回收站，返回移动的任务数
+  clearCompleted: () => Promise<number>
+  toggleTodo: (id: string, includeSubtasks?: boolean) => Promise<void>
+  moveTodo: (id: string, prevId: string | null, nextId: string | null) => Promise<void>
+  setTodoTags: (id: string, tagIds: string[]) => Promise<void>
+  removeTag: (tagId: string) => void
+
+  // History
+  // 撤销或重做最近的一次操作并同步到服务器，返回该操作；没有可撤销的操作时返回 null
+  undo: () => Promise<HistoryEntry | null>
+  redo: () => Promise<HistoryEntry | null>
+
+  // Offline sync
+  syncOutbox: () => Promise<void>
+  retrySync: (todoId: string) => Promise<void>
+  discardSync: (todoId: string) => Promise<void>
+  subscribeToConnectivity: () => () => void
+
+  // Trash
+  fetchTrash: () => Promise<void>
+  restoreTodo: (id: string) => Promise<void>
+  deleteTodoForever: (id: string) => Promise<void>
+  emptyTrash: () => Promise<void>
+  purgeExpiredTodos: () => Promise<void>
+
+  // Recurrence
+  createNextOccurrence: (todo: Todo) => Promise<void>
+  skipOccurrence: (id: string) => Promise<void>
+  stopRecurrence: (id: string) => Promise<void>
 
   // Filters and sorting
   setFilter: (filter: TodoFilter) => void
   setSort: (sort: TodoSort, order?: SortOrder) => void
+  setPriorityFilter: (priority: PriorityFilter) => void
+  setTagFilter: (tagIds: string[], match?: TagMatchMode) => void
   setSearch: (search: string) => void
+  // 一次性应用过滤、排序和搜索（如从链接或保存的视图恢复）
+  setView: (view: Partial<TodoViewState>) => void
 
   // Computed
   filteredTodos: () => Todo[]
 
+  // 登出时清空任务数据和同步状态
+  reset: () => void
+
   // Real-time subscription
-  subscribeToTodos: () => () => void
+  subscribeToTodos: (userId: string) => () => void
+}
+
+// 将关联表记录整理为 todo id -> tag id 列表
+function groupTodoTags(rows: Pick<TodoTag, 'todo_id' | 'tag_id'>[]): Record<string, string[]> {
+  return rows.reduce<Record<string, string[]>>((acc, row) => {
+    acc[row.todo_id] = [...(acc[row.todo_id] || []), row.tag_id]
+    return acc
+  }, {})
+}
+
+// 正在等待服务器响应的修改数（按任务 id）。期间忽略该任务的实时推送，
+// 避免较早的推送覆盖本地的乐观状态，请求完成后以服务器返回的记录为准
+const inFlight = new Map<string, number>()
+
+function beginMutation(ids: string[]) {
+  ids.forEach((id) => inFlight.set(id, (inFlight.get(id) ?? 0) + 1))
+}
+
+function endMutation(ids: string[]) {
+  ids.forEach((id) => {
+    const count = (inFlight.get(id) ?? 1) - 1
+    if (count > 0) {
+      inFlight.set(id, count)
+    } else {
+      inFlight.delete(id)
+    }
+  })
+}
+
+type TodoQuery = Pick<
+  TodoState,
+  'listId' | 'filter' | 'sort' | 'order' | 'priorityFilter' | 'tagFilter' | 'tagMatch'
+>
+
+interface TodoPage {
+  rows: Todo[]
+  todoTags: Record<string, string[]>
+}
+
+// 每次重新加载第一页时递增，用于丢弃过滤或排序变化前发出的请求的结果
+let queryVersion = 0
+// 已加载的最后一页中最后一个任务，下一页从它之后开始
+let pageCursor: Todo | null = null
+// 显示当前页后提前在后台加载的下一页
+let prefetched: { version: number; cursor: Todo; page: Promise<TodoPage> } | null = null
+
+// 符合标签过滤的任务 id，未选择标签时返回 null 表示不限定
+async function fetchTaggedTodoIds(
+  query: Pick<TodoQuery, 'tagFilter' | 'tagMatch'>
+): Promise<string[] | null> {
+  if (query.tagFilter.length === 0) return null
+
+  const supabase = createClient()
+  const { data, error } = await supabase
+    .from('todo_tags')
+    .select('todo_id, tag_id')
+    .in('tag_id', query.tagFilter)
+
+  if (error) {
+    throw error
+  }
+  return getTaggedTodoIds(data || [], query.tagFilter, query.tagMatch)
+}
+
+// 按游标加载一页任务（在服务器端过滤和排序）以及这些任务的标签关联
+async function fetchTodoPage(query: TodoQuery, cursor: Todo | null): Promise<TodoPage> {
+  const supabase = createClient()
+  const keys = getSortKeys(query.sort, query.order)
+
+  let taggedIds: string[] | null
+  try {
+    taggedIds = await fetchTaggedTodoIds(query)
+  } catch (error) {
+    console.error('Error fetching todos:', error)
+    throw new Error(`获取任务失败: ${getErrorMessage(error)}`)
+  }
+  if (taggedIds?.length === 0) {
+    return { rows: [], todoTags: {} }
+  }
+
+  // 回收站中的任务不在任务列表中显示
+  let request = supabase.from('todos').select('*').is('deleted_at', null)
+  if (query.listId) {
+    request = request.eq('list_id', query.listId)
+  }
+  if (taggedIds) {
+    request = request.in('id', taggedIds)
+  }
+  for (const [column, operator, value] of getFilterConditions(query.filter, query.priorityFilter)) {
+    request = request.filter(column, operator, value)
+  }
+  if (cursor) {
+    request = request.or(buildCursorFilter(keys, cursor))
+  }
+  for (const key of keys) {
+    request = request.order(key.column, { ascending: key.ascending, nullsFirst: false })
+  }
+
+  const { data, error } = await request.limit(PAGE_SIZE)
+
+  if (error) {
+    console.error('Error fetching todos:', error)
+    throw new Error(`获取任务失败: ${error.message}`)
+  }
+
+  return withTodoTags(data || [])
+}
+
+// 获取任务的标签关联，与任务一起组成一页
+async function withTodoTags(rows: Todo[]): Promise<TodoPage> {
+  if (rows.length === 0) {
+    return { rows, todoTags: {} }
+  }
+
+  const supabase = createClient()
+  const tagsResult = await supabase
+    .from('todo_tags')
+    .select('todo_id, tag_id')
+    .in(
+      'todo_id',
+      rows.map((row) => row.id)
+    )
+
+  if (tagsResult.error) {
+    console.error('Error fetching todos:', tagsResult.error)
+    throw new Error(`获取任务失败: ${tagsResult.error.message}`)
+  }
+
+  return { rows, todoTags: groupTodoTags(tagsResult.data || []) }
+}
+
+// 在服务器端搜索当前清单中的任务，按相关度返回命中的任务
+async function searchTodoPage(
+  search: string,
+  listId: string | null
+): Promise<TodoPage & { hits: Record<string, SearchHit> }> {
+  const supabase = createClient()
+  const { data, error } = await supabase.rpc('search_todos', {
+    search_query: search,
+    list: listId,
+    max_results: SEARCH_RESULT_LIMIT,
+  })
+
+  if (error) {
+    console.error('Error searching todos:', error)
+    throw new Error(`搜索任务失败: ${error.message}`)
+  }
+
+  const results: { todo_id: string; rank: number; snippet: string | null }[] = data || []
+  const hits = Object.fromEntries(
+    results.map((result) => [result.todo_id, { rank: result.rank, snippet: result.snippet }])
+  )
+  if (results.length === 0) {
+    return { rows: [], todoTags: {}, hits }
+  }
+
+  const todosResult = await supabase
+    .from('todos')
+    .select('*')
+    .in(
+      'id',
+      results.map((result) => result.todo_id)
+    )
+
+  if (todosResult.error) {
+    console.error('Error searching todos:', todosResult.error)
+    throw new Error(`搜索任务失败: ${todosResult.error.message}`)
+  }
+
+  return { ...(await withTodoTags(todosResult.data || [])), hits }
+}
+
+// 在后台加载下一页，滚动到底部时可以立即显示
+function prefetchNextPage(query: TodoQuery) {
+  if (!pageCursor) return
+  const page = fetchTodoPage(query, pageCursor)
+  // 预取失败时不提示，真正需要这一页时会重新请求
+  page.catch(() => {
+    if (prefetched?.page === page) prefetched = null
+  })
+  prefetched = { version: queryVersion, cursor: pageCursor, page }
+}
+
+// 当前标签页是领导者时为订阅的用户 id，由它统计数量并转发给其他标签页
+let leadingUserId: string | null = null
+
+// 领导者最近一次转发的数量所属的查询
+let leaderCountsKey: string | null = null
+
+// 数量所属的查询：清单和标签过滤，相同时其他标签页统计的数量可以直接使用
+function getCountsKey({ listId, tagFilter, tagMatch }: TodoState): string {
+  return JSON.stringify([listId, [...tagFilter].sort(), tagFilter.length > 0 ? tagMatch : null])
+}
+
+// 任务变化后（包括其他设备上的修改）重新获取各过滤条件的数量。
+// 与领导者查看同一清单、使用相同标签过滤的标签页等待转发的结果，不重复请求
+const refreshCounts = debounce(() => {
+  const state = useTodoStore.getState()
+  const { listId, online, fetchCounts } = state
+  if (!listId || !online) return
+  if (!leadingUserId && leaderCountsKey === getCountsKey(state)) return
+  fetchCounts().catch((error) => {
+    console.error('Error fetching todo counts:', error)
+  })
+}, 1000)
+
+// 正在撤销或重做时为正数，期间调用的任务操作不再记入历史
+let replaying = 0
+
+// 记录一次可撤销的操作，新的操作会清空重做记录
+function recordHistory(entry: HistoryEntry) {
+  if (replaying > 0) return
+  useTodoStore.setState((state) => ({
+    undoStack: pushHistory(state.undoStack, entry),
+    redoStack: [],
+  }))
+}
+
+// 移除涉及这些任务的撤销和重做记录
+function dropHistory(ids: string[]) {
+  useTodoStore.setState((state) => ({
+    undoStack: invalidateHistory(state.undoStack, ids),
+    redoStack: invalidateHistory(state.redoStack, ids),
+  }))
+}
+
+// 撤销时执行相反的操作，重做时重新执行原来的操作
+async function replayCommand(command: HistoryCommand, direction: 'undo' | 'redo') {
+  const store = () => useTodoStore.getState()
+
+  switch (command.type) {
+    case 'add':
+    case 'delete': {
+      // 撤销添加和重做删除都是移到回收站，撤销删除和重做添加都是从回收站恢复
+      const ids = command.type === 'add' ? [command.id] : command.ids
+      if ((command.type === 'add') === (direction === 'undo')) {
+        await store().bulkDeleteTodos(ids)
+        return
+      }
+      // 同时删除的子任务会随父任务一起恢复，已恢复的任务不再重复恢复
+      const trashed = ids.filter((id) => store().trash.some((todo) => todo.id === id))
+      if (trashed.length === 0) {
+        throw new Error('任务已不在回收站中')
+      }
+      for (const id of trashed) {
+        if (store().trash.some((todo) => todo.id === id)) {
+          await store().restoreTodo(id)
+        }
+      }
+      return
+    }
+    case 'update':
+      for (const change of command.changes) {
+        const current = store().todos.find((todo) => todo.id === change.id)
+        // 以本地的版本检查冲突，任务已在其他地方修改时不覆盖
+        await store().updateTodo(
+          change.id,
+          direction === 'undo' ? change.before : change.after,
+          direction === 'undo' ? change.tagsBefore : change.tagsAfter,
+          current?.updated_at
+        )
+      }
+  }
+}
+
+// 服务器暂时不可达（浏览器仍认为在线）时，重试同步的间隔
+const SYNC_RETRY_INTERVAL = 30 * 1000
+
+// 当前订阅任务变化的用户，本地修改的结果会转发给该用户的其他标签页
+let sharingUserId: string | null = null
+
+// 将本地修改后服务器返回的记录转发给其他标签页，不必等待实时推送
+function shareTodoRows(rows: Todo[]) {
+  const userId = sharingUserId
+  if (!userId) return
+  for (const row of rows) {
+    postTabMessage({ type: 'todo-event', userId, event: { eventType: 'UPDATE', new: row } })
+  }
+}
+
+function shareDeletedTodos(ids: string[]) {
+  const userId = sharingUserId
+  if (!userId) return
+  for (const id of ids) {
+    postTabMessage({ type: 'todo-event', userId, event: { eventType: 'DELETE', old: { id } } })
+  }
+}
+
+function shareTagChanges(operation: Extract<OutboxOperation, { type: 'tags' }>) {
+  const userId = sharingUserId
+  if (!userId) return
+  const { todoId, added, removed } = operation
+  for (const tagId of removed) {
+    postTabMessage({
+      type: 'todo-tag-event',
+      userId,
+      event: { eventType: 'DELETE', old: { todo_id: todoId, tag_id: tagId } },
+    })
+  }
+  for (const tagId of added) {
+    postTabMessage({
+      type: 'todo-tag-event',
+      userId,
+      event: {
+        eventType: 'INSERT',
+        new: {
+          todo_id: todoId,
+          tag_id: tagId,
+          user_id: operation.userId,
+          created_at: new Date().toISOString(),
+        },
+      },
+    })
+  }
+}
+
+// 将修改发送到服务器并转发给其他标签页，返回受影响的任务记录
+async function sendOperation(operation: OutboxOperation): Promise<Todo[]> {
+  const rows = await sendToServer(operation)
+  if (operation.type === 'tags') {
+    shareTagChanges(operation)
+  } else {
+    shareTodoRows(rows)
+  }
+  return rows
+}
+
+async function sendToServer(operation: OutboxOperation): Promise<Todo[]> {
+  const supabase = createClient()
+
+  switch (operation.type) {
+    case 'insert': {
+      const { data, error } = await supabase.from('todos').insert([operation.row]).select()
+
+      // 重放时上一次请求可能已经成功（只是没有收到响应），直接读取已有的记录
+      if (error?.code === '23505') {
+        const existing = await supabase.from('todos').select('*').eq('id', operation.row.id)
+        if (existing.error) throw existing.error
+        if (existing.data && existing.data.length > 0) return existing.data
+      }
+      if (error) {
+        throw error
+      }
+
+      return data || []
+    }
+    case 'update': {
+      let query = supabase.from('todos').update(operation.updates).in('id', operation.ids)
+      // 乐观并发控制：只有服务器上的版本仍是编辑时看到的版本才更新
+      if (operation.expectedUpdatedAt) {
+        query = query.eq('updated_at', operation.expectedUpdatedAt)
+      }
+      const { data, error } = await query.select()
+
+      if (error) {
+        throw error
+      }
+      if (!data || data.length === 0) {
+        if (operation.expectedUpdatedAt) {
+          const latest = await supabase.from('todos').select('*').in('id', operation.ids)
+          if (latest.error) throw latest.error
+          if (latest.data && latest.data.length > 0) {
+            throw new TodoConflictError(latest.data[0])
+          }
+        }
+        throw new Error('任务不存在或已被永久删除')
+      }
+
+      return data
+    }
+    case 'tags': {
+      const { todoId, userId, added, removed } = operation
+
+      if (removed.length > 0) {
+        const { error } = await supabase
+          .from('todo_tags')
+          .delete()
+          .eq('todo_id', todoId)
+          .in('tag_id', removed)
+
+        if (error) {
+          throw error
+        }
+      }
+
+      if (added.length > 0) {
+        // 重放时关联可能已经存在，忽略重复的记录
+        const { error } = await supabase.from('todo_tags').upsert(
+          added.map((tagId) => ({ todo_id: todoId, tag_id: tagId, user_id: userId })),
+          { onConflict: 'todo_id,tag_id', ignoreDuplicates: true }
+        )
+
+        if (error) {
+          throw error
+        }
+      }
+
+      return []
+    }
+  }
+}
+
+let outboxLoaded: Promise<void> | null = null
+
+// 从 IndexedDB 读取上次未同步的修改，只在启动时读取一次
+function loadOutbox(): Promise<void> {
+  if (!outboxLoaded) {
+    outboxLoaded = readOutbox()
+      .then((entries) => {
+        useTodoStore.setState((state) => ({
+          outbox: [
+            ...entries,
+            ...state.outbox.filter((entry) => !entries.some((e) => e.seq === entry.seq)),
+          ].sort((a, b) => a.seq - b.seq),
+        }))
+      })
+      .catch((error) => {
+        console.error('Error loading outbox:', error)
+      })
+  }
+  return outboxLoaded
+}
+
+// 在线且前面没有等待同步的修改时直接发送；离线、网络错误或需要保持顺序时放入队列。
+// 放入队列时返回 null，本地的乐观状态保留，恢复网络后自动同步
+async function commitOperation(operation: OutboxOperation): Promise<Todo[] | null> {
+  await loadOutbox()
+  const { online, outbox } = useTodoStore.getState()
+
+  if (online && !outbox.some((entry) => entry.status === 'pending')) {
+    try {
+      return await sendOperation(operation)
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        throw error
+      }
+    }
+  }
+
+  const entry = await addOutboxEntry(operation)
+  useTodoStore.setState((state) => ({ outbox: [...state.outbox, entry] }))
+  if (useTodoStore.getState().online) {
+    void useTodoStore.getState().syncOutbox()
+  }
+  return null
+}
+
+// 本地只加载了当前过滤条件和已加载分页中的任务，在线时到服务器上逐层查找其余的后代任务。
+// 离线或网络错误时只能使用本地已知的任务 known
+async function withServerDescendants(ids: string[], known: string[]): Promise<string[]> {
+  if (!useTodoStore.getState().online) return known
+
+  const supabase = createClient()
+  try {
+    const descendants = await collectDescendants(ids, async (parentIds) => {
+      const { data, error } = await supabase
+        .from('todos')
+        .select('id')
+        .in('parent_id', parentIds)
+        .is('deleted_at', null)
+
+      if (error) {
+        throw error
+      }
+      return data || []
+    })
+    return [...new Set([...known, ...descendants.map((todo) => todo.id)])]
+  } catch (error) {
+    if (!isNetworkError(error)) {
+      throw error
+    }
+    return known
+  }
+}
+
+// 以服务器返回的记录更新本地状态，再重放仍在队列中的修改
+function mergeServerRows(
+  state: TodoState,
+  rows: Todo[],
+  outbox: OutboxEntry[]
+): Pick<TodoState, 'todos' | 'todoTags' | 'trash'> {
+  const visible = rows.filter(
+    (row) => !row.deleted_at && (!state.listId || row.list_id === state.listId)
+  )
+  const hidden = new Set(rows.filter((row) => !visible.includes(row)).map((row) => row.id))
+  const deleted = rows.filter((row) => row.deleted_at)
+
+  return {
+    ...applyOperations(
+      {
+        todos: upsertTodos(
+          state.todos.filter((todo) => !hidden.has(todo.id)),
+          visible
+        ),
+        todoTags: state.todoTags,
+      },
+      outbox,
+      state.listId
+    ),
+    trash: upsertTodos(
+      removeFromTrash(
+        state.trash,
+        rows.filter((row) => !row.deleted_at).map((row) => row.id)
+      ),
+      deleted
+    ),
+  }
+}
+
+// 每批清理的过期任务数
+const PURGE_BATCH_SIZE = 100
+
+// 永久删除任务（子任务由数据库级联删除），并清理附件在存储中的文件
+// ids 需包含所有会被级联删除的后代任务，以便一并清理附件
+async function destroyTodos(ids: string[]): Promise<void> {
+  const supabase = createClient()
+  const { getStoragePaths, removeStoredObjects } = useAttachmentStore.getState()
+
+  // 附件记录会随任务级联删除，先记下存储中的文件路径，删除任务后再清理文件
+  const paths = await getStoragePaths(ids)
+
+  const { error } = await supabase.from('todos').delete().in('id', ids)
+
+  if (error) {
+    throw error
+  }
+  shareDeletedTodos(ids)
+
+  await removeStoredObjects(paths, ids)
+}
+
+// 获取当前任务中最靠前的位置，新任务插入到它之前
+function getFirstPosition(todos: Todo[]): string | null {
+  return todos.reduce<string | null>(
+    (first, todo) =>
+      todo.position && (!first || compareKeys(todo.position, first) < 0) ? todo.position : first,
+    null
+  )
+}
+
+// 按排序字段比较两个任务，字段相同时以优先级（高优先）作为次要排序
+function compareTodos(a: Todo, b: Todo, sort: TodoSort, order: SortOrder): number {
+  // 手动排序不区分升降序；没有位置的任务排在最后，位置相同时较新的任务在前
+  if (sort === 'manual') {
+    if (!a.position !== !b.position) {
+      return a.position ? -1 : 1
+    }
+    const result = a.position && b.position ? compareKeys(a.position, b.position) : 0
+    return result !== 0
+      ? result
+      : new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  }
+
+  // 没有截止时间的任务始终排在最后
+  if (sort === 'due_at' && !a.due_at !== !b.due_at) {
+    return a.due_at ? -1 : 1
+  }
+
+  let result: number
+
+  switch (sort) {
+    case 'title':
+      result = compareTitles(a.title, b.title)
+      break
+    case 'updated_at':
+      result = new Date(a.updated_at).getTime() - new Date(b.updated_at).getTime()
+      break
+    case 'due_at':
+      result =
+        a.due_at && b.due_at ? new Date(a.due_at).getTime() - new Date(b.due_at).getTime() : 0
+      break
+    case 'priority':
+      result = getPriorityRank(a.priority) - getPriorityRank(b.priority)
+      break
+    default: // 'created_at'
+      result = new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+      break
+  }
+
+  if (result !== 0) {
+    return order === 'asc' ? result : -result
+  }
+
+  if (sort === 'priority') {
+    // 优先级相同时，较新的任务排在前面
+    return new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  }
+
+  const rank = getPriorityRank(b.priority) - getPriorityRank(a.priority)
+  if (rank !== 0) {
+    return rank
+  }
+
+  // 与服务器端的分页排序一致，最后按 id 排序
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0
 }
 
 export const useTodoStore = create<TodoState>((set, get) => ({
   todos: [],
   loading: false,
+  listId: null,
   filter: 'all',
   sort: 'created_at',
   order: 'desc',
+  priorityFilter: 'all',
+  tagFilter: [],
+  tagMatch: 'any',
   search: '',
+  searchHits: null,
+  todoTags: {},
+  trash: [],
+  trashLoading: false,
+  pendingIds: [],
+  outbox: [],
+  online: true,
+  syncing: false,
+  hasMore: false,
+  loadingMore: false,
+  counts: null,
+  undoStack: [],
+  redoStack: [],
+
+  setListId: (listId: string | null) => {
+    if (get().listId !== listId) {
+      set({ listId, todos: [], hasMore: false, counts: null, searchHits: null })
+    }
+  },
 
   fetchTodos: async () => {
-    const supabase = createClient()
-    set({ loading: true })
+    const { listId } = get()
+    const version = ++queryVersion
+    pageCursor = null
+    prefetched = null
+    set({ loading: true, loadingMore: false })
+    await loadOutbox()
+
+    // 先显示本地缓存的任务，服务器数据返回后再替换
+    let cached = false
+    if (listId && get().todos.length === 0) {
+      const cache = await readCachedList(listId).catch(() => null)
+      if (cache && get().listId === listId && version === queryVersion) {
+        set({ todos: cache.todos, todoTags: cache.todoTags, loading: false })
+        cached = true
+      }
+    }
 
     try {
-      const { data, error } = await supabase
-        .from('todos')
-        .select('*')
-        .order('created_at', { ascending: false })
+      const search = get().search.trim()
+      if (search) {
+        const { hits, ...page } = await searchTodoPage(search, listId)
+        if (version !== queryVersion) return
 
-      if (error) {
-        console.error('Error fetching todos:', error)
-        throw new Error(`获取任务失败: ${error.message}`)
+        // 搜索结果按相关度一次性返回，不再分页
+        set((state) => ({
+          ...applyOperations({ todos: page.rows, todoTags: page.todoTags }, state.outbox, listId),
+          searchHits: hits,
+          hasMore: false,
+          loading: false,
+        }))
+        return
       }
 
-      set({ todos: data || [], loading: false })
+      const page = await fetchTodoPage(get(), null)
+      // 过滤、排序或清单已经变化，以之后的请求为准
+      if (version !== queryVersion) return
+
+      pageCursor = page.rows[page.rows.length - 1] ?? null
+      const hasMore = page.rows.length === PAGE_SIZE
+
+      // 尚未同步的本地修改覆盖在服务器数据之上
+      set((state) => ({
+        ...applyOperations({ todos: page.rows, todoTags: page.todoTags }, state.outbox, listId),
+        searchHits: null,
+        hasMore,
+        loading: false,
+      }))
+
+      if (hasMore) {
+        prefetchNextPage(get())
+      }
     } catch (error) {
+      if (version !== queryVersion) return
       console.error('Error fetching todos:', error)
-      set({ loading: false })
+      set({ loading: false, hasMore: false, searchHits: null })
+      // 离线时继续使用缓存的任务，搜索退回到在已加载的任务中查找
+      if ((cached || get().search.trim()) && isNetworkError(error)) return
+      throw error
+    }
+  },
+
+  fetchMoreTodos: async () => {
+    const { hasMore, loading, loadingMore, listId } = get()
+    const cursor = pageCursor
+    if (!hasMore || loading || loadingMore || !cursor) return
+
+    const version = queryVersion
+    set({ loadingMore: true })
+
+    try {
+      // 优先使用已经预取的下一页
+      const page =
+        prefetched && prefetched.version === version && prefetched.cursor === cursor
+          ? await prefetched.page.catch(() => fetchTodoPage(get(), cursor))
+          : await fetchTodoPage(get(), cursor)
+      if (version !== queryVersion) return
+
+      pageCursor = page.rows[page.rows.length - 1] ?? cursor
+      const more = page.rows.length === PAGE_SIZE
+
+      // 已加载的任务（包括实时推送的）保持不变，只追加新的任务，再重放未同步的修改
+      set((state) => {
+        const existing = new Set(state.todos.map((todo) => todo.id))
+        return {
+          ...applyOperations(
+            {
+              todos: [...state.todos, ...page.rows.filter((row) => !existing.has(row.id))],
+              todoTags: { ...page.todoTags, ...state.todoTags },
+            },
+            state.outbox,
+            listId
+          ),
+          hasMore: more,
+          loadingMore: false,
+        }
+      })
+
+      if (more) {
+        prefetchNextPage(get())
+      } else {
+        prefetched = null
+      }
+    } catch (error) {
+      if (version !== queryVersion) return
+      console.error('Error fetching more todos:', error)
+      set({ loadingMore: false })
       throw error
     }
   },
 
-  addTodo: async (todo: TodoInsert) => {
+  fetchCounts: async () => {
     const supabase = createClient()
+    const { listId } = get()
+    const key = getCountsKey(get())
+
+    let taggedIds: string[] | null
+    try {
+      taggedIds = await fetchTaggedTodoIds(get())
+    } catch (error) {
+      console.error('Error fetching todo counts:', error)
+      throw new Error(`获取任务数量失败: ${getErrorMessage(error)}`)
+    }
 
+    // 只统计数量、不返回记录，不受 max_rows 限制
+    const results = await Promise.all(
+      TODO_FILTERS.map((filter) => {
+        let query = supabase
+          .from('todos')
+          .select('id', { count: 'exact', head: true })
+          .is('deleted_at', null)
+        if (listId) {
+          query = query.eq('list_id', listId)
+        }
+        if (taggedIds) {
+          query = query.in('id', taggedIds)
+        }
+        for (const [column, operator, value] of getFilterConditions(filter)) {
+          query = query.filter(column, operator, value)
+        }
+        return query
+      })
+    )
+
+    const failed = results.find((result) => result.error)?.error
+    if (failed) {
+      console.error('Error fetching todo counts:', failed)
+      throw new Error(`获取任务数量失败: ${failed.message}`)
+    }
+
+    // 清单或标签过滤已经变化，以之后的统计为准
+    if (getCountsKey(get()) !== key) return
+    const counts = Object.fromEntries(
+      TODO_FILTERS.map((filter, index) => [filter, results[index].count ?? 0])
+    ) as TodoCounts
+    set({ counts })
+
+    if (leadingUserId && listId) {
+      postTabMessage({ type: 'counts', userId: leadingUserId, key, counts })
+    }
+  },
+
+  addTodo: async (todo: TodoInsert, tagIds: string[] = []) => {
+    // 在客户端生成 id，乐观插入的任务、服务器返回的记录和实时推送使用同一个 id
+    const row = {
+      ...todo,
+      id: todo.id ?? crypto.randomUUID(),
+      // 新任务默认排在手动排序的最前面
+      position:
+        todo.position === undefined
+          ? generateKeyBetween(null, getFirstPosition(get().todos))
+          : todo.position,
+    }
+    const local = createLocalTodo(row, get().listId)
+
+    set((state) => ({
+      todos: [local, ...state.todos],
+      pendingIds: [...state.pendingIds, row.id],
+    }))
+
+    let rows: Todo[] | null
+    beginMutation([row.id])
     try {
-      const { data, error } = await supabase.from('todos').insert([todo]).select().single()
+      rows = await commitOperation({ type: 'insert', row })
+    } catch (error) {
+      console.error('Error adding todo:', error)
+      set((state) => ({
+        todos: state.todos.filter((t) => t.id !== row.id),
+        pendingIds: state.pendingIds.filter((id) => id !== row.id),
+      }))
+      throw error
+    } finally {
+      endMutation([row.id])
+    }
+
+    recordHistory({ label: '添加任务', command: { type: 'add', id: row.id } })
+
+    // 进入同步队列的任务无需等待确认：之后对它的修改会按顺序排在插入之后
+    const saved = rows?.[0] ?? local
+    set((state) => ({
+      todos: rows ? upsertTodos(state.todos, rows) : state.todos,
+      pendingIds: state.pendingIds.filter((id) => id !== row.id),
+    }))
+
+    if (tagIds.length > 0) {
+      await get().setTodoTags(saved.id, tagIds)
+    }
+
+    return saved
+  },
+
+  updateTodo: async (
+    id: string,
+    updates: TodoUpdate,
+    tagIds?: string[],
+    baseUpdatedAt?: string
+  ) => {
+    const previous = get().todos.find((t) => t.id === id)
+    const previousTags = get().todoTags[id] || []
+    // 队列中还有该任务未同步的修改时，服务器上的版本必然会变化，不再检查冲突
+    const expectedUpdatedAt = get().outbox.some((entry) =>
+      getOperationTodoIds(entry.operation).includes(id)
+    )
+      ? undefined
+      : baseUpdatedAt
+    // 任务被移动到其他清单时，需要连同子任务一起从当前清单中移除
+    const tree = previous ? [id, ...getDescendantIds(get().todos, id)] : []
+    const snapshot = get().todos.filter((t) => tree.includes(t.id))
+
+    // 乐观更新：先修改本地状态，再以服务器返回的记录校正
+    if (previous) {
+      set((state) => {
+        const next = { ...previous, ...updates }
+        if (state.listId && next.list_id !== state.listId) {
+          return { todos: state.todos.filter((t) => !tree.includes(t.id)) }
+        }
+        return { todos: state.todos.map((t) => (t.id === id ? { ...t, ...updates } : t)) }
+      })
+    }
+
+    let saved: Todo | undefined
+    beginMutation([id])
+    try {
+      const rows = await commitOperation({ type: 'update', ids: [id], updates, expectedUpdatedAt })
+      saved = rows?.find((row) => row.id === id)
+    } catch (error) {
+      console.error('Error updating todo:', error)
+      // 发生冲突时显示服务器上的最新版本，由用户决定如何处理
+      if (error instanceof TodoConflictError) {
+        set((state) => reduceTodoEvent(state, { eventType: 'UPDATE', new: error.theirs }) ?? state)
+        throw error
+      }
+      // 只恢复本次修改的字段，保留期间发生的其他修改
+      set((state) => ({ todos: rollbackTodoUpdate(state.todos, snapshot, id, updates) }))
+      throw error
+    } finally {
+      endMutation([id])
+    }
+
+    if (previous) {
+      recordHistory({
+        label: describeUpdate(updates),
+        command: {
+          type: 'update',
+          changes: [
+            {
+              id,
+              before: pickFields(previous, updates),
+              after: updates,
+              ...(tagIds && { tagsBefore: previousTags, tagsAfter: tagIds }),
+            },
+          ],
+        },
+      })
+    }
+
+    try {
+      // 同一任务还有未完成的修改时保留乐观状态，由最后一次修改的结果校正；
+      // 修改进入同步队列时没有服务器记录，保留乐观状态
+      if (saved && !inFlight.has(id)) {
+        const row = saved
+        set((state) => {
+          if (state.listId && row.list_id !== state.listId) {
+            return removeTodoTree(state, id)
+          }
+          return { todos: upsertTodos(state.todos, [row]) }
+        })
+      }
+
+      if (tagIds) {
+        await get().setTodoTags(id, tagIds)
+      }
+
+      // 重复任务被标记为完成时，生成下一次任务（离线时在同步后生成）
+      if (saved && updates.completed && previous && !previous.completed) {
+        await get().createNextOccurrence(saved)
+      }
+    } catch (error) {
+      console.error('Error updating todo:', error)
+      throw error
+    }
+  },
+
+  deleteTodo: async (id: string) => {
+    await get().bulkDeleteTodos([id])
+  },
+
+  bulkDeleteTodos: async (ids: string[]) => {
+    const { todos } = get()
+    const loaded = [...new Set(ids.flatMap((id) => [id, ...getDescendantIds(todos, id)]))]
+    const removed = todos.filter((t) => loaded.includes(t.id))
+    // 任务及其子任务使用相同的删除时间移到回收站，恢复时一并恢复
+    const deletedAt = new Date().toISOString()
+
+    // 软删除，先在本地移到回收站；保留标签关联，恢复后标签仍然有效
+    set((state) => ({
+      todos: state.todos.filter((todo) => !loaded.includes(todo.id)),
+      trash: [
+        ...removed.map((todo) => ({ ...todo, deleted_at: deletedAt })),
+        ...removeFromTrash(state.trash, loaded),
+      ],
+    }))
+
+    // 所有任务（包括未加载的后代任务）在一个请求中删除
+    let all = loaded
+    let rows: Todo[] | null
+    beginMutation(loaded)
+    try {
+      all = await withServerDescendants(ids, loaded)
+      rows = await commitOperation({
+        type: 'update',
+        ids: all,
+        updates: { deleted_at: deletedAt },
+      })
+    } catch (error) {
+      console.error('Error deleting todos:', error)
+      set((state) => ({
+        todos: upsertTodos(state.todos, removed),
+        trash: removeFromTrash(state.trash, all),
+      }))
+      throw error
+    } finally {
+      endMutation(loaded)
+    }
+
+    // 服务器没有删除的任务放回任务列表
+    const failed = getBulkResult(all, rows).failed
+    set((state) => ({
+      todos: upsertTodos(
+        state.todos,
+        removed.filter((todo) => failed.includes(todo.id))
+      ),
+      trash: upsertTodos(removeFromTrash(state.trash, failed), rows ?? []),
+    }))
+
+    const result = getBulkResult(ids, rows)
+    if (result.succeeded.length > 0) {
+      recordHistory({
+        label: ids.length > 1 ? '批量删除任务' : '删除任务',
+        command: { type: 'delete', ids: result.succeeded },
+      })
+    }
+    return result
+  },
+
+  bulkUpdateTodos: async (ids: string[], updates: TodoUpdate) => {
+    const { todos } = get()
+    const previous = todos.filter((t) => ids.includes(t.id))
+    // 移到其他清单的任务需要连同子任务一起从当前清单中移除
+    const tree = [...new Set(ids.flatMap((id) => [id, ...getDescendantIds(todos, id)]))]
+    const snapshot = todos.filter((t) => tree.includes(t.id))
+
+    set((state) => {
+      const next = state.todos.map((t) => (ids.includes(t.id) ? { ...t, ...updates } : t))
+      if (state.listId && updates.list_id && updates.list_id !== state.listId) {
+        return { todos: next.filter((t) => !tree.includes(t.id)) }
+      }
+      return { todos: next }
+    })
+
+    // 所有任务在一个请求中修改
+    let rows: Todo[] | null
+    beginMutation(ids)
+    try {
+      rows = await commitOperation({ type: 'update', ids, updates })
+    } catch (error) {
+      console.error('Error updating todos:', error)
+      set((state) => ({ todos: upsertTodos(state.todos, snapshot) }))
+      throw error
+    } finally {
+      endMutation(ids)
+    }
+
+    // 服务器没有修改的任务恢复原样，其余以服务器返回的记录为准
+    const result = getBulkResult(ids, rows)
+    const reverted = snapshot.filter((todo) =>
+      result.failed.some((id) => todo.id === id || getDescendantIds(snapshot, id).includes(todo.id))
+    )
+    set((state) => {
+      const next = { ...state, todos: upsertTodos(state.todos, reverted) }
+      return rows ? mergeServerRows(next, rows, state.outbox) : { todos: next.todos }
+    })
+
+    if (result.succeeded.length > 0) {
+      recordHistory({
+        label: `批量${describeUpdate(updates)}`,
+        command: {
+          type: 'update',
+          changes: previous
+            .filter((todo) => result.succeeded.includes(todo.id))
+            .map((todo) => ({ id: todo.id, before: pickFields(todo, updates), after: updates })),
+        },
+      })
+    }
+
+    // 重复任务被标记为完成时，生成下一次任务
+    if (updates.completed) {
+      for (const row of rows ?? []) {
+        if (previous.find((todo) => todo.id === row.id)?.completed === false) {
+          await get()
+            .createNextOccurrence(row)
+            .catch((error) => console.error('Error creating next occurrence:', error))
+        }
+      }
+    }
+
+    return result
+  },
+
+  clearCompleted: async () => {
+    const { listId, todos } = get()
+    const completed = todos.filter((todo) => todo.completed)
+    // 与删除任务一致，已完成任务的子任务（包括未完成的）一并移到回收站
+    const ids = new Set(completed.flatMap((todo) => [todo.id, ...getDescendantIds(todos, todo.id)]))
+    const removed = todos.filter((todo) => ids.has(todo.id))
+    const deletedAt = new Date().toISOString()
+    const supabase = createClient()
+
+    set((state) => ({ todos: state.todos.filter((todo) => !ids.has(todo.id)) }))
+
+    try {
+      // 直接在服务器端按条件删除，包括尚未加载的已完成任务
+      let query = supabase
+        .from('todos')
+        .update({ deleted_at: deletedAt })
+        .eq('completed', true)
+        .is('deleted_at', null)
+      if (listId) {
+        query = query.eq('list_id', listId)
+      }
+      const { data, error } = await query.select()
 
       if (error) {
         throw error
       }
 
+      // 逐层删除这些任务的子任务，使用相同的删除时间，恢复时一并恢复
+      const rows: Todo[] = [...(data || [])]
+      let parentIds = rows.map((row) => row.id)
+      while (parentIds.length > 0) {
+        const { data: children, error: childError } = await supabase
+          .from('todos')
+          .update({ deleted_at: deletedAt })
+          .in('parent_id', parentIds)
+          .is('deleted_at', null)
+          .select()
+
+        if (childError) {
+          throw childError
+        }
+
+        rows.push(...(children || []))
+        parentIds = (children || []).map((child) => child.id)
+      }
+
       set((state) => ({
-        todos: [data, ...state.todos],
+        todos: state.todos.filter((todo) => !rows.some((row) => row.id === todo.id)),
+        trash: upsertTodos(state.trash, rows),
       }))
+      shareTodoRows(rows)
+      if (rows.length > 0) {
+        recordHistory({
+          label: '清除已完成',
+          command: { type: 'delete', ids: rows.map((row) => row.id) },
+        })
+      }
+      return rows.length
     } catch (error) {
-      console.error('Error adding todo:', error)
+      set((state) => ({ todos: upsertTodos(state.todos, removed) }))
+      // 离线时只能删除已加载的任务，删除操作进入同步队列
+      if (isNetworkError(error)) {
+        const result = await get().bulkDeleteTodos(completed.map((todo) => todo.id))
+        return result.succeeded.length
+      }
+      console.error('Error clearing completed todos:', error)
+      throw error
+    }
+  },
+
+  toggleTodo: async (id: string, includeSubtasks = false) => {
+    const todo = get().todos.find((t) => t.id === id)
+    if (!todo) return
+
+    if (!includeSubtasks) {
+      await get().updateTodo(id, { completed: !todo.completed })
+      return
+    }
+
+    // 将任务及其所有子任务一并设为相同的完成状态，先在本地更新，失败时恢复
+    const ids = [id, ...getDescendantIds(get().todos, id)]
+    const completed = !todo.completed
+    const previous = new Map(
+      get()
+        .todos.filter((t) => ids.includes(t.id))
+        .map((t) => [t.id, t.completed])
+    )
+
+    set((state) => ({
+      todos: state.todos.map((t) => (ids.includes(t.id) ? { ...t, completed } : t)),
+    }))
+
+    let toggled: Todo | undefined
+    beginMutation(ids)
+    try {
+      const rows = await commitOperation({ type: 'update', ids, updates: { completed } })
+
+      if (rows) {
+        set((state) => ({
+          todos: state.todos.map((t) => rows.find((row) => row.id === t.id) ?? t),
+        }))
+        toggled = rows.find((row) => row.id === id)
+      }
+      recordHistory({
+        label: describeUpdate({ completed }),
+        command: {
+          type: 'update',
+          changes: [...previous].map(([todoId, was]) => ({
+            id: todoId,
+            before: { completed: was },
+            after: { completed },
+          })),
+        },
+      })
+    } catch (error) {
+      console.error('Error toggling todo:', error)
+      set((state) => ({
+        todos: state.todos.map((t) =>
+          previous.has(t.id) ? { ...t, completed: previous.get(t.id)! } : t
+        ),
+      }))
+      throw error
+    } finally {
+      endMutation(ids)
+    }
+
+    if (toggled?.completed) {
+      await get().createNextOccurrence(toggled)
+    }
+  },
+
+  moveTodo: async (id: string, prevId: string | null, nextId: string | null) => {
+    const { todos } = get()
+    const todo = todos.find((t) => t.id === id)
+    if (!todo) return
+
+    const lower = todos.find((t) => t.id === prevId)?.position ?? null
+    let upper = todos.find((t) => t.id === nextId)?.position ?? null
+    // 相邻任务位置相同（如两台设备同时在顶部添加任务）时，放宽上界，紧跟在前一个任务之后
+    if (lower && upper && compareKeys(lower, upper) >= 0) {
+      upper = null
+    }
+    const position = generateKeyBetween(lower, upper)
+
+    // updateTodo 会先在本地更新位置，使拖动结果立即生效，保存失败时自动恢复
+    await get().updateTodo(id, { position })
+  },
+
+  setTodoTags: async (id: string, tagIds: string[]) => {
+    const todo = get().todos.find((t) => t.id === id)
+    if (!todo) return
+
+    const current = get().todoTags[id] || []
+    const added = tagIds.filter((tagId) => !current.includes(tagId))
+    const removed = current.filter((tagId) => !tagIds.includes(tagId))
+    if (added.length === 0 && removed.length === 0) return
+
+    try {
+      await commitOperation({ type: 'tags', todoId: id, userId: todo.user_id, added, removed })
+
+      set((state) => ({
+        todoTags: { ...state.todoTags, [id]: tagIds },
+      }))
+    } catch (error) {
+      console.error('Error updating todo tags:', error)
+      throw new Error(`更新标签失败: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  },
+
+  removeTag: (tagId: string) => {
+    set((state) => ({
+      todoTags: Object.fromEntries(
+        Object.entries(state.todoTags).map(([todoId, tagIds]) => [
+          todoId,
+          tagIds.filter((id) => id !== tagId),
+        ])
+      ),
+      tagFilter: state.tagFilter.filter((id) => id !== tagId),
+    }))
+  },
+
+  undo: async () => {
+    const { undoStack } = get()
+    const entry = undoStack[undoStack.length - 1]
+    // 上一次撤销或重做完成前不再执行新的撤销
+    if (!entry || replaying > 0) return null
+
+    set((state) => ({ undoStack: state.undoStack.slice(0, -1) }))
+    replaying++
+    try {
+      await replayCommand(entry.command, 'undo')
+    } catch (error) {
+      console.error('Error undoing:', error)
+      // 任务已在其他地方修改或删除，涉及这些任务的其他记录也不再可靠
+      dropHistory(getCommandTodoIds(entry.command))
+      throw error
+    } finally {
+      replaying--
+    }
+
+    set((state) => ({ redoStack: pushHistory(state.redoStack, entry) }))
+    return entry
+  },
+
+  redo: async () => {
+    const { redoStack } = get()
+    const entry = redoStack[redoStack.length - 1]
+    if (!entry || replaying > 0) return null
+
+    set((state) => ({ redoStack: state.redoStack.slice(0, -1) }))
+    replaying++
+    try {
+      await replayCommand(entry.command, 'redo')
+    } catch (error) {
+      console.error('Error redoing:', error)
+      dropHistory(getCommandTodoIds(entry.command))
+      throw error
+    } finally {
+      replaying--
+    }
+
+    set((state) => ({ undoStack: pushHistory(state.undoStack, entry) }))
+    return entry
+  },
+
+  syncOutbox: async () => {
+    if (get().syncing) return
+    set({ syncing: true })
+    await loadOutbox()
+
+    try {
+      // 按顺序逐条重放，网络仍不可用时停止，被服务器拒绝的修改标记为失败后继续
+      for (;;) {
+        const entry = get().outbox.find((e) => e.status === 'pending')
+        if (!entry || !get().online) break
+
+        const ids = getOperationTodoIds(entry.operation)
+        beginMutation(ids)
+        try {
+          const rows = await sendOperation(entry.operation)
+          await deleteOutboxEntry(entry.seq)
+
+          set((state) => {
+            const outbox = state.outbox.filter((e) => e.seq !== entry.seq)
+            return { outbox, ...mergeServerRows(state, rows, outbox) }
+          })
+
+          // 离线时完成的重复任务，同步后再生成下一次任务
+          if (entry.operation.type === 'update' && entry.operation.updates.completed) {
+            for (const row of rows) {
+              await get()
+                .createNextOccurrence(row)
+                .catch((error) => console.error('Error creating next occurrence:', error))
+            }
+          }
+        } catch (error) {
+          if (isNetworkError(error)) break
+
+          console.error('Error syncing operation:', error)
+          const failed: OutboxEntry = {
+            ...entry,
+            status: 'failed',
+            error: getErrorMessage(error),
+          }
+          await putOutboxEntry(failed).catch((err) =>
+            console.error('Error saving outbox entry:', err)
+          )
+          set((state) => ({
+            outbox: state.outbox.map((e) => (e.seq === entry.seq ? failed : e)),
+          }))
+        } finally {
+          endMutation(ids)
+        }
+      }
+    } finally {
+      set({ syncing: false })
+    }
+  },
+
+  retrySync: async (todoId: string) => {
+    const entries = get().outbox.filter(
+      (entry) => entry.status === 'failed' && getOperationTodoIds(entry.operation).includes(todoId)
+    )
+    const retried = entries.map((entry) => ({ ...entry, status: 'pending' as const, error: null }))
+
+    await Promise.all(retried.map((entry) => putOutboxEntry(entry)))
+    set((state) => ({
+      outbox: state.outbox.map((e) => retried.find((entry) => entry.seq === e.seq) ?? e),
+    }))
+    await get().syncOutbox()
+  },
+
+  discardSync: async (todoId: string) => {
+    const seqs = get()
+      .outbox.filter(
+        (entry) =>
+          entry.status === 'failed' && getOperationTodoIds(entry.operation).includes(todoId)
+      )
+      .map((entry) => entry.seq)
+
+    await Promise.all(seqs.map((seq) => deleteOutboxEntry(seq)))
+    set((state) => ({ outbox: state.outbox.filter((e) => !seqs.includes(e.seq)) }))
+
+    // 放弃的修改已应用在本地，重新加载服务器数据以恢复
+    await get().fetchTodos()
+  },
+
+  subscribeToConnectivity: () => {
+    const handleOnline = () => {
+      set({ online: true })
+      void get().syncOutbox()
+    }
+    const handleOffline = () => set({ online: false })
+
+    set({ online: navigator.onLine })
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+
+    // 浏览器认为在线但服务器暂时不可达时，定期重试
+    const timer = setInterval(() => {
+      if (get().online && get().outbox.some((entry) => entry.status === 'pending')) {
+        void get().syncOutbox()
+      }
+    }, SYNC_RETRY_INTERVAL)
+
+    void get().syncOutbox()
+
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+      clearInterval(timer)
+    }
+  },
+
+  fetchTrash: async () => {
+    const supabase = createClient()
+    set({ trashLoading: true })
+
+    try {
+      const { data, error } = await supabase
+        .from('todos')
+        .select('*')
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false })
+
+      if (error) {
+        throw new Error(`获取回收站失败: ${error.message}`)
+      }
+
+      set({ trash: data || [], trashLoading: false })
+    } catch (error) {
+      console.error('Error fetching trash:', error)
+      set({ trashLoading: false })
       throw error
     }
   },
 
-  updateTodo: async (id: string, updates: TodoUpdate) => {
+  restoreTodo: async (id: string) => {
+    const { trash } = get()
+    const todo = trash.find((t) => t.id === id)
+    if (!todo) return
+
+    // 一并恢复与该任务同时删除的子任务，之前单独删除的子任务仍留在回收站
+    const ids = [
+      id,
+      ...getDescendantIds(trash, id).filter(
+        (childId) => trash.find((t) => t.id === childId)?.deleted_at === todo.deleted_at
+      ),
+    ]
     const supabase = createClient()
 
+    beginMutation(ids)
     try {
       const { data, error } = await supabase
         .from('todos')
-        .update(updates)
-        .eq('id', id)
+        .update({ deleted_at: null })
+        .in('id', ids)
         .select()
-        .single()
 
       if (error) {
         throw error
       }
 
+      shareTodoRows(data || [])
+      // 只将属于当前清单的任务放回任务列表
       set((state) => ({
-        todos: state.todos.map((todo) => (todo.id === id ? data : todo)),
+        trash: removeFromTrash(state.trash, ids),
+        todos: [
+          ...(data || []).filter((row) => !state.listId || row.list_id === state.listId),
+          ...state.todos.filter((t) => !ids.includes(t.id)),
+        ],
       }))
     } catch (error) {
-      console.error('Error updating todo:', error)
+      console.error('Error restoring todo:', error)
       throw error
+    } finally {
+      endMutation(ids)
     }
   },
 
-  deleteTodo: async (id: string) => {
+  deleteTodoForever: async (id: string) => {
+    const ids = [id, ...getDescendantIds(get().trash, id)]
+
+    try {
+      await destroyTodos(ids)
+      set((state) => ({ trash: removeFromTrash(state.trash, ids) }))
+    } catch (error) {
+      console.error('Error deleting todo forever:', error)
+      throw error
+    }
+  },
+
+  emptyTrash: async () => {
+    const ids = get().trash.map((todo) => todo.id)
+    if (ids.length === 0) return
+
+    try {
+      await destroyTodos(ids)
+      set((state) => ({ trash: removeFromTrash(state.trash, ids) }))
+    } catch (error) {
+      console.error('Error emptying trash:', error)
+      throw error
+    }
+  },
+
+  purgeExpiredTodos: async () => {
+    const cutoff = getPurgeCutoff(TRASH_RETENTION_DAYS)
+    if (!cutoff) return
+
+    const supabase = createClient()
+
+    try {
+      // 在服务器端筛选过期的任务，按 id 分批清理，不受 max_rows 限制
+      let lastId: string | null = null
+      let more = true
+      while (more) {
+        let query = supabase
+          .from('todos')
+          .select('id')
+          .lt('deleted_at', cutoff.toISOString())
+          .order('id')
+          .limit(PURGE_BATCH_SIZE)
+        if (lastId) {
+          query = query.gt('id', lastId)
+        }
+        const { data, error } = await query
+
+        if (error) {
+          throw error
+        }
+
+        const expired = (data || []).map((todo) => todo.id)
+        if (expired.length === 0) return
+
+        // 过期任务的子任务会被级联删除，需要一并清理附件
+        const descendants = await collectDescendants(expired, async (parentIds) => {
+          const { data: children, error: childError } = await supabase
+            .from('todos')
+            .select('id')
+            .in('parent_id', parentIds)
+
+          if (childError) {
+            throw childError
+          }
+          return children || []
+        })
+        const ids = [...expired, ...descendants.map((todo) => todo.id)]
+
+        await destroyTodos(ids)
+        set((state) => ({ trash: removeFromTrash(state.trash, ids) }))
+
+        more = expired.length === PURGE_BATCH_SIZE
+        lastId = expired[expired.length - 1]
+      }
+    } catch (error) {
+      console.error('Error purging trash:', error)
+      throw error
+    }
+  },
+
+  createNextOccurrence: async (todo: Todo) => {
+    const dueAt = getNextDueAt(todo)
+    if (!dueAt) return
+
     const supabase = createClient()
 
     try {
-      const { error } = await supabase.from('todos').delete().eq('id', id)
+      const { data, error } = await supabase
+        .from('todos')
+        .insert([buildNextOccurrence(todo, dueAt)])
+        .select()
+        .single()
 
       if (error) {
+        // 下一次任务已经生成过（例如取消完成后再次完成），无需重复创建
+        if (error.code === '23505') return
         throw error
       }
 
       set((state) => ({
-        todos: state.todos.filter((todo) => todo.id !== id),
+        todos: [data, ...state.todos.filter((t) => t.id !== data.id)],
       }))
+      shareTodoRows([data])
+
+      const tagIds = get().todoTags[todo.id] || []
+      if (tagIds.length > 0) {
+        await get().setTodoTags(data.id, tagIds)
+      }
     } catch (error) {
-      console.error('Error deleting todo:', error)
-      throw error
+      console.error('Error creating next occurrence:', error)
+      throw new Error(
+        `生成下一次任务失败: ${error instanceof Error ? error.message : String(error)}`
+      )
     }
   },
 
-  toggleTodo: async (id: string) => {
+  skipOccurrence: async (id: string) => {
     const todo = get().todos.find((t) => t.id === id)
     if (!todo) return
 
-    await get().updateTodo(id, { completed: !todo.completed })
+    const dueAt = getNextDueAt(todo)
+    if (!dueAt) {
+      throw new Error('这已经是该系列的最后一次，无法跳过')
+    }
+
+    // 跳过本次：直接将当前任务推进到下一次
+    await get().updateTodo(id, {
+      due_at: dueAt,
+      recurrence_rule: anchorRRule(todo),
+      recurrence_index: todo.recurrence_index + 1,
+    })
+  },
+
+  stopRecurrence: async (id: string) => {
+    await get().updateTodo(id, { recurrence_rule: null })
   },
 
   setFilter: (filter: TodoFilter) => {
@@ -137,25 +1770,62 @@ export const useTodoStore = create<TodoState>((set, get) => ({
     set({ sort, order })
   },
 
+  setPriorityFilter: (priorityFilter: PriorityFilter) => {
+    set({ priorityFilter })
+  },
+
+  setTagFilter: (tagFilter: string[], tagMatch?: TagMatchMode) => {
+    set((state) => ({ tagFilter, tagMatch: tagMatch ?? state.tagMatch }))
+  },
+
   setSearch: (search: string) => {
     set({ search })
   },
 
+  setView: (view: Partial<TodoViewState>) => {
+    set(view)
+  },
+
   filteredTodos: () => {
-    const { todos, filter, sort, order, search } = get()
+    const {
+      todos,
+      filter,
+      sort,
+      order,
+      priorityFilter,
+      tagFilter,
+      tagMatch,
+      todoTags,
+      search,
+      searchHits,
+    } = get()
 
-    let filtered = todos
+    // 排除回收站中的任务
+    let filtered = todos.filter((todo) => !todo.deleted_at)
 
-    // 应用搜索过滤
-    if (search) {
-      const searchLower = search.toLowerCase()
+    // 应用搜索过滤：服务器搜索命中的任务，以及只在本地（如尚未同步）匹配的任务
+    const searchLower = search.trim().toLowerCase()
+    if (searchLower) {
       filtered = filtered.filter(
         (todo) =>
+          !!searchHits?.[todo.id] ||
           todo.title.toLowerCase().includes(searchLower) ||
           (todo.description && todo.description.toLowerCase().includes(searchLower))
       )
     }
 
+    // 应用优先级过滤
+    if (priorityFilter !== 'all') {
+      filtered = filtered.filter((todo) => todo.priority === priorityFilter)
+    }
+
+    // 应用标签过滤
+    if (tagFilter.length > 0) {
+      filtered = filtered.filter((todo) =>
+        matchesTagFilter(todoTags[todo.id] || [], tagFilter, tagMatch)
+      )
+    }
+
     // 应用状态过滤
     switch (filter) {
       case 'active':
@@ -164,82 +1834,203 @@ export const useTodoStore = create<TodoState>((set, get) => ({
       case 'completed':
         filtered = filtered.filter((todo) => todo.completed)
         break
+      // 截止时间相关的过滤只关心未完成的任务
+      case 'overdue':
+        filtered = filtered.filter((todo) => !todo.completed && isOverdue(todo.due_at))
+        break
+      case 'due_today':
+        filtered = filtered.filter((todo) => !todo.completed && isDueToday(todo.due_at))
+        break
+      case 'due_this_week':
+        filtered = filtered.filter((todo) => !todo.completed && isDueThisWeek(todo.due_at))
+        break
       default:
         // 'all' - 不过滤
         break
     }
 
-    // 应用排序
-    filtered.sort((a, b) => {
-      let aValue: any
-      let bValue: any
-
-      switch (sort) {
-        case 'title':
-          aValue = a.title.toLowerCase()
-          bValue = b.title.toLowerCase()
-          break
-        case 'updated_at':
-          aValue = new Date(a.updated_at).getTime()
-          bValue = new Date(b.updated_at).getTime()
-          break
-        default: // 'created_at'
-          aValue = new Date(a.created_at).getTime()
-          bValue = new Date(b.created_at).getTime()
-          break
-      }
-
-      if (order === 'asc') {
-        return aValue > bValue ? 1 : -1
-      } else {
-        return aValue < bValue ? 1 : -1
-      }
-    })
+    // 应用排序（复制一份，避免原地修改 state 中的数组）；搜索时按相关度排序
+    if (searchLower && searchHits) {
+      const rank = (todo: Todo) => searchHits[todo.id]?.rank ?? 0
+      return [...filtered].sort((a, b) => rank(b) - rank(a) || compareTodos(a, b, sort, order))
+    }
+    return [...filtered].sort((a, b) => compareTodos(a, b, sort, order))
+  },
 
-    return filtered
+  reset: () => {
+    inFlight.clear()
+    outboxLoaded = null
+    queryVersion++
+    pageCursor = null
+    prefetched = null
+    replaying = 0
+    sharingUserId = null
+    leaderCountsKey = null
+    set({
+      todos: [],
+      loading: false,
+      listId: null,
+      todoTags: {},
+      trash: [],
+      pendingIds: [],
+      outbox: [],
+      syncing: false,
+      hasMore: false,
+      loadingMore: false,
+      counts: null,
+      searchHits: null,
+      undoStack: [],
+      redoStack: [],
+    })
   },
 
-  subscribeToTodos: () => {
+  subscribeToTodos: (userId: string) => {
     const supabase = createClient()
 
-    const subscription = supabase
-      .channel('todos')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'todos',
-        },
-        (payload) => {
-          const { eventType, new: newRecord, old: oldRecord } = payload
+    const handleTodoEvent = (event: RealtimeEvent<Todo>) => {
+      // 本地正在修改的任务以请求结果为准，只需重新统计数量
+      if (event.eventType !== 'DELETE' && inFlight.has(event.new.id)) {
+        prefetched = null
+        refreshCounts()
+        return
+      }
 
-          set((state) => {
-            switch (eventType) {
-              case 'INSERT':
-                return {
-                  todos: [newRecord as Todo, ...state.todos],
-                }
-              case 'UPDATE':
-                return {
-                  todos: state.todos.map((todo) =>
-                    todo.id === newRecord.id ? (newRecord as Todo) : todo
-                  ),
-                }
-              case 'DELETE':
-                return {
-                  todos: state.todos.filter((todo) => todo.id !== oldRecord.id),
-                }
-              default:
-                return state
-            }
-          })
+      const state = get()
+      const next = reduceTodoEvent(state, event)
+      // 与本地无关的推送（如其他用户永久删除的任务）不必重新请求
+      if (!next) return
+
+      // 预取的下一页可能已经过期，数量也需要重新统计
+      prefetched = null
+      refreshCounts()
+
+      // 任务在其他地方被修改或永久删除后，涉及它的撤销和重做记录失效
+      const changedId =
+        event.eventType === 'DELETE'
+          ? event.old.id
+          : isRemoteChange(state, event.new)
+            ? event.new.id
+            : undefined
+      if (!changedId) {
+        set(next)
+        return
+      }
+
+      set({
+        ...next,
+        undoStack: invalidateHistory(state.undoStack, [changedId]),
+        redoStack: invalidateHistory(state.redoStack, [changedId]),
+      })
+    }
+
+    const handleTodoTagEvent = (event: RealtimeEvent<TodoTag>) => {
+      set((state) => {
+        const todoTags = reduceTodoTagEvent(state.todoTags, event)
+        return todoTags ? { todoTags } : state
+      })
+    }
+
+    // 领导者标签页收到的推送和其他标签页本地修改的结果
+    const stopListening = onTabMessage((message) => {
+      if (message.type === 'todo-event' && message.userId === userId) {
+        handleTodoEvent(message.event)
+      } else if (message.type === 'todo-tag-event' && message.userId === userId) {
+        handleTodoTagEvent(message.event)
+      } else if (message.type === 'counts' && message.userId === userId) {
+        leaderCountsKey = message.key
+        if (getCountsKey(get()) === message.key) {
+          set({ counts: message.counts })
         }
-      )
-      .subscribe()
+      }
+    })
+    sharingUserId = userId
+
+    // 同一用户的多个标签页中只有领导者订阅实时推送，并转发给其他标签页
+    const relayTodoEvent = (event: RealtimeEvent<Todo>) => {
+      handleTodoEvent(event)
+      postTabMessage({ type: 'todo-event', userId, event })
+    }
+    const relayTodoTagEvent = (event: RealtimeEvent<TodoTag>) => {
+      handleTodoTagEvent(event)
+      postTabMessage({ type: 'todo-tag-event', userId, event })
+    }
+
+    const stopLeading = runAsLeader(`todos:${userId}`, () => {
+      leadingUserId = userId
+      // 接替领导者后转发一次数量，其他标签页据此判断是否需要自己统计
+      refreshCounts()
+
+      // 频道名称和过滤条件都限定在当前用户，多个账号之间互不干扰。
+      // DELETE 事件只包含主键、无法按用户过滤，单独订阅；本地不存在的任务会被忽略
+      const channel = supabase
+        .channel(`todos:${userId}`)
+        .on(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'todos', filter: `user_id=eq.${userId}` },
+          (payload) => relayTodoEvent({ eventType: 'INSERT', new: payload.new as Todo })
+        )
+        .on(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'todos', filter: `user_id=eq.${userId}` },
+          (payload) => relayTodoEvent({ eventType: 'UPDATE', new: payload.new as Todo })
+        )
+        .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'todos' }, (payload) =>
+          relayTodoEvent({ eventType: 'DELETE', old: payload.old as Partial<Todo> })
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'todo_tags',
+            filter: `user_id=eq.${userId}`,
+          },
+          (payload) => relayTodoTagEvent({ eventType: 'INSERT', new: payload.new as TodoTag })
+        )
+        .on(
+          'postgres_changes',
+          { event: 'DELETE', schema: 'public', table: 'todo_tags' },
+          (payload) =>
+            relayTodoTagEvent({ eventType: 'DELETE', old: payload.old as Partial<TodoTag> })
+        )
+        .subscribe()
+
+      return () => {
+        // 移除频道而不只是退订，之后以相同名称重新订阅时会创建新的频道
+        supabase.removeChannel(channel)
+        if (leadingUserId === userId) {
+          leadingUserId = null
+        }
+      }
+    })
 
     return () => {
-      subscription.unsubscribe()
+      // 放弃领导者身份，由其他仍在订阅的标签页接替
+      stopLeading()
+      stopListening()
+      if (sharingUserId === userId) {
+        sharingUserId = null
+      }
     }
   },
 }))
+
+// 任务变化后写入本地缓存，下次启动时可以立即显示
+const persistCache = debounce((state: TodoState) => {
+  // 登出或切换清单后不再写入之前的数据
+  if (!state.listId || state.loading || useTodoStore.getState().listId !== state.listId) return
+  writeCachedList({
+    listId: state.listId,
+    todos: state.todos,
+    todoTags: state.todoTags,
+    cached_at: new Date().toISOString(),
+  }).catch((error) => {
+    console.error('Error caching todos:', error)
+  })
+}, 500)
+
+useTodoStore.subscribe((state, previous) => {
+  if (state.todos !== previous.todos || state.todoTags !== previous.todoTags) {
+    persistCache(state)
+  }
+})
@@ -0,0 +1,192 @@
+import { create } from 'zustand'
+import { createClient } from '@/lib/supabase/client'
+import type { WebhookFormData } from '@/lib/validations'
+import type { ApiResponse, Webhook, WebhookDelivery, WebhookUpdate } from '@/types'
+
+// 每个 Webhook 显示的最近投递记录数
+const DELIVERY_LOG_LIMIT = 20
+
+interface WebhookState {
+  webhooks: Webhook[]
+  // 按 Webhook id 保存的最近投递记录，按时间倒序
+  deliveries: Record<string, WebhookDelivery[]>
+  loading: boolean
+
+  // Actions
+  fetchWebhooks: () => Promise<void>
+  createWebhook: (userId: string, data: WebhookFormData) => Promise<void>
+  updateWebhook: (id: string, updates: WebhookUpdate) => Promise<void>
+  deleteWebhook: (id: string) => Promise<void>
+  fetchDeliveries: (webhookId: string) => Promise<void>
+  // 发送测试请求和重新投递由服务器立即发送，返回新的投递记录
+  sendTest: (webhookId: string) => Promise<WebhookDelivery>
+  redeliver: (delivery: WebhookDelivery) => Promise<WebhookDelivery>
+}
+
+// 调用 REST API 并取出响应中的数据，失败时抛出服务器返回的错误信息
+async function postApi<T>(path: string): Promise<T> {
+  const response = await fetch(path, { method: 'POST' })
+  const body: ApiResponse<T> = await response.json().catch(() => ({}))
+
+  if (!response.ok || body.data === undefined) {
+    throw new Error(body.error || `请求失败 (${response.status})`)
+  }
+  return body.data
+}
+
+// 将新的投递记录加到对应 Webhook 的日志最前面
+function withDelivery(
+  deliveries: Record<string, WebhookDelivery[]>,
+  delivery: WebhookDelivery
+): Record<string, WebhookDelivery[]> {
+  return {
+    ...deliveries,
+    [delivery.webhook_id]: [delivery, ...(deliveries[delivery.webhook_id] || [])].slice(
+      0,
+      DELIVERY_LOG_LIMIT
+    ),
+  }
+}
+
+export const useWebhookStore = create<WebhookState>((set) => ({
+  webhooks: [],
+  deliveries: {},
+  loading: false,
+
+  fetchWebhooks: async () => {
+    const supabase = createClient()
+    set({ loading: true })
+
+    try {
+      const { data, error } = await supabase
+        .from('webhooks')
+        .select('*')
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        throw new Error(`获取 Webhook 失败: ${error.message}`)
+      }
+
+      set({ webhooks: data || [], loading: false })
+    } catch (error) {
+      console.error('Error fetching webhooks:', error)
+      set({ loading: false })
+      throw error
+    }
+  },
+
+  createWebhook: async (userId: string, data: WebhookFormData) => {
+    const supabase = createClient()
+
+    try {
+      const { data: webhook, error } = await supabase
+        .from('webhooks')
+        .insert([{ ...data, user_id: userId }])
+        .select()
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      set((state) => ({ webhooks: [webhook, ...state.webhooks] }))
+    } catch (error) {
+      console.error('Error creating webhook:', error)
+      throw error
+    }
+  },
+
+  updateWebhook: async (id: string, updates: WebhookUpdate) => {
+    const supabase = createClient()
+
+    try {
+      const { data, error } = await supabase
+        .from('webhooks')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        throw error
+      }
+
+      set((state) => ({
+        webhooks: state.webhooks.map((webhook) => (webhook.id === id ? data : webhook)),
+      }))
+    } catch (error) {
+      console.error('Error updating webhook:', error)
+      throw error
+    }
+  },
+
+  deleteWebhook: async (id: string) => {
+    const supabase = createClient()
+
+    try {
+      const { error } = await supabase.from('webhooks').delete().eq('id', id)
+
+      if (error) {
+        throw error
+      }
+
+      set((state) => ({
+        webhooks: state.webhooks.filter((webhook) => webhook.id !== id),
+        deliveries: Object.fromEntries(
+          Object.entries(state.deliveries).filter(([webhookId]) => webhookId !== id)
+        ),
+      }))
+    } catch (error) {
+      console.error('Error deleting webhook:', error)
+      throw error
+    }
+  },
+
+  fetchDeliveries: async (webhookId: string) => {
+    const supabase = createClient()
+
+    try {
+      const { data, error } = await supabase
+        .from('webhook_deliveries')
+        .select('*')
+        .eq('webhook_id', webhookId)
+        .order('created_at', { ascending: false })
+        .limit(DELIVERY_LOG_LIMIT)
+
+      if (error) {
+        throw new Error(`获取投递记录失败: ${error.message}`)
+      }
+
+      set((state) => ({
+        deliveries: { ...state.deliveries, [webhookId]: data || [] },
+      }))
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error)
+      throw error
+    }
+  },
+
+  sendTest: async (webhookId: string) => {
+    try {
+      const delivery = await postApi<WebhookDelivery>(`/api/v1/webhooks/${webhookId}/test`)
+      set((state) => ({ deliveries: withDelivery(state.deliveries, delivery) }))
+      return delivery
+    } catch (error) {
+      console.error('Error sending webhook test:', error)
+      throw error
+    }
+  },
+
+  redeliver: async (delivery: WebhookDelivery) => {
+    try {
+      const result = await postApi<WebhookDelivery>(
+        `/api/v1/webhook-deliveries/${delivery.id}/redeliver`
+      )
+      set((state) => ({ deliveries: withDelivery(state.deliveries, result) }))
+      return result
+    } catch (error) {
+      console.error('Error redelivering webhook:', error)
+      throw error
+    }
+  },
+}))
@@ -10,6 +10,15 @@ export interface Database {
           completed: boolean
           created_at: string
           updated_at: string
+          due_at: string | null
+          priority: Database['public']['Enums']['priority_level']
+          parent_id: string | null
+          list_id: string
+          recurrence_rule: string | null
+          recurrence_series_id: string | null
+          recurrence_index: number
+          position: string | null
+          deleted_at: string | null
           user_id: string
         }
         Insert: {
@@ -19,6 +28,15 @@ export interface Database {
           completed?: boolean
           created_at?: string
           updated_at?: string
+          due_at?: string | null
+          priority?: Database['public']['Enums']['priority_level']
+          parent_id?: string | null
+          list_id?: string
+          recurrence_rule?: string | null
+          recurrence_series_id?: string | null
+          recurrence_index?: number
+          position?: string | null
+          deleted_at?: string | null
           user_id: string
         }
         Update: {
@@ -28,18 +46,295 @@ export interface Database {
           completed?: boolean
           created_at?: string
           updated_at?: string
+          due_at?: string | null
+          priority?: Database['public']['Enums']['priority_level']
+          parent_id?: string | null
+          list_id?: string
+          recurrence_rule?: string | null
+          recurrence_series_id?: string | null
+          recurrence_index?: number
+          position?: string | null
+          deleted_at?: string | null
           user_id?: string
         }
+        Relationships: []
+      }
+      tags: {
+        Row: {
+          id: string
+          name: string
+          color: string
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          color?: string
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          color?: string
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      lists: {
+        Row: {
+          id: string
+          name: string
+          color: string
+          icon: string
+          archived: boolean
+          is_inbox: boolean
+          created_at: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          color?: string
+          icon?: string
+          archived?: boolean
+          is_inbox?: boolean
+          created_at?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          color?: string
+          icon?: string
+          archived?: boolean
+          is_inbox?: boolean
+          created_at?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      todo_tags: {
+        Row: {
+          todo_id: string
+          tag_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          todo_id: string
+          tag_id: string
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          todo_id?: string
+          tag_id?: string
+          user_id?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      attachments: {
+        Row: {
+          id: string
+          todo_id: string
+          storage_path: string
+          file_name: string
+          mime_type: string
+          size: number
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          todo_id: string
+          storage_path: string
+          file_name: string
+          mime_type: string
+          size: number
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          todo_id?: string
+          storage_path?: string
+          file_name?: string
+          mime_type?: string
+          size?: number
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      access_tokens: {
+        Row: {
+          id: string
+          name: string
+          token_hash: string
+          token_prefix: string
+          scope: 'read' | 'write'
+          expires_at: string | null
+          last_used_at: string | null
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          token_hash: string
+          token_prefix: string
+          scope?: 'read' | 'write'
+          expires_at?: string | null
+          last_used_at?: string | null
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          token_hash?: string
+          token_prefix?: string
+          scope?: 'read' | 'write'
+          expires_at?: string | null
+          last_used_at?: string | null
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      webhooks: {
+        Row: {
+          id: string
+          url: string
+          events: WebhookEvent[]
+          secret: string
+          active: boolean
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          url: string
+          events: WebhookEvent[]
+          secret: string
+          active?: boolean
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          url?: string
+          events?: WebhookEvent[]
+          secret?: string
+          active?: boolean
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      webhook_deliveries: {
+        Row: {
+          id: string
+          webhook_id: string
+          event: WebhookEvent | 'ping'
+          payload: WebhookPayload
+          status: 'pending' | 'succeeded' | 'failed'
+          attempts: number
+          next_attempt_at: string
+          response_status: number | null
+          response_body: string | null
+          error: string | null
+          delivered_at: string | null
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          webhook_id: string
+          event: WebhookEvent | 'ping'
+          payload: WebhookPayload
+          status?: 'pending' | 'succeeded' | 'failed'
+          attempts?: number
+          next_attempt_at?: string
+          response_status?: number | null
+          response_body?: string | null
+          error?: string | null
+          delivered_at?: string | null
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          webhook_id?: string
+          event?: WebhookEvent | 'ping'
+          payload?: WebhookPayload
+          status?: 'pending' | 'succeeded' | 'failed'
+          attempts?: number
+          next_attempt_at?: string
+          response_status?: number | null
+          response_body?: string | null
+          error?: string | null
+          delivered_at?: string | null
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      calendar_feeds: {
+        Row: {
+          user_id: string
+          token: string
+          include_events: boolean
+          last_accessed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          token: string
+          include_events?: boolean
+          last_accessed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          token?: string
+          include_events?: boolean
+          last_accessed_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      search_todos: {
+        Args: { search_query: string; list?: string | null; max_results?: number }
+        Returns: { todo_id: string; rank: number; snippet: string | null }[]
+      }
+      title_sort: {
+        Args: { '': Database['public']['Tables']['todos']['Row'] }
+        Returns: string
+      }
+      verify_access_token: {
+        Args: { hash: string }
+        Returns: { user_id: string; scope: 'read' | 'write' }[]
+      }
+      verify_calendar_token: {
+        Args: { feed_token: string }
+        Returns: { user_id: string; include_events: boolean }[]
+      }
     }
     Enums: {
-      [_ in never]: never
+      priority_level: 'none' | 'low' | 'medium' | 'high' | 'urgent'
     }
   }
 }
@@ -48,6 +343,48 @@ export interface Database {
 export type Todo = Database['public']['Tables']['todos']['Row']
 export type TodoInsert = Database['public']['Tables']['todos']['Insert']
 export type TodoUpdate = Database['public']['Tables']['todos']['Update']
+export type PriorityLevel = Database['public']['Enums']['priority_level']
+
+// 标签相关类型
+export type Tag = Database['public']['Tables']['tags']['Row']
+export type TagInsert = Database['public']['Tables']['tags']['Insert']
+export type TagUpdate = Database['public']['Tables']['tags']['Update']
+export type TodoTag = Database['public']['Tables']['todo_tags']['Row']
+
+// 清单相关类型
+export type List = Database['public']['Tables']['lists']['Row']
+export type ListInsert = Database['public']['Tables']['lists']['Insert']
+export type ListUpdate = Database['public']['Tables']['lists']['Update']
+
+// 附件类型
+export type Attachment = Database['public']['Tables']['attachments']['Row']
+export type AttachmentInsert = Database['public']['Tables']['attachments']['Insert']
+
+// 个人访问令牌类型
+export type AccessToken = Database['public']['Tables']['access_tokens']['Row']
+export type AccessTokenInsert = Database['public']['Tables']['access_tokens']['Insert']
+export type AccessTokenScope = AccessToken['scope']
+
+// Webhook 相关类型
+export type WebhookEvent = 'todo.created' | 'todo.updated' | 'todo.completed' | 'todo.deleted'
+
+// 发送给接收方的请求体，id 为事件 id，重新投递时不变
+export interface WebhookPayload {
+  id: string
+  event: WebhookEvent | 'ping'
+  created_at: string
+  data: Todo | null
+  previous: Todo | null
+}
+
+export type Webhook = Database['public']['Tables']['webhooks']['Row']
+export type WebhookInsert = Database['public']['Tables']['webhooks']['Insert']
+export type WebhookUpdate = Database['public']['Tables']['webhooks']['Update']
+export type WebhookDelivery = Database['public']['Tables']['webhook_deliveries']['Row']
+
+// 日历订阅类型
+export type CalendarFeed = Database['public']['Tables']['calendar_feeds']['Row']
+export type CalendarFeedUpdate = Database['public']['Tables']['calendar_feeds']['Update']
 
 // 认证相关类型
 export interface User {
@@ -80,6 +417,11 @@ export interface RegisterFormData {
 export interface TodoFormData {
   title: string
   description?: string
+  due_at?: string
+  priority: PriorityLevel
+  tag_ids: string[]
+  recurrence_rule?: string
+  attachments: File[]
 }
 
 // API 响应类型
@@ -92,15 +434,38 @@ export interface ApiResponse<T = any> {
 // 组件 Props 类型
 export interface TodoItemProps {
   todo: Todo
-  onUpdate: (id: string, updates: TodoUpdate) => Promise<void>
+  onUpdate: (
+    id: string,
+    updates: TodoUpdate,
+    tagIds?: string[],
+    baseUpdatedAt?: string
+  ) => Promise<void>
   onDelete: (id: string) => Promise<void>
+  onToggle: (id: string, includeSubtasks?: boolean) => Promise<void>
+  onAddSubtask: (parentId: string, data: TodoFormData) => Promise<void>
+  subtaskMap: Map<string, Todo[]>
 }
 
 export interface TodoListProps {
   todos: Todo[]
   loading: boolean
-  onUpdate: (id: string, updates: TodoUpdate) => Promise<void>
+  onUpdate: (
+    id: string,
+    updates: TodoUpdate,
+    tagIds?: string[],
+    baseUpdatedAt?: string
+  ) => Promise<void>
   onDelete: (id: string) => Promise<void>
+  onToggle: (id: string, includeSubtasks?: boolean) => Promise<void>
+  onAddSubtask: (parentId: string, data: TodoFormData) => Promise<void>
+  onReorder?: (id: string, prevId: string | null, nextId: string | null) => Promise<void>
+  hasMore?: boolean
+  loadingMore?: boolean
+  onLoadMore?: () => void
+  listId?: string
+  onBulkUpdate?: (ids: string[], updates: TodoUpdate) => Promise<void>
+  onBulkDelete?: (ids: string[]) => Promise<void>
+  onClearCompleted?: () => Promise<void>
 }
 
 export interface TodoFormProps {
@@ -108,18 +473,24 @@ export interface TodoFormProps {
   loading?: boolean
   initialData?: TodoFormData
   mode?: 'create' | 'edit'
+  title?: string
   onCancel?: () => void
 }
 
 // 过滤和排序类型
-export type TodoFilter = 'all' | 'active' | 'completed'
-export type TodoSort = 'created_at' | 'updated_at' | 'title'
+export type TodoFilter = 'all' | 'active' | 'completed' | 'overdue' | 'due_today' | 'due_this_week'
+export type TodoSort = 'created_at' | 'updated_at' | 'title' | 'due_at' | 'priority' | 'manual'
+export type PriorityFilter = PriorityLevel | 'all'
+export type TagMatchMode = 'any' | 'all'
 export type SortOrder = 'asc' | 'desc'
 
 export interface TodoFilters {
   filter: TodoFilter
   sort: TodoSort
   order: SortOrder
+  priority?: PriorityFilter
+  tagIds?: string[]
+  tagMatch?: TagMatchMode
   search?: string
 }
 
@@ -0,0 +1,6 @@
+-- 为 todos 表添加截止时间字段
+ALTER TABLE public.todos
+    ADD COLUMN IF NOT EXISTS due_at TIMESTAMP WITH TIME ZONE;
+
+-- 创建索引以支持按截止时间排序和过滤
+CREATE INDEX IF NOT EXISTS idx_todos_due_at ON public.todos(due_at);
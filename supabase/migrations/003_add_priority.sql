@@ -0,0 +1,15 @@
+-- 创建任务优先级枚举类型
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'priority_level') THEN
+        CREATE TYPE public.priority_level AS ENUM ('none', 'low', 'medium', 'high', 'urgent');
+    END IF;
+END
+$$;
+
+-- 为 todos 表添加优先级字段
+ALTER TABLE public.todos
+    ADD COLUMN IF NOT EXISTS priority public.priority_level DEFAULT 'none' NOT NULL;
+
+-- 创建索引以支持按优先级过滤和排序
+CREATE INDEX IF NOT EXISTS idx_todos_priority ON public.todos(priority);
@@ -0,0 +1,59 @@
+-- 创建 tags 表（每个用户独立的标签）
+CREATE TABLE IF NOT EXISTS public.tags (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    name TEXT NOT NULL CHECK (char_length(name) > 0 AND char_length(name) <= 30),
+    color TEXT DEFAULT '#6b7280' NOT NULL CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    UNIQUE (user_id, name)
+);
+
+-- 创建 todo 与 tag 的多对多关联表
+CREATE TABLE IF NOT EXISTS public.todo_tags (
+    todo_id UUID REFERENCES public.todos(id) ON DELETE CASCADE NOT NULL,
+    tag_id UUID REFERENCES public.tags(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    PRIMARY KEY (todo_id, tag_id)
+);
+
+-- 创建索引以提高查询性能
+CREATE INDEX IF NOT EXISTS idx_tags_user_id ON public.tags(user_id);
+CREATE INDEX IF NOT EXISTS idx_todo_tags_tag_id ON public.todo_tags(tag_id);
+CREATE INDEX IF NOT EXISTS idx_todo_tags_user_id ON public.todo_tags(user_id);
+
+-- 启用 Row Level Security (RLS)
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.todo_tags ENABLE ROW LEVEL SECURITY;
+
+-- 创建 tags 的 RLS 策略
+CREATE POLICY "Users can view own tags" ON public.tags
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own tags" ON public.tags
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own tags" ON public.tags
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own tags" ON public.tags
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- 创建 todo_tags 的 RLS 策略
+-- 关联的 todo 和 tag 都必须属于当前用户
+CREATE POLICY "Users can view own todo tags" ON public.todo_tags
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own todo tags" ON public.todo_tags
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM public.todos WHERE id = todo_id AND user_id = auth.uid())
+        AND EXISTS (SELECT 1 FROM public.tags WHERE id = tag_id AND user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can delete own todo tags" ON public.todo_tags
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- 创建实时订阅的发布
+ALTER PUBLICATION supabase_realtime ADD TABLE public.tags;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.todo_tags;
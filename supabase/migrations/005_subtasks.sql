@@ -0,0 +1,45 @@
+-- 为 todos 表添加父任务字段，删除父任务时级联删除其子任务
+ALTER TABLE public.todos
+    ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.todos(id) ON DELETE CASCADE;
+
+ALTER TABLE public.todos
+    ADD CONSTRAINT todos_parent_not_self CHECK (parent_id IS NULL OR parent_id <> id);
+
+-- 创建索引以提高查询子任务的性能
+CREATE INDEX IF NOT EXISTS idx_todos_parent_id ON public.todos(parent_id);
+
+-- 校验父任务：必须属于同一用户，且不能形成循环
+CREATE OR REPLACE FUNCTION check_todo_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.parent_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.todos WHERE id = NEW.parent_id AND user_id = NEW.user_id
+    ) THEN
+        RAISE EXCEPTION '父任务不存在或不属于当前用户';
+    END IF;
+
+    IF EXISTS (
+        WITH RECURSIVE ancestors AS (
+            SELECT id, parent_id FROM public.todos WHERE id = NEW.parent_id
+            UNION ALL
+            SELECT t.id, t.parent_id
+            FROM public.todos t
+            JOIN ancestors a ON t.id = a.parent_id
+        )
+        SELECT 1 FROM ancestors WHERE id = NEW.id
+    ) THEN
+        RAISE EXCEPTION '不能将任务移动到其自身的子任务下';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER check_todos_parent
+    BEFORE INSERT OR UPDATE OF parent_id ON public.todos
+    FOR EACH ROW
+    EXECUTE FUNCTION check_todo_parent();
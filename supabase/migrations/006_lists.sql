@@ -0,0 +1,127 @@
+-- 创建 lists 表（用户自己的任务清单/项目）
+CREATE TABLE IF NOT EXISTS public.lists (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    name TEXT NOT NULL CHECK (char_length(name) > 0 AND char_length(name) <= 50),
+    color TEXT DEFAULT '#3b82f6' NOT NULL CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+    icon TEXT DEFAULT 'list' NOT NULL,
+    archived BOOLEAN DEFAULT FALSE NOT NULL,
+    is_inbox BOOLEAN DEFAULT FALSE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    -- 收件箱不能被归档
+    CHECK (NOT (is_inbox AND archived))
+);
+
+-- 每个用户只能有一个收件箱
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lists_user_inbox ON public.lists(user_id) WHERE is_inbox;
+CREATE INDEX IF NOT EXISTS idx_lists_user_id ON public.lists(user_id);
+
+CREATE TRIGGER update_lists_updated_at
+    BEFORE UPDATE ON public.lists
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 启用 Row Level Security (RLS)
+ALTER TABLE public.lists ENABLE ROW LEVEL SECURITY;
+
+-- 创建 RLS 策略
+CREATE POLICY "Users can view own lists" ON public.lists
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own lists" ON public.lists
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own lists" ON public.lists
+    FOR UPDATE USING (auth.uid() = user_id);
+
+-- 收件箱不能被删除
+CREATE POLICY "Users can delete own lists" ON public.lists
+    FOR DELETE USING (auth.uid() = user_id AND NOT is_inbox);
+
+-- 为 todos 表添加所属清单字段，删除清单时一并删除其中的任务
+ALTER TABLE public.todos
+    ADD COLUMN IF NOT EXISTS list_id UUID REFERENCES public.lists(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_todos_list_id ON public.todos(list_id);
+
+-- 为已有任务的用户创建收件箱，并将已有任务归入收件箱
+INSERT INTO public.lists (name, icon, is_inbox, user_id)
+SELECT DISTINCT '收件箱', 'inbox', TRUE, user_id FROM public.todos
+ON CONFLICT DO NOTHING;
+
+UPDATE public.todos t
+SET list_id = l.id
+FROM public.lists l
+WHERE t.list_id IS NULL AND l.user_id = t.user_id AND l.is_inbox;
+
+-- 获取（必要时创建）用户的收件箱
+CREATE OR REPLACE FUNCTION get_or_create_inbox(owner UUID)
+RETURNS UUID AS $$
+DECLARE
+    inbox_id UUID;
+BEGIN
+    SELECT id INTO inbox_id FROM public.lists WHERE user_id = owner AND is_inbox;
+
+    IF inbox_id IS NULL THEN
+        INSERT INTO public.lists (name, icon, is_inbox, user_id)
+        VALUES ('收件箱', 'inbox', TRUE, owner)
+        ON CONFLICT DO NOTHING
+        RETURNING id INTO inbox_id;
+
+        IF inbox_id IS NULL THEN
+            SELECT id INTO inbox_id FROM public.lists WHERE user_id = owner AND is_inbox;
+        END IF;
+    END IF;
+
+    RETURN inbox_id;
+END;
+$$ language 'plpgsql';
+
+-- 写入任务时确定其所属清单：子任务跟随父任务，未指定时放入收件箱
+CREATE OR REPLACE FUNCTION assign_todo_list()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.parent_id IS NOT NULL THEN
+        SELECT list_id INTO NEW.list_id FROM public.todos WHERE id = NEW.parent_id;
+    END IF;
+
+    IF NEW.list_id IS NULL THEN
+        NEW.list_id := get_or_create_inbox(NEW.user_id);
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.lists WHERE id = NEW.list_id AND user_id = NEW.user_id
+    ) THEN
+        RAISE EXCEPTION '清单不存在或不属于当前用户';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER assign_todos_list
+    BEFORE INSERT OR UPDATE OF list_id, parent_id ON public.todos
+    FOR EACH ROW
+    EXECUTE FUNCTION assign_todo_list();
+
+-- 移动父任务到其他清单时，子任务随之移动
+CREATE OR REPLACE FUNCTION cascade_todo_list()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.todos SET list_id = NEW.list_id
+    WHERE parent_id = NEW.id AND list_id IS DISTINCT FROM NEW.list_id;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER cascade_todos_list
+    AFTER UPDATE OF list_id ON public.todos
+    FOR EACH ROW
+    WHEN (OLD.list_id IS DISTINCT FROM NEW.list_id)
+    EXECUTE FUNCTION cascade_todo_list();
+
+ALTER TABLE public.todos ALTER COLUMN list_id SET NOT NULL;
+
+-- 创建实时订阅的发布
+ALTER PUBLICATION supabase_realtime ADD TABLE public.lists;
@@ -0,0 +1,15 @@
+-- 为 todos 表添加重复规则字段
+-- recurrence_rule 使用 RFC 5545 RRULE 格式（不含 "RRULE:" 前缀），如 FREQ=WEEKLY;BYDAY=MO,WE
+-- recurrence_series_id 指向系列中第一个任务的 id，第一个任务本身为 NULL
+-- recurrence_index 表示该任务是系列中的第几次，用于 COUNT 计数
+ALTER TABLE public.todos
+    ADD COLUMN IF NOT EXISTS recurrence_rule TEXT CHECK (
+        recurrence_rule IS NULL OR recurrence_rule ~ '^FREQ=(DAILY|WEEKLY|MONTHLY|YEARLY)(;[A-Z]+=[A-Z0-9,]+)*$'
+    ),
+    ADD COLUMN IF NOT EXISTS recurrence_series_id UUID,
+    ADD COLUMN IF NOT EXISTS recurrence_index INTEGER NOT NULL DEFAULT 1 CHECK (recurrence_index >= 1);
+
+-- 同一系列的同一次只能生成一个任务，防止重复完成时生成多个下一次任务
+CREATE UNIQUE INDEX IF NOT EXISTS idx_todos_recurrence_occurrence
+    ON public.todos(recurrence_series_id, recurrence_index)
+    WHERE recurrence_series_id IS NOT NULL;
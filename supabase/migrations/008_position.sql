@@ -0,0 +1,18 @@
+-- 为 todos 表添加手动排序位置字段
+-- position 是分数索引键（见 src/lib/ranking.ts），按字典序比较，调整顺序时只需更新被移动的一行
+-- 使用 "C" 排序规则，使数据库中的比较结果与客户端的字符串比较一致
+ALTER TABLE public.todos
+    ADD COLUMN IF NOT EXISTS position TEXT COLLATE "C";
+
+-- 为现有任务生成位置：每个清单内按创建时间倒序排列（与默认排序一致）
+-- 键为 8 位十六进制序号加 'V' 后缀，保证不以 '0' 结尾
+UPDATE public.todos t
+SET position = lpad(to_hex(ranked.rn), 8, '0') || 'V'
+FROM (
+    SELECT id, row_number() OVER (PARTITION BY list_id ORDER BY created_at DESC) AS rn
+    FROM public.todos
+) ranked
+WHERE t.id = ranked.id AND t.position IS NULL;
+
+-- 创建索引以支持按清单和位置排序
+CREATE INDEX IF NOT EXISTS idx_todos_list_position ON public.todos(list_id, position);
@@ -0,0 +1,6 @@
+-- 任务描述支持 Markdown，放宽长度限制（需与 src/lib/validations.ts 中的 DESCRIPTION_MAX_LENGTH 保持一致）
+ALTER TABLE public.todos
+    DROP CONSTRAINT IF EXISTS todos_description_check;
+
+ALTER TABLE public.todos
+    ADD CONSTRAINT todos_description_length CHECK (char_length(description) <= 5000);
@@ -0,0 +1,85 @@
+-- 任务附件
+-- 文件存放在私有的 attachments 存储桶中，每个用户拥有以自己 id 命名的独立目录：
+--   <user_id>/<todo_id>/<随机文件名>
+-- 存储桶的大小和类型限制需与 src/lib/attachments.ts 保持一致
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'attachments',
+    'attachments',
+    false,
+    10485760,
+    ARRAY[
+        'image/png',
+        'image/jpeg',
+        'image/gif',
+        'image/webp',
+        'application/pdf',
+        'text/plain',
+        'text/markdown',
+        'text/csv',
+        'application/zip',
+        'application/msword',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'application/vnd.ms-excel',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- 存储对象的 RLS 策略：用户只能访问自己目录下的文件
+CREATE POLICY "Users can view own attachment objects" ON storage.objects
+    FOR SELECT USING (
+        bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text
+    );
+
+CREATE POLICY "Users can insert own attachment objects" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text
+    );
+
+CREATE POLICY "Users can update own attachment objects" ON storage.objects
+    FOR UPDATE USING (
+        bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text
+    );
+
+CREATE POLICY "Users can delete own attachment objects" ON storage.objects
+    FOR DELETE USING (
+        bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text
+    );
+
+-- 创建 attachments 表，记录附件的元数据
+-- 删除任务时记录会被级联删除，存储中的文件由客户端在删除任务时一并清理
+CREATE TABLE IF NOT EXISTS public.attachments (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    todo_id UUID REFERENCES public.todos(id) ON DELETE CASCADE NOT NULL,
+    storage_path TEXT NOT NULL UNIQUE,
+    file_name TEXT NOT NULL CHECK (char_length(file_name) > 0 AND char_length(file_name) <= 255),
+    mime_type TEXT NOT NULL,
+    size BIGINT NOT NULL CHECK (size > 0 AND size <= 10485760),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    CHECK (split_part(storage_path, '/', 1) = user_id::text)
+);
+
+-- 创建索引以提高查询性能
+CREATE INDEX IF NOT EXISTS idx_attachments_todo_id ON public.attachments(todo_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_user_id ON public.attachments(user_id);
+
+-- 启用 Row Level Security (RLS)
+ALTER TABLE public.attachments ENABLE ROW LEVEL SECURITY;
+
+-- 创建 RLS 策略，关联的任务必须属于当前用户
+CREATE POLICY "Users can view own attachments" ON public.attachments
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own attachments" ON public.attachments
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM public.todos WHERE id = todo_id AND user_id = auth.uid())
+    );
+
+CREATE POLICY "Users can delete own attachments" ON public.attachments
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- 创建实时订阅的发布
+ALTER PUBLICATION supabase_realtime ADD TABLE public.attachments;
@@ -0,0 +1,7 @@
+-- 为 todos 表添加软删除字段，删除的任务进入回收站，可恢复或永久删除
+ALTER TABLE public.todos
+    ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- 创建部分索引以支持回收站查询和自动清理
+CREATE INDEX IF NOT EXISTS idx_todos_deleted_at ON public.todos(deleted_at)
+    WHERE deleted_at IS NOT NULL;
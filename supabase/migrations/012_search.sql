@@ -0,0 +1,53 @@
+-- 任务全文搜索。中文没有空格分词，使用 pg_trgm 三元组匹配代替 tsvector 分词，
+-- 同时支持中文子串匹配和英文拼写相近的匹配
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- 标题和描述合并建立三元组索引，加速 ILIKE 子串匹配和相似度匹配
+CREATE INDEX IF NOT EXISTS idx_todos_search ON public.todos
+    USING gin ((title || ' ' || coalesce(description, '')) extensions.gin_trgm_ops);
+
+-- 搜索当前用户的任务（RLS 生效），按相关度返回任务 id 和描述中命中位置附近的摘要。
+-- 标题命中的权重最高，其次是标题和描述与搜索词的相似度
+CREATE OR REPLACE FUNCTION search_todos(search_query TEXT, list UUID DEFAULT NULL, max_results INTEGER DEFAULT 100)
+RETURNS TABLE (todo_id UUID, rank REAL, snippet TEXT) AS $$
+    WITH q AS (
+        SELECT
+            trim(search_query) AS term,
+            -- 转义 LIKE 通配符，搜索词按字面匹配
+            '%' || replace(replace(replace(trim(search_query), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+    ),
+    matches AS (
+        SELECT
+            t.id,
+            t.title,
+            t.description,
+            t.updated_at,
+            q.term,
+            q.pattern,
+            strpos(lower(coalesce(t.description, '')), lower(q.term)) AS hit
+        FROM public.todos t, q
+        WHERE q.term <> ''
+            AND t.deleted_at IS NULL
+            AND (list IS NULL OR t.list_id = list)
+            AND (
+                (t.title || ' ' || coalesce(t.description, '')) ILIKE q.pattern
+                OR q.term <% (t.title || ' ' || coalesce(t.description, ''))
+            )
+    )
+    SELECT
+        m.id,
+        (
+            CASE WHEN m.title ILIKE m.pattern THEN 1 ELSE 0 END
+            + word_similarity(m.term, m.title)
+            + 0.5 * word_similarity(m.term, coalesce(m.description, ''))
+        )::REAL,
+        -- 截取描述中命中位置前后的文字作为摘要，由客户端高亮搜索词
+        CASE WHEN m.hit > 0 THEN
+            CASE WHEN m.hit > 40 THEN '…' ELSE '' END
+            || substr(m.description, greatest(m.hit - 40, 1), 120 + length(m.term))
+            || CASE WHEN greatest(m.hit - 40, 1) + 120 + length(m.term) <= length(m.description) THEN '…' ELSE '' END
+        END
+    FROM matches m
+    ORDER BY 2 DESC, m.updated_at DESC
+    LIMIT max_results;
+$$ LANGUAGE sql STABLE SET search_path = public, extensions;
@@ -0,0 +1,43 @@
+-- 个人访问令牌：供脚本和 CI 通过 Authorization: Bearer 调用 REST API。
+-- 只保存令牌的 SHA-256 哈希，明文只在创建时显示一次
+CREATE TABLE IF NOT EXISTS public.access_tokens (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    name TEXT NOT NULL CHECK (char_length(name) > 0 AND char_length(name) <= 50),
+    token_hash TEXT NOT NULL UNIQUE CHECK (token_hash ~ '^[0-9a-f]{64}$'),
+    -- 令牌开头的几个字符，用于在列表中辨认令牌
+    token_prefix TEXT NOT NULL,
+    -- read 只能读取，write 可以读写
+    scope TEXT NOT NULL DEFAULT 'read' CHECK (scope IN ('read', 'write')),
+    expires_at TIMESTAMP WITH TIME ZONE,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_access_tokens_user_id ON public.access_tokens(user_id);
+
+-- 启用 Row Level Security (RLS)。令牌创建后不能修改，撤销即删除
+ALTER TABLE public.access_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own access tokens" ON public.access_tokens
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own access tokens" ON public.access_tokens
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own access tokens" ON public.access_tokens
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- 校验令牌哈希并记录使用时间，返回令牌所有者和权限范围；令牌不存在或已过期时不返回任何行。
+-- 调用者尚未认证，以定义者权限运行，只暴露这一条查询
+CREATE OR REPLACE FUNCTION verify_access_token(hash TEXT)
+RETURNS TABLE (user_id UUID, scope TEXT) AS $$
+    UPDATE public.access_tokens t
+    SET last_used_at = now()
+    WHERE t.token_hash = hash
+        AND (t.expires_at IS NULL OR t.expires_at > now())
+    RETURNING t.user_id, t.scope;
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION verify_access_token(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION verify_access_token(TEXT) TO anon, authenticated;
@@ -0,0 +1,111 @@
+-- Webhook 订阅：任务创建、修改、完成或删除时，向用户配置的地址发送签名的 JSON 请求
+CREATE TABLE IF NOT EXISTS public.webhooks (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    url TEXT NOT NULL CHECK (url ~ '^https?://' AND char_length(url) <= 2000),
+    events TEXT[] NOT NULL CHECK (
+        cardinality(events) > 0
+        AND events <@ ARRAY['todo.created', 'todo.updated', 'todo.completed', 'todo.deleted']
+    ),
+    -- 用于计算请求签名的密钥，接收方以此验证请求来自本应用
+    secret TEXT NOT NULL CHECK (char_length(secret) >= 16),
+    active BOOLEAN DEFAULT TRUE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL
+);
+
+-- 投递记录，同时作为待发送的队列：pending 的记录在 next_attempt_at 之后由服务器发送，
+-- 失败时按指数退避重试，超过次数后标记为 failed
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    webhook_id UUID REFERENCES public.webhooks(id) ON DELETE CASCADE NOT NULL,
+    event TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'succeeded', 'failed')),
+    attempts INTEGER DEFAULT 0 NOT NULL,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    response_status INTEGER,
+    response_body TEXT,
+    error TEXT,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_user_id ON public.webhooks(user_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON public.webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON public.webhook_deliveries(next_attempt_at)
+    WHERE status = 'pending';
+
+-- 启用 Row Level Security (RLS)。投递记录由触发器写入、由服务器发送和更新，用户只能查看
+ALTER TABLE public.webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own webhooks" ON public.webhooks
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own webhooks" ON public.webhooks
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own webhooks" ON public.webhooks
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own webhooks" ON public.webhooks
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own webhook deliveries" ON public.webhook_deliveries
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- 任务变化时为订阅了该事件的 Webhook 生成投递记录：
+-- 移到回收站视为删除，直接永久删除（不经过回收站）同样视为删除，清理回收站中的任务不再重复通知
+CREATE OR REPLACE FUNCTION enqueue_todo_webhooks()
+RETURNS TRIGGER AS $$
+DECLARE
+    event TEXT;
+    todo public.todos;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        event := 'todo.created';
+        todo := NEW;
+    ELSIF TG_OP = 'DELETE' THEN
+        IF OLD.deleted_at IS NOT NULL THEN
+            RETURN NULL;
+        END IF;
+        event := 'todo.deleted';
+        todo := OLD;
+    ELSIF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+        event := 'todo.deleted';
+        todo := NEW;
+    ELSIF NEW.completed AND NOT OLD.completed THEN
+        event := 'todo.completed';
+        todo := NEW;
+    ELSE
+        event := 'todo.updated';
+        todo := NEW;
+    END IF;
+
+    INSERT INTO public.webhook_deliveries (webhook_id, event, payload, user_id)
+    SELECT
+        w.id,
+        event,
+        jsonb_build_object(
+            -- 事件 id，重新投递时不变，接收方可以据此去重
+            'id', gen_random_uuid(),
+            'event', event,
+            'created_at', now(),
+            'data', to_jsonb(todo),
+            'previous', CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) END
+        ),
+        w.user_id
+    FROM public.webhooks w
+    WHERE w.user_id = todo.user_id
+        AND w.active
+        AND event = ANY (w.events);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enqueue_todos_webhooks
+    AFTER INSERT OR UPDATE OR DELETE ON public.todos
+    FOR EACH ROW
+    EXECUTE FUNCTION enqueue_todo_webhooks();
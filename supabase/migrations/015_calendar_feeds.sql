@@ -0,0 +1,38 @@
+-- 日历订阅：每个用户一个带密钥的 .ics 地址，日历应用定期拉取其中的任务。
+-- 密钥需要在设置页中随时复制，因此保存明文；重新生成即替换密钥，旧地址随之失效
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE CHECK (token ~ '^[A-Za-z0-9_-]{43}$'),
+    -- 是否同时以日程（VEVENT）形式输出有截止时间的任务
+    include_events BOOLEAN DEFAULT FALSE NOT NULL,
+    last_accessed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- 启用 Row Level Security (RLS)
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own calendar feed" ON public.calendar_feeds
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own calendar feed" ON public.calendar_feeds
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own calendar feed" ON public.calendar_feeds
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own calendar feed" ON public.calendar_feeds
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- 校验订阅密钥并记录访问时间，返回订阅所有者和输出选项；密钥不存在时不返回任何行。
+-- 日历应用的请求没有登录会话，以定义者权限运行，只暴露这一条查询
+CREATE OR REPLACE FUNCTION verify_calendar_token(feed_token TEXT)
+RETURNS TABLE (user_id UUID, include_events BOOLEAN) AS $$
+    UPDATE public.calendar_feeds f
+    SET last_accessed_at = now()
+    WHERE f.token = feed_token
+    RETURNING f.user_id, f.include_events;
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION verify_calendar_token(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION verify_calendar_token(TEXT) TO anon, authenticated;
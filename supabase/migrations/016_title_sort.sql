@@ -0,0 +1,10 @@
+-- 按标题排序使用的键：转为小写，按 "C" 排序规则逐字节比较，与客户端的 compareTitles
+-- （src/lib/todo-query.ts）顺序一致，分页加载的任务和本地排序不会互相错位。
+-- 作为 PostgREST 计算列使用：可以用于 order 和过滤条件，但不会出现在 select=* 的结果中
+CREATE OR REPLACE FUNCTION public.title_sort(public.todos)
+RETURNS TEXT AS $$
+    SELECT lower($1.title) COLLATE "C"
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 创建索引以支持按清单和标题排序（函数内联后与该表达式一致）
+CREATE INDEX IF NOT EXISTS idx_todos_list_title_sort ON public.todos(list_id, (lower(title) COLLATE "C"));